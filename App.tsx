@@ -1,15 +1,26 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { Session } from '@supabase/supabase-js';
 import Landing from './components/Landing';
 import CourseMap from './components/CourseMap';
+import CourseEditor from './components/CourseEditor';
 import LessonWorkspace from './components/LessonWorkspace';
 import Playground from './components/Playground';
 import Auth from './components/Auth';
 import Onboarding from './components/Onboarding';
-import { generateCourse } from './services/geminiService';
-import { saveCourseToStorage, saveSettingsToStorage, getSettingsFromStorage, saveBadgeToStorage } from './services/storage';
-import { Course, Lesson, ViewState, AppSettings, Theme, User } from './types';
-import { supabase } from './services/supabaseClient';
+import Setup from './components/Setup';
+import StorageErrorBanner from './components/StorageErrorBanner';
+import GenerationProgress from './components/GenerationProgress';
+import { GenerationStatus, applyGenerationEvent, createGenerationDraft, runGeneration } from './services/courseGeneration';
+import { deleteGenerationDraft, saveCourseToStorage, saveSettingsToStorage, getSettingsFromStorage, saveBadgeToStorage, subscribeStorageChanges, getProfileFromStorage, getSyncState, saveProfileToStorage, DEFAULT_SETTINGS } from './services/storage';
+import { startSync, syncNow } from './services/sync';
+import { recordActivity } from './services/activity';
+import { Course, Lesson, Module, QuizResult, ViewState, AppSettings, Theme, User, UserProfile, Difficulty, CodeFile, ActivityEvent, GenerationDraft } from './types';
+import { getSupabase } from './services/supabaseClient';
+import { getRuntimeConfig, validateConfig } from './services/config';
+import { getLessonStartingFiles, withCompletedLesson, withQuizResult, withTestedOutModule } from './services/projectState';
+import { buildTestOutLesson, canTestOut, getTestOutModuleId } from './services/testOut';
 
 const THEME_COLORS: Record<Theme, Record<string, string>> = {
     zephyr: {
@@ -75,59 +86,82 @@ const THEME_COLORS: Record<Theme, Record<string, string>> = {
 };
 
 const App: React.FC = () => {
+  const [configIssues] = useState(() => validateConfig(getRuntimeConfig()));
   const [user, setUser] = useState<User | null>(null);
-  const [view, setView] = useState<ViewState>('auth');
+  const userRef = useRef(user); // For storage listeners set up once
+  userRef.current = user;
+  const [view, setView] = useState<ViewState>(configIssues.length > 0 ? 'setup' : 'loading');
   const [course, setCourse] = useState<Course | null>(null);
   const [currentLesson, setCurrentLesson] = useState<Lesson | null>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [settings, setSettings] = useState<AppSettings>({ 
-    showTips: true, 
-    showInsertionHints: true, 
-    autoIndent: true,
-    theme: 'zephyr',
-    learnerMode: false,
-    detailLevel: 'balanced',
-    allowSkipping: false
-  });
+  const [startingFiles, setStartingFiles] = useState<CodeFile[]>([]);
+  const [generation, setGeneration] = useState<GenerationStatus | null>(null);
+  const generationAbort = useRef<AbortController | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
 
   // Check for existing session on mount
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session?.user) {
-        setUser({
-            id: session.user.id,
-            email: session.user.email || '',
-            username: session.user.email?.split('@')[0] || 'User',
-            isOnboarded: false
-        });
-        setView('landing');
+    if (configIssues.length > 0) return;
+    const supabase = getSupabase();
+    const handleSession = (session: Session | null) => {
+      if (!session?.user) {
+        setUser(null);
+        setView('auth');
+        return;
       }
-    });
+      const authUser = session.user;
+      // Token refreshes land here too; only a different account replaces the user
+      setUser(prev => prev?.id === authUser.id ? prev : {
+          id: authUser.id,
+          email: authUser.email || '',
+          username: authUser.email?.split('@')[0] || 'User',
+          isOnboarded: false
+      });
+    };
+    supabase.auth.getSession().then(({ data: { session } }) => handleSession(session));
 
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (session?.user) {
-         setUser({
-            id: session.user.id,
-            email: session.user.email || '',
-            username: session.user.email?.split('@')[0] || 'User',
-            isOnboarded: false
-        });
-        setView('landing');
-      } else {
-        setUser(null);
-        setView('auth');
-      }
-    });
+    } = supabase.auth.onAuthStateChange((_event, session) => handleSession(session));
 
     return () => subscription.unsubscribe();
-  }, []);
+  }, [configIssues]);
 
   useEffect(() => {
-    setSettings(getSettingsFromStorage());
+    getSettingsFromStorage().then(setSettings);
+    return subscribeStorageChanges(source => {
+      if (source !== 'sync') return;
+      getSettingsFromStorage().then(setSettings);
+      getProfileFromStorage().then(profile => {
+        if (!profile) return;
+        // A sync that failed or ran offline at sign-in can bring the profile in later
+        if (profile.isOnboarded && userRef.current && !userRef.current.isOnboarded) setView(prev => prev === 'onboarding' ? 'landing' : prev);
+        setUser(prev => prev && { ...prev, ...profile });
+      });
+    });
   }, []);
 
+  // Keep this device and the user's cloud copy in step while signed in
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    setView('loading');
+    let cancelled = false;
+    const stopSync = startSync(userId);
+    // The first sync decides onboarding, so a returning user on a new device skips it. Offline or
+    // when it fails, the profile this device already keeps for the user decides instead; one
+    // left by another account (cleared on the next successful sync) does not count.
+    const localProfile = async () => {
+      const state = await getSyncState().catch(() => undefined);
+      return state && state.userId !== userId ? undefined : getProfileFromStorage();
+    };
+    syncNow().then(localProfile).then(profile => {
+      if (cancelled) return;
+      if (profile) setUser(prev => prev && { ...prev, ...profile });
+      setView(profile?.isOnboarded ? 'landing' : 'onboarding');
+    });
+    return () => { cancelled = true; stopSync(); };
+  }, [userId]);
+
   useEffect(() => {
     const colors = THEME_COLORS[settings.theme];
     const root = document.documentElement;
@@ -136,27 +170,46 @@ const App: React.FC = () => {
     });
   }, [settings.theme]);
 
-  const handleGenerate = async (prompt: string, difficulty: number, length: number, visualContext?: { description: string, image: string }) => {
-    setIsGenerating(true);
+  const runDraft = async (draft: GenerationDraft) => {
+    const controller = new AbortController();
+    generationAbort.current = controller;
+    setGeneration({ draft, running: true, receivedChars: 0 });
+    setView('generating');
     try {
-      const newCourse = await generateCourse(
-          prompt, 
-          difficulty, 
-          length, 
-          visualContext?.description, 
-          visualContext?.image, 
-          settings.detailLevel
-      );
+      const newCourse = await runGeneration(draft, {
+        signal: controller.signal,
+        onEvent: event => setGeneration(prev => prev && applyGenerationEvent(prev, event)),
+      });
+      await saveCourseToStorage(newCourse);
+      await deleteGenerationDraft(draft.id);
       setCourse(newCourse);
-      saveCourseToStorage(newCourse);
+      setGeneration(null);
       setView('map');
     } catch (err) {
+      // The progress screen shows the error and offers a retry from the failed stage
       console.error(err);
     } finally {
-      setIsGenerating(false);
+      if (generationAbort.current === controller) generationAbort.current = null;
     }
   };
 
+  const handleGenerate = (prompt: string, difficulty: number, length: number, visualContext?: { description: string, image: string }) => {
+    runDraft(createGenerationDraft({
+      prompt,
+      difficultyLevel: difficulty,
+      lengthLevel: length,
+      visualDescription: visualContext?.description,
+      detailLevel: settings.detailLevel,
+      skillLevel: user?.skillLevel
+    }, visualContext?.image));
+  };
+
+  const handleDiscardGeneration = async () => {
+    if (generation) await deleteGenerationDraft(generation.draft.id);
+    setGeneration(null);
+    setView('landing');
+  };
+
   const handleResume = (c: Course) => {
     setCourse(c);
     setView('map');
@@ -168,77 +221,154 @@ const App: React.FC = () => {
   };
 
   const handleSelectLesson = (lesson: Lesson) => {
+    if (!course) return;
+    setStartingFiles(getLessonStartingFiles(course, lesson.id));
     setCurrentLesson(lesson);
+    recordActivity('lesson_start', course.id, lesson.id);
+    setView('workspace');
+  };
+
+  const handleTestOut = (module: Module) => {
+    if (!course || !canTestOut(module)) return;
+    const challenge = buildTestOutLesson(module);
+    setStartingFiles(getLessonStartingFiles(course, module.lessons[0].id));
+    setCurrentLesson(challenge);
+    recordActivity('lesson_start', course.id, challenge.id);
     setView('workspace');
   };
 
-  const handleCompleteLesson = (lessonId: string, userCode: string) => {
+  const handleCompleteLesson = (lessonId: string, userFiles: CodeFile[]) => {
     if (!course) return;
-    const updatedModules = course.modules.map(m => ({
-        ...m,
-        lessons: m.lessons.map(l => {
-            if (l.id === lessonId) {
-                return { ...l, completed: true, userCode };
-            }
-            return l;
-        })
-    }));
-    const updatedCourse = { ...course, modules: updatedModules };
+    const testedOut = course.modules.find(m => m.id === getTestOutModuleId(lessonId));
+    let updatedCourse: Course;
+    if (testedOut) {
+      testedOut.lessons.filter(l => !l.completed).forEach(l => recordActivity('lesson_complete', course.id, l.id));
+      updatedCourse = withTestedOutModule(course, testedOut.id, userFiles);
+    } else {
+      const wasCompleted = course.modules.some(m => m.lessons.some(l => l.id === lessonId && l.completed));
+      if (!wasCompleted) recordActivity('lesson_complete', course.id, lessonId);
+      updatedCourse = withCompletedLesson(course, lessonId, userFiles);
+    }
     setCourse(updatedCourse);
     saveCourseToStorage(updatedCourse);
     setView('map');
     setCurrentLesson(null);
   };
 
+  // The open lesson keeps its own copy, so only the saved course changes
+  const handleQuizResult = (lessonId: string, result: QuizResult) => {
+    if (!course) return;
+    const updatedCourse = withQuizResult(course, lessonId, result);
+    setCourse(updatedCourse);
+    saveCourseToStorage(updatedCourse);
+  };
+
+  const handleLessonActivity = (lessonId: string, kind: 'check_attempt' | 'time_on_task' | 'hint_used', details: Pick<ActivityEvent, 'passed' | 'durationMs' | 'hintLevel'>) => {
+    if (course) recordActivity(kind, course.id, lessonId, details);
+  };
+
+  const handleEditCourse = (updatedCourse: Course) => {
+    setCourse(updatedCourse);
+    saveCourseToStorage(updatedCourse);
+  };
+
   const handleUpdateSettings = (newSettings: AppSettings) => {
     setSettings(newSettings);
     saveSettingsToStorage(newSettings);
   };
 
+  const handleCompleteOnboarding = (skillLevel: Difficulty, username: string) => {
+    if (!user) return;
+    const profile: UserProfile = { username, skillLevel, isOnboarded: true };
+    setUser({ ...user, ...profile });
+    saveProfileToStorage(profile);
+    setView('landing');
+  };
+
   const handleLogout = async () => {
-      await supabase.auth.signOut();
+      await syncNow();
+      await getSupabase().auth.signOut();
       setUser(null);
       setView('auth');
   };
 
-  if (view === 'auth') return <Auth onLogin={(u) => { setUser(u); setView('landing'); }} />;
-  if (view === 'onboarding' && user) return <Onboarding user={user} onComplete={() => { setView('landing'); }} />;
+  const renderScreen = () => {
+    // Clients are built from the config on first use, so a reload picks up new keys
+    if (view === 'setup') return <Setup initialIssues={configIssues} onSaved={() => window.location.reload()} onCancel={configIssues.length > 0 ? undefined : () => setView(user ? 'landing' : 'auth')} />;
+    if (view === 'loading') return <div className="h-screen w-full bg-slate-950 flex items-center justify-center text-slate-500"><Loader2 size={28} className="animate-spin" /></div>;
+    // Routing after sign-in happens in the effect on the user id
+    if (view === 'auth') return <Auth onLogin={setUser} />;
+    if (view === 'onboarding' && user) return <Onboarding user={user} onComplete={handleCompleteOnboarding} />;
+
+    return (
+        <div className={`theme-${settings.theme} h-screen w-full bg-slate-950 text-white font-sans selection:bg-primary-500/30`}>
+           {view === 'landing' && (
+               <Landing 
+                  onGenerate={handleGenerate}
+                  onResume={handleResume}
+                  onEnterPlayground={() => setView('playground')}
+                  onResumeDraft={runDraft}
+                  settings={settings}
+                  onUpdateSettings={handleUpdateSettings}
+                  onLogout={handleLogout}
+                  onOpenSetup={() => setView('setup')}
+                  onEditProfile={() => setView('onboarding')}
+                  skillLevel={user?.skillLevel}
+               />
+           )}
+           {view === 'generating' && generation && (
+               <GenerationProgress
+                  status={generation}
+                  onCancel={() => generationAbort.current?.abort()}
+                  onRetry={() => runDraft(generation.draft)}
+                  onDiscard={handleDiscardGeneration}
+                  onBack={() => { setGeneration(null); setView('landing'); }}
+               />
+           )}
+           {view === 'map' && course && (
+               <CourseMap 
+                  course={course}
+                  recipientName={user?.username || 'Zephyr Learner'}
+                  allowSkipping={settings.allowSkipping}
+                  onSelectLesson={handleSelectLesson}
+                  onTestOut={handleTestOut}
+                  onEdit={() => setView('editor')}
+                  onBack={() => setView('landing')}
+               />
+           )}
+           {view === 'editor' && course && (
+               <CourseEditor
+                  course={course}
+                  onSave={handleEditCourse}
+                  onBack={() => setView('map')}
+               />
+           )}
+           {view === 'workspace' && currentLesson && (
+               <LessonWorkspace 
+                  lesson={currentLesson}
+                  startingFiles={startingFiles}
+                  onBack={handleBackToMap}
+                  onComplete={handleCompleteLesson}
+                  onActivity={handleLessonActivity}
+                  onQuizResult={handleQuizResult}
+                  settings={settings}
+               />
+           )}
+           {view === 'playground' && (
+               <Playground 
+                  onBack={() => setView('landing')}
+                  onAwardBadge={(badge) => saveBadgeToStorage(badge)}
+               />
+           )}
+        </div>
+    );
+  };
 
   return (
-      <div className={`theme-${settings.theme} h-screen w-full bg-slate-950 text-white font-sans selection:bg-primary-500/30`}>
-         {view === 'landing' && (
-             <Landing 
-                onGenerate={handleGenerate}
-                onResume={handleResume}
-                onEnterPlayground={() => setView('playground')}
-                isGenerating={isGenerating}
-                settings={settings}
-                onUpdateSettings={handleUpdateSettings}
-                onLogout={handleLogout}
-             />
-         )}
-         {view === 'map' && course && (
-             <CourseMap 
-                course={course}
-                onSelectLesson={handleSelectLesson}
-                onBack={() => setView('landing')}
-             />
-         )}
-         {view === 'workspace' && currentLesson && (
-             <LessonWorkspace 
-                lesson={currentLesson}
-                onBack={handleBackToMap}
-                onComplete={handleCompleteLesson}
-                settings={settings}
-             />
-         )}
-         {view === 'playground' && (
-             <Playground 
-                onBack={() => setView('landing')}
-                onAwardBadge={(badge) => saveBadgeToStorage(badge)}
-             />
-         )}
-      </div>
+      <>
+        {renderScreen()}
+        <StorageErrorBanner />
+      </>
   );
 };
 
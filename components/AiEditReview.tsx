@@ -0,0 +1,97 @@
+import React, { useMemo, useState } from 'react';
+import { Check, X, Sparkles, GitCompare } from 'lucide-react';
+import { applyHunks, diffHunks, splitLines } from '../services/diff';
+
+export interface AiEditProposal {
+  file: string;
+  original: string;
+  proposed: string;
+  explanation: string;
+  selection?: { start: number; end: number }; // Character offsets the edit was asked for
+}
+
+interface AiEditReviewProps {
+  proposal: AiEditProposal;
+  title?: string;
+  onApply: (code: string, applied: number) => void;
+  onDiscard: () => void;
+}
+
+const CONTEXT_LINES = 2;
+
+const lineAt = (text: string, offset: number) => text.slice(0, offset).split('\n').length - 1;
+
+const AiEditReview: React.FC<AiEditReviewProps> = ({ proposal, title = 'Review AI edit', onApply, onDiscard }) => {
+  const { original, proposed, explanation, selection } = proposal;
+  const hunks = useMemo(() => diffHunks(original, proposed), [original, proposed]);
+  const lines = useMemo(() => splitLines(original), [original]);
+
+  // Changes outside the selected lines are shown but start rejected
+  const inSelection = useMemo(() => {
+    if (!selection || selection.start === selection.end) return hunks.map(() => true);
+    const first = lineAt(original, selection.start);
+    const last = lineAt(original, selection.end - 1); // A selection ending just after a newline stops on that line
+    return hunks.map(h => h.aEnd > h.aStart ? h.aStart <= last && h.aEnd - 1 >= first : h.aStart >= first && h.aStart <= last + 1);
+  }, [hunks, original, selection]);
+
+  const [accepted, setAccepted] = useState<boolean[]>(inSelection);
+  const acceptedCount = accepted.filter(Boolean).length;
+  const setAll = (value: boolean) => setAccepted(hunks.map(() => value));
+
+  return (
+    <div className="absolute inset-x-4 top-4 bottom-4 z-30 flex flex-col bg-slate-900 border border-purple-500/30 rounded-xl shadow-2xl overflow-hidden animate-in slide-in-from-top-2">
+      <div className="px-4 py-3 border-b border-slate-800 flex items-start gap-3">
+        <GitCompare size={16} className="text-purple-300 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <h4 className="text-xs font-bold text-purple-300 uppercase tracking-wider">{title}</h4>
+          {explanation && <p className="text-sm text-slate-300 mt-1">{explanation}</p>}
+        </div>
+        <button onClick={onDiscard} className="text-slate-500 hover:text-white"><X size={16} /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-3">
+        {hunks.length === 0 && <p className="text-sm text-slate-500 text-center py-8">There are no differences.</p>}
+        {hunks.map((hunk, h) => {
+          const before = lines.slice(Math.max(0, hunk.aStart - CONTEXT_LINES), hunk.aStart);
+          const after = lines.slice(hunk.aEnd, hunk.aEnd + CONTEXT_LINES);
+          return (
+            <div key={h} className={`rounded-lg border overflow-hidden transition-opacity ${accepted[h] ? 'border-slate-700' : 'border-slate-800 opacity-60'}`}>
+              <div className="flex items-center justify-between px-3 py-1.5 bg-slate-800/60 text-[11px] text-slate-400">
+                <span>
+                  Line {hunk.aStart + 1}
+                  {!inSelection[h] && <span className="ml-2 text-amber-400">Outside your selection</span>}
+                </span>
+                <div className="flex gap-1">
+                  <button onClick={() => setAccepted(prev => prev.map((v, k) => k === h ? true : v))} className={`flex items-center gap-1 px-2 py-0.5 rounded font-semibold transition-colors ${accepted[h] ? 'bg-emerald-500/20 text-emerald-300' : 'hover:bg-slate-700 text-slate-400'}`}><Check size={12} /> Accept</button>
+                  <button onClick={() => setAccepted(prev => prev.map((v, k) => k === h ? false : v))} className={`flex items-center gap-1 px-2 py-0.5 rounded font-semibold transition-colors ${!accepted[h] ? 'bg-red-500/20 text-red-300' : 'hover:bg-slate-700 text-slate-400'}`}><X size={12} /> Reject</button>
+                </div>
+              </div>
+              <pre className="text-xs font-mono leading-5 overflow-x-auto custom-scrollbar bg-[#1e1e2e] py-1">
+                {before.map((line, k) => <div key={`b${k}`} className="px-3 text-slate-500">{'  '}{line}</div>)}
+                {hunk.removed.map((line, k) => <div key={`r${k}`} className="px-3 bg-red-500/10 text-red-300">{'- '}{line}</div>)}
+                {hunk.added.map((line, k) => <div key={`a${k}`} className="px-3 bg-emerald-500/10 text-emerald-300">{'+ '}{line}</div>)}
+                {after.map((line, k) => <div key={`f${k}`} className="px-3 text-slate-500">{'  '}{line}</div>)}
+              </pre>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="px-4 py-3 border-t border-slate-800 flex items-center gap-2">
+        {hunks.length > 1 && (
+          <>
+            <button onClick={() => setAll(true)} className="text-xs text-slate-400 hover:text-white">Accept all</button>
+            <span className="text-slate-700">·</span>
+            <button onClick={() => setAll(false)} className="text-xs text-slate-400 hover:text-white">Reject all</button>
+          </>
+        )}
+        <button onClick={onDiscard} className="ml-auto px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold transition-colors">Discard</button>
+        <button onClick={() => onApply(applyHunks(original, hunks, accepted), acceptedCount)} disabled={acceptedCount === 0} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-xs font-bold disabled:opacity-50 transition-colors">
+          <Sparkles size={12} /> Apply {hunks.length > 1 ? `${acceptedCount} of ${hunks.length}` : ''}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AiEditReview;
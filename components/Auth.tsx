@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Zap, Mail, Lock, ArrowRight, Github, Loader2 } from 'lucide-react';
 import { User } from '../types';
-import { supabase } from '../services/supabaseClient';
+import { getSupabase } from '../services/supabaseClient';
 
 interface AuthProps {
   onLogin: (user: User) => void;
@@ -21,14 +21,14 @@ const Auth: React.FC<AuthProps> = ({ onLogin }) => {
     
     try {
         if (isLogin) {
-            const { data, error } = await supabase.auth.signInWithPassword({
+            const { data, error } = await getSupabase().auth.signInWithPassword({
                 email,
                 password,
             });
             if (error) throw error;
             // Successful login is handled by the onAuthStateChange listener in App.tsx
         } else {
-            const { data, error } = await supabase.auth.signUp({
+            const { data, error } = await getSupabase().auth.signUp({
                 email,
                 password,
             });
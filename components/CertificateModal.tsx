@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { X, Award, Download, Printer, ShieldCheck, ShieldAlert, Loader2, FileJson } from 'lucide-react';
+import { Certificate, Course } from '../types';
+import { CertificateCheck, certificateDataUrl, downloadCertificate, printCertificate, verifyCertificate } from '../services/certificates';
+
+interface CertificateModalProps {
+  certificate: Certificate;
+  course?: Course; // The saved course to verify against
+  onClose: () => void;
+}
+
+const CertificateModal: React.FC<CertificateModalProps> = ({ certificate, course, onClose }) => {
+  const [check, setCheck] = useState<CertificateCheck | null>(null);
+
+  useEffect(() => {
+    setCheck(null);
+    verifyCertificate(certificate, course).then(setCheck);
+  }, [certificate, course]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-3xl shadow-2xl p-6 relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white"><X size={20} /></button>
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2"><Award size={20} className="text-yellow-400" /> Certificate of Completion</h2>
+
+        <img src={certificateDataUrl(certificate)} alt={`Certificate for ${certificate.courseTitle}`} className="w-full rounded-xl border border-slate-700 shadow-xl" />
+
+        <div className={`mt-4 p-3 rounded-xl border text-sm flex items-start gap-3 ${!check ? 'bg-slate-800/50 border-slate-700/50 text-slate-400' : check.valid ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300' : 'bg-red-500/10 border-red-500/30 text-red-300'}`}>
+          {!check ? <Loader2 size={18} className="animate-spin shrink-0" /> : check.valid ? <ShieldCheck size={18} className="shrink-0" /> : <ShieldAlert size={18} className="shrink-0" />}
+          <div className="min-w-0">
+            <div className="font-bold">{!check ? 'Verifying…' : check.valid ? 'Verified against your saved progress' : 'Could not verify'}</div>
+            {check && !check.valid && <div className="text-xs mt-0.5 opacity-80">{check.reason}</div>}
+            <div className="font-mono text-[10px] text-slate-500 mt-1 break-all">SHA-256 {certificate.hash}</div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-4 justify-end">
+          <button onClick={() => downloadCertificate(certificate, 'json')} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-bold transition-colors" title="Machine-readable copy for verifying later">
+            <FileJson size={16} /> JSON
+          </button>
+          <button onClick={() => downloadCertificate(certificate, 'svg')} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-bold transition-colors">
+            <Download size={16} /> Download SVG
+          </button>
+          <button onClick={() => printCertificate(certificate)} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-primary-600 hover:bg-primary-500 text-white text-sm font-bold transition-colors">
+            <Printer size={16} /> Print / Save PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CertificateModal;
@@ -2,12 +2,22 @@ import React, { useState, useRef, useEffect } from 'react';
 import { MessageCircle, X, Send, Bot, Loader2, Minimize2, Maximize2 } from 'lucide-react';
 import { chatWithMentor } from '../services/geminiService';
 import { ChatMessage, Lesson } from '../types';
+import Markdown from './Markdown';
+
+// A question raised elsewhere in the UI (e.g. "explain this error"). `text` is
+// shown in the chat; `prompt` is what the mentor receives.
+export interface MentorQuestion {
+  id: string;
+  text: string;
+  prompt: string;
+}
 
 interface ChatBotProps {
   currentLesson?: Lesson;
+  question?: MentorQuestion | null;
 }
 
-const ChatBot: React.FC<ChatBotProps> = ({ currentLesson }) => {
+const ChatBot: React.FC<ChatBotProps> = ({ currentLesson, question }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([
     { id: '1', role: 'model', text: 'Hi! I\'m Zephyr, your AI mentor. Stuck on a concept? Ask me anything!' }
@@ -24,17 +34,14 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentLesson }) => {
     scrollToBottom();
   }, [messages, isOpen]);
 
-  const handleSend = async () => {
-    if (!inputValue.trim() || isLoading) return;
-
+  const sendMessage = async (text: string, prompt: string = text) => {
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
-      text: inputValue
+      text
     };
 
     setMessages(prev => [...prev, userMsg]);
-    setInputValue('');
     setIsLoading(true);
 
     try {
@@ -47,7 +54,7 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentLesson }) => {
         ? `Lesson: ${currentLesson.title}. Task: ${currentLesson.instructions}. Code Concept: ${currentLesson.concept}` 
         : "General Coding Help";
 
-      const responseText = await chatWithMentor(history, userMsg.text, context);
+      const responseText = await chatWithMentor(history, prompt, context);
       
       const botMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
@@ -67,6 +74,19 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentLesson }) => {
     }
   };
 
+  const handleSend = () => {
+    if (!inputValue.trim() || isLoading) return;
+    sendMessage(inputValue);
+    setInputValue('');
+  };
+
+  useEffect(() => {
+    if (!question) return;
+    setIsOpen(true);
+    sendMessage(question.text, question.prompt);
+    // Keyed on the id so each question is sent once
+  }, [question?.id]);
+
   if (!isOpen) {
     return (
       <button
@@ -106,7 +126,9 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentLesson }) => {
                   : 'bg-white border border-slate-200 text-slate-700 rounded-tl-none shadow-sm'
               } ${msg.isError ? 'bg-red-50 text-red-600 border-red-200' : ''}`}
             >
-              <div className="whitespace-pre-wrap">{msg.text}</div>
+              {msg.role === 'model' && !msg.isError
+                ? <Markdown text={msg.text} tone="light" />
+                : <div className="whitespace-pre-wrap">{msg.text}</div>}
             </div>
           </div>
         ))}
@@ -0,0 +1,40 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { TokenType, highlightCode } from '../services/highlight';
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-slate-500 italic',
+  string: 'text-emerald-300',
+  keyword: 'text-purple-400',
+  number: 'text-amber-300',
+  tag: 'text-sky-400',
+  attr: 'text-amber-200',
+  property: 'text-sky-300',
+  punctuation: 'text-slate-400',
+};
+
+const CodeBlock: React.FC<{ language: string; code: string }> = ({ language, code }) => {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlightCode(code.trim(), language), [code, language]);
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code.trim());
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+  return (
+    <div className="my-4 rounded-lg overflow-hidden border border-slate-700 bg-slate-950 shadow-md group">
+      <div className="flex justify-between items-center px-3 py-1.5 bg-slate-800 border-b border-slate-700">
+        <span className="text-[10px] font-mono text-slate-400 uppercase">{language || 'code'}</span>
+        <button onClick={handleCopy} className={`flex items-center gap-1.5 px-2 py-1 rounded transition-colors text-xs font-medium ${copied ? 'bg-emerald-500/20 text-emerald-400' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`}>
+          {copied ? <Check size={12} /> : <Copy size={12} />}<span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+      <pre className="p-3 text-sm font-mono text-slate-300 overflow-x-auto whitespace-pre custom-scrollbar">
+        <code>{tokens.map((t, i) => TOKEN_CLASSES[t.type] ? <span key={i} className={TOKEN_CLASSES[t.type]}>{t.text}</span> : t.text)}</code>
+      </pre>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,260 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Undo2, Redo2 } from 'lucide-react';
+import { Annotation, Compartment, EditorState, Extension, Prec } from '@codemirror/state';
+import {
+  EditorView, Decoration, WidgetType, keymap, lineNumbers, highlightActiveLine, highlightActiveLineGutter,
+  highlightSpecialChars, drawSelection, dropCursor, rectangularSelection, crosshairCursor, placeholder as placeholderText,
+} from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap, indentWithTab, insertNewline, undo, redo, undoDepth, redoDepth } from '@codemirror/commands';
+import { bracketMatching, foldGutter, foldKeymap, indentOnInput, syntaxHighlighting, HighlightStyle } from '@codemirror/language';
+import { closeBrackets, closeBracketsKeymap } from '@codemirror/autocomplete';
+import { highlightSelectionMatches, search, searchKeymap } from '@codemirror/search';
+import { linter, lintGutter, lintKeymap } from '@codemirror/lint';
+import { html } from '@codemirror/lang-html';
+import { css } from '@codemirror/lang-css';
+import { javascript } from '@codemirror/lang-javascript';
+import { tags } from '@lezer/highlight';
+import { CodeFile } from '../types';
+import { lintCode } from '../services/codeLint';
+
+export interface SelectedCode {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface CodeEditorHandle {
+  focus: () => void;
+  /** Scrolls the 1-based line into the middle of the view; 'cursor' and 'select' also focus the editor there. */
+  revealLine: (line: number, mode?: 'scroll' | 'cursor' | 'select') => void;
+}
+
+interface CodeEditorProps {
+  path: string; // Each file keeps its own undo history and cursor while the editor is open
+  value: string;
+  language: CodeFile['language'];
+  onChange: (value: string) => void;
+  onSelectionChange?: (selection: SelectedCode) => void;
+  highlightLine?: number | null; // 1-based line the learner should type on
+  highlightLabel?: string;
+  autoIndent?: boolean;
+  placeholder?: string;
+}
+
+const LANGUAGES: Record<CodeFile['language'], () => Extension> = {
+  html: () => html(),
+  css: () => css(),
+  javascript: () => javascript(),
+};
+
+// Same colours as the code blocks in lesson text (components/CodeBlock.tsx)
+const highlightStyle = HighlightStyle.define([
+  { tag: tags.comment, color: '#64748b', fontStyle: 'italic' },
+  { tag: [tags.string, tags.special(tags.string), tags.regexp], color: '#6ee7b7' },
+  { tag: [tags.keyword, tags.bool, tags.null, tags.atom, tags.modifier], color: '#c084fc' },
+  { tag: [tags.number, tags.color, tags.unit], color: '#fcd34d' },
+  { tag: [tags.tagName, tags.angleBracket], color: '#38bdf8' },
+  { tag: tags.attributeName, color: '#fde68a' },
+  { tag: tags.attributeValue, color: '#6ee7b7' },
+  { tag: [tags.propertyName, tags.function(tags.variableName), tags.function(tags.propertyName)], color: '#7dd3fc' },
+  { tag: [tags.className, tags.labelName, tags.typeName], color: '#fcd34d' },
+  { tag: [tags.punctuation, tags.bracket, tags.operator, tags.separator], color: '#94a3b8' },
+  { tag: tags.invalid, color: '#f87171' },
+]);
+
+const theme = EditorView.theme({
+  '&': { height: '100%', backgroundColor: '#1e1e2e', color: '#cbd5e1', fontSize: '14px' },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', lineHeight: '24px', padding: '12px 0' },
+  '.cm-content': { caretColor: '#e2e8f0' },
+  '.cm-cursor, .cm-dropCursor': { borderLeftColor: '#e2e8f0' },
+  '&.cm-focused > .cm-scroller > .cm-selectionLayer .cm-selectionBackground, .cm-selectionBackground, .cm-content ::selection': { backgroundColor: 'rgba(99, 102, 241, 0.35)' },
+  '.cm-gutters': { backgroundColor: '#1e1e2e', color: '#475569', border: 'none' },
+  '.cm-activeLine': { backgroundColor: 'rgba(255, 255, 255, 0.03)' },
+  '.cm-activeLineGutter': { backgroundColor: 'transparent', color: '#94a3b8' },
+  '.cm-matchingBracket': { backgroundColor: 'rgba(99, 102, 241, 0.3)', outline: '1px solid rgba(129, 140, 248, 0.6)' },
+  '.cm-nonmatchingBracket': { backgroundColor: 'rgba(248, 113, 113, 0.3)' },
+  '.cm-selectionMatch': { backgroundColor: 'rgba(255, 255, 255, 0.08)' },
+  '.cm-searchMatch': { backgroundColor: 'rgba(234, 179, 8, 0.25)', outline: '1px solid rgba(234, 179, 8, 0.5)' },
+  '.cm-searchMatch.cm-searchMatch-selected': { backgroundColor: 'rgba(234, 179, 8, 0.5)' },
+  '.cm-panels': { backgroundColor: '#0f172a', color: '#cbd5e1', borderTop: '1px solid #334155' },
+  '.cm-panels.cm-panels-top': { borderBottom: '1px solid #334155' },
+  '.cm-panel input, .cm-panel button': { fontSize: '12px' },
+  '.cm-textfield': { backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '6px', color: '#f1f5f9' },
+  '.cm-button': { backgroundImage: 'none', backgroundColor: '#334155', border: 'none', borderRadius: '6px', color: '#e2e8f0' },
+  '.cm-tooltip': { backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '8px', color: '#e2e8f0' },
+  '.cm-tooltip-lint': { padding: '2px' },
+  '.cm-placeholder': { color: '#475569' },
+  '.cm-learner-line': { background: 'linear-gradient(90deg, rgba(234, 179, 8, 0.1) 0%, rgba(234, 179, 8, 0.05) 50%, transparent 100%)', boxShadow: 'inset 3px 0 0 #eab308' },
+  '.cm-learner-label': { marginLeft: '16px', color: '#facc15', fontSize: '12px', fontWeight: 'bold', fontFamily: 'ui-sans-serif, system-ui, sans-serif' },
+}, { dark: true });
+
+class LabelWidget extends WidgetType {
+  constructor(readonly label: string) { super(); }
+  eq(other: LabelWidget) { return other.label === this.label; }
+  toDOM() {
+    const span = document.createElement('span');
+    span.className = 'cm-learner-label animate-pulse';
+    span.textContent = `← ${this.label}`;
+    return span;
+  }
+  ignoreEvent() { return true; }
+}
+
+// The learner-mode line, clamped to the document so a point just past the end still shows
+const learnerLine = (line: number | null | undefined, label: string): Extension => line == null ? [] : EditorView.decorations.of(view => {
+  const target = view.state.doc.line(Math.min(Math.max(line, 1), view.state.doc.lines));
+  return Decoration.set([
+    Decoration.line({ class: 'cm-learner-line' }).range(target.from),
+    Decoration.widget({ widget: new LabelWidget(label), side: 1 }).range(target.to),
+  ]);
+});
+
+// With auto-indent off, Enter inserts a bare newline
+const plainEnter = Prec.high(keymap.of([{ key: 'Enter', run: insertNewline }]));
+
+// Marks transactions that copy the `value` prop in, so they are not reported back as edits
+const External = Annotation.define<boolean>();
+
+// The smallest single replacement turning `from` into `to`, so the cursor and undo history stay put
+const minimalChange = (from: string, to: string) => {
+  let start = 0;
+  while (start < from.length && start < to.length && from[start] === to[start]) start++;
+  let end = 0;
+  while (end < from.length - start && end < to.length - start && from[from.length - 1 - end] === to[to.length - 1 - end]) end++;
+  return { from: start, to: from.length - end, insert: to.slice(start, to.length - end) };
+};
+
+const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({
+  path, value, language, onChange, onSelectionChange, highlightLine, highlightLabel = 'Type here', autoIndent = true, placeholder = '',
+}, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const states = useRef(new Map<string, EditorState>());
+  const pathRef = useRef(path);
+  const compartments = useRef({ language: new Compartment(), indent: new Compartment(), learner: new Compartment() }).current;
+  const [historyDepth, setHistoryDepth] = useState({ undo: 0, redo: 0 });
+  const callbacks = useRef({ onChange, onSelectionChange });
+  callbacks.current = { onChange, onSelectionChange };
+
+  const configuration = () => ({
+    language: LANGUAGES[language](),
+    indent: autoIndent ? [] : plainEnter,
+    learner: learnerLine(highlightLine, highlightLabel),
+  });
+
+  const createState = (doc: string) => {
+    const config = configuration();
+    return EditorState.create({
+      doc,
+      extensions: [
+        lineNumbers(),
+        highlightActiveLineGutter(),
+        foldGutter(),
+        lintGutter(),
+        highlightSpecialChars(),
+        history(),
+        drawSelection(),
+        dropCursor(),
+        EditorState.allowMultipleSelections.of(true),
+        indentOnInput(),
+        syntaxHighlighting(highlightStyle),
+        bracketMatching(),
+        closeBrackets(),
+        rectangularSelection(),
+        crosshairCursor(),
+        highlightActiveLine(),
+        highlightSelectionMatches(),
+        search({ top: true }),
+        linter(view => lintCode(view.state), { delay: 500 }),
+        keymap.of([...closeBracketsKeymap, ...defaultKeymap, ...searchKeymap, ...historyKeymap, ...foldKeymap, ...lintKeymap, indentWithTab]),
+        placeholderText(placeholder),
+        theme,
+        compartments.language.of(config.language),
+        compartments.indent.of(config.indent),
+        compartments.learner.of(config.learner),
+        EditorView.updateListener.of(update => {
+          if (update.docChanged && !update.transactions.some(tr => tr.annotation(External))) {
+            callbacks.current.onChange(update.state.doc.toString());
+          }
+          setHistoryDepth(prev => {
+            const next = { undo: undoDepth(update.state), redo: redoDepth(update.state) };
+            return next.undo === prev.undo && next.redo === prev.redo ? prev : next;
+          });
+          if (update.docChanged || update.selectionSet) {
+            const { from, to } = update.state.selection.main;
+            callbacks.current.onSelectionChange?.({ start: from, end: to, text: update.state.sliceDoc(from, to) });
+          }
+        }),
+      ],
+    });
+  };
+
+  useEffect(() => {
+    const view = new EditorView({ state: createState(value), parent: containerRef.current! });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // Switching files swaps in that file's saved state; any other change to `value` (a reset, an
+  // accepted AI edit) goes in as one undoable step
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    if (path !== pathRef.current) {
+      states.current.set(pathRef.current, view.state);
+      pathRef.current = path;
+      const saved = states.current.get(path);
+      view.setState(saved && saved.doc.toString() === value ? saved : createState(value));
+      setHistoryDepth({ undo: undoDepth(view.state), redo: redoDepth(view.state) });
+      onSelectionChange?.({ start: 0, end: 0, text: '' });
+    } else if (view.state.doc.toString() !== value) {
+      view.dispatch({ changes: minimalChange(view.state.doc.toString(), value), annotations: External.of(true) });
+    }
+  }, [path, value]);
+
+  // Saved states may have been configured for other props
+  useEffect(() => {
+    const config = configuration();
+    viewRef.current?.dispatch({
+      effects: [
+        compartments.language.reconfigure(config.language),
+        compartments.indent.reconfigure(config.indent),
+        compartments.learner.reconfigure(config.learner),
+      ],
+    });
+  }, [path, language, autoIndent, highlightLine, highlightLabel]);
+
+  useImperativeHandle(ref, () => ({
+    focus: () => viewRef.current?.focus(),
+    revealLine: (line, mode = 'scroll') => {
+      const view = viewRef.current;
+      if (!view) return;
+      const target = view.state.doc.line(Math.min(Math.max(line, 1), view.state.doc.lines));
+      const effects = EditorView.scrollIntoView(target.from, { y: 'center' });
+      if (mode === 'scroll') { view.dispatch({ effects }); return; }
+      view.dispatch({ selection: mode === 'select' ? { anchor: target.from, head: target.to } : { anchor: target.to }, effects });
+      view.focus();
+    },
+  }), []);
+
+  const runCommand = (command: typeof undo) => {
+    const view = viewRef.current;
+    if (view) { command(view); view.focus(); }
+  };
+
+  return (
+    <div className="relative h-full min-h-0">
+      <div ref={containerRef} className="h-full overflow-hidden" />
+      <div className="absolute bottom-4 left-14 z-20 flex gap-1">
+        <button onClick={() => runCommand(undo)} disabled={historyDepth.undo === 0} title="Undo (Ctrl+Z)" className="p-2 rounded-lg bg-slate-800/80 border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:pointer-events-none transition-colors"><Undo2 size={14} /></button>
+        <button onClick={() => runCommand(redo)} disabled={historyDepth.redo === 0} title="Redo (Ctrl+Shift+Z)" className="p-2 rounded-lg bg-slate-800/80 border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:pointer-events-none transition-colors"><Redo2 size={14} /></button>
+      </div>
+    </div>
+  );
+});
+
+export default CodeEditor;
@@ -0,0 +1,375 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronUp, ChevronDown, Plus, RefreshCw, Undo2, History, Save, Loader2, Square, Sparkles, AlertTriangle, RotateCcw, BookOpen } from 'lucide-react';
+import { Course, CourseIssue, CourseRevision, Lesson } from '../types';
+import { addLesson, moveModule, regenerateLesson, regenerateModule, restoreRevision, takeRevision, updateLesson, updateModule } from '../services/courseEditor';
+import { checkLessonSolution, validateLesson } from '../services/courseValidation';
+import { isCancellation } from '../services/courseGeneration';
+import { deleteCourseRevision, getCourseRevisions, saveCourseRevision } from '../services/storage';
+
+interface CourseEditorProps {
+  course: Course;
+  onSave: (course: Course) => void;
+  onBack: () => void;
+}
+
+// What the right-hand panel shows; ids survive reordering
+interface Selection {
+  moduleId: string;
+  lessonId?: string;
+  addAt?: number; // Lesson index a new lesson goes in at
+}
+
+type LessonDraft = Pick<Lesson, 'title' | 'description' | 'concept' | 'instructions' | 'initialCode' | 'solutionCode'>;
+
+const EDITABLE_FIELDS: { key: keyof LessonDraft; label: string; rows: number; code?: boolean }[] = [
+  { key: 'title', label: 'Title', rows: 1 },
+  { key: 'description', label: 'Description', rows: 2 },
+  { key: 'concept', label: 'Concept', rows: 3 },
+  { key: 'instructions', label: 'Instructions (Markdown)', rows: 8 },
+  { key: 'initialCode', label: 'Starting code', rows: 10, code: true },
+  { key: 'solutionCode', label: 'Solution code', rows: 10, code: true },
+];
+
+const draftOf = (lesson: Lesson): LessonDraft => ({
+  title: lesson.title,
+  description: lesson.description,
+  concept: lesson.concept,
+  instructions: lesson.instructions,
+  initialCode: lesson.initialCode,
+  solutionCode: lesson.solutionCode,
+});
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-primary-500 transition-colors';
+
+const CourseEditor: React.FC<CourseEditorProps> = ({ course, onSave, onBack }) => {
+  const [selection, setSelection] = useState<Selection>({ moduleId: course.modules[0]?.id, lessonId: course.modules[0]?.lessons[0]?.id });
+  const [draft, setDraft] = useState<LessonDraft | null>(null);
+  const [newLesson, setNewLesson] = useState({ title: '', description: '' });
+  const [guidance, setGuidance] = useState('');
+  const [issues, setIssues] = useState<CourseIssue[]>([]);
+  const [revisions, setRevisions] = useState<CourseRevision[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const moduleIndex = course.modules.findIndex(m => m.id === selection.moduleId);
+  const module = course.modules[moduleIndex];
+  const lesson = module?.lessons.find(l => l.id === selection.lessonId);
+
+  useEffect(() => {
+    getCourseRevisions(course.id).then(setRevisions);
+  }, [course.id]);
+
+  // A fresh form whenever another lesson is picked or the lesson changes underneath
+  useEffect(() => {
+    setDraft(lesson ? draftOf(lesson) : null);
+    setIssues([]);
+  }, [lesson]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const dirty = useMemo(() => !!lesson && !!draft && (Object.keys(draft) as (keyof LessonDraft)[]).some(k => draft[k] !== lesson[k]), [lesson, draft]);
+
+  const select = (next: Selection) => {
+    if (dirty && !window.confirm('Discard your unsaved changes to this lesson?')) return;
+    setSelection(next);
+    setGuidance('');
+    setError(null);
+  };
+
+  // Every change is saved right away, with the previous content kept as a revision
+  const commit = async (next: Course, label: string) => {
+    await saveCourseRevision(takeRevision(course, label));
+    onSave(next);
+    setRevisions(await getCourseRevisions(course.id));
+  };
+
+  const runAi = async (label: string, work: (run: { signal: AbortSignal; guidance: string; onCheck: (title: string, repairing: boolean) => void }) => Promise<Course>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusy(label);
+    setProgress('Waiting for the model…');
+    setError(null);
+    try {
+      const next = await work({
+        signal: controller.signal,
+        guidance,
+        onCheck: (title, repairing) => setProgress(`${repairing ? 'Repairing' : 'Checking'} "${title}"…`),
+      });
+      await commit(next, label);
+      setGuidance('');
+      return next;
+    } catch (e) {
+      if (!isCancellation(e, controller.signal)) setError(e instanceof Error ? e.message : String(e));
+      return null;
+    } finally {
+      abortRef.current = null;
+      setBusy(null);
+    }
+  };
+
+  const handleSaveLesson = async () => {
+    if (!lesson || !draft) return;
+    const next = { ...lesson, ...draft };
+    const path = `modules[${moduleIndex}].lessons[${module.lessons.indexOf(lesson)}]`;
+    setBusy('Checking the lesson');
+    setProgress(`Checking "${next.title}"…`);
+    try {
+      const structural = validateLesson(next, path);
+      const found = structural.length ? structural : await checkLessonSolution(next, path);
+      setIssues(found);
+      if (found.length === 0) await commit(updateLesson(course, lesson.id, draft), `Edited lesson "${lesson.title}"`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleMoveModule = (index: number, by: number) => {
+    if (busy) return;
+    commit(moveModule(course, index, index + by), `Moved module "${course.modules[index].title}"`);
+  };
+
+  const handleAddLesson = async () => {
+    if (!module || selection.addAt === undefined || !newLesson.title.trim()) return;
+    const at = selection.addAt;
+    const next = await runAi(`Added lesson "${newLesson.title.trim()}"`, run => addLesson(course, { moduleIndex, lessonIndex: at }, newLesson, run));
+    if (next) {
+      setNewLesson({ title: '', description: '' });
+      setSelection({ moduleId: module.id, lessonId: next.modules[moduleIndex].lessons[at].id });
+    }
+  };
+
+  const handleUndo = async () => {
+    const [latest] = revisions;
+    if (!latest || busy) return;
+    onSave(restoreRevision(course, latest));
+    await deleteCourseRevision(latest.id);
+    setRevisions(await getCourseRevisions(course.id));
+  };
+
+  const handleRestore = (revision: CourseRevision) => {
+    if (busy || !window.confirm(`Restore the course as it was before "${revision.label}"? Your current version stays in the history.`)) return;
+    commit(restoreRevision(course, revision), `Restored the version before "${revision.label}"`);
+  };
+
+  const guidanceBox = (placeholder: string) => (
+    <textarea
+      value={guidance}
+      onChange={e => setGuidance(e.target.value)}
+      placeholder={placeholder}
+      rows={3}
+      disabled={!!busy}
+      className={`${inputClass} resize-none`}
+    />
+  );
+
+  const renderLessonPanel = () => {
+    if (!lesson || !draft) return null;
+    return (
+      <div className="space-y-6">
+        <div className="space-y-4">
+          {EDITABLE_FIELDS.map(field => (
+            <label key={field.key} className="block">
+              <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{field.label}</span>
+              {field.rows === 1 ? (
+                <input value={draft[field.key]} onChange={e => setDraft({ ...draft, [field.key]: e.target.value })} disabled={!!busy} className={inputClass} />
+              ) : (
+                <textarea
+                  value={draft[field.key]}
+                  onChange={e => setDraft({ ...draft, [field.key]: e.target.value })}
+                  rows={field.rows}
+                  spellCheck={!field.code}
+                  disabled={!!busy}
+                  className={`${inputClass} ${field.code ? 'font-mono text-xs' : ''}`}
+                />
+              )}
+            </label>
+          ))}
+        </div>
+
+        {issues.length > 0 && (
+          <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-xs space-y-1">
+            <div className="font-bold flex items-center gap-2"><AlertTriangle size={14} /> Not saved: fix these first</div>
+            {issues.map((issue, i) => <div key={i}>{issue.message}</div>)}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={() => lesson && setDraft(draftOf(lesson))} disabled={!dirty || !!busy} className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-300 text-sm font-bold transition-colors">
+            Revert
+          </button>
+          <button onClick={handleSaveLesson} disabled={!dirty || !!busy} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-primary-600 hover:bg-primary-500 disabled:opacity-40 text-white text-sm font-bold transition-colors">
+            <Save size={16} /> Save lesson
+          </button>
+        </div>
+
+        <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800 space-y-3">
+          <h3 className="text-sm font-bold text-white flex items-center gap-2"><Sparkles size={16} className="text-primary-400" /> Regenerate this lesson</h3>
+          <p className="text-xs text-slate-500">The lesson is rewritten from the page the previous lesson ends with. Your progress on it starts over.</p>
+          {guidanceBox('Optional guidance, e.g. "Use a grid instead of flexbox" or "Explain the box model more slowly"')}
+          <div className="flex justify-end">
+            <button onClick={() => runAi(`Regenerated lesson "${lesson.title}"`, run => regenerateLesson(course, lesson.id, run))} disabled={!!busy || dirty} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-white text-sm font-bold transition-colors" title={dirty ? 'Save or revert your changes first' : undefined}>
+              <RefreshCw size={16} /> Regenerate lesson
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderModulePanel = () => {
+    if (!module) return null;
+    return (
+      <div className="space-y-6">
+        <ModuleFields key={module.id} title={module.title} description={module.description} disabled={!!busy}
+          onSave={(title, description) => commit(updateModule(course, module.id, { title, description }), `Renamed module "${module.title}"`)} />
+        <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800 space-y-3">
+          <h3 className="text-sm font-bold text-white flex items-center gap-2"><Sparkles size={16} className="text-primary-400" /> Regenerate this module</h3>
+          <p className="text-xs text-slate-500">All {module.lessons.length} lessons are rewritten with the same titles. Progress on them starts over.</p>
+          {guidanceBox('Optional guidance, e.g. "More practice with event listeners"')}
+          <div className="flex justify-end">
+            <button onClick={() => runAi(`Regenerated module "${module.title}"`, run => regenerateModule(course, moduleIndex, run))} disabled={!!busy} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-white text-sm font-bold transition-colors">
+              <RefreshCw size={16} /> Regenerate module
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderAddPanel = () => {
+    if (!module || selection.addAt === undefined) return null;
+    const after = module.lessons[selection.addAt - 1];
+    return (
+      <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800 space-y-3">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2"><Plus size={16} className="text-primary-400" /> New lesson in "{module.title}"</h3>
+        <p className="text-xs text-slate-500">{after ? `It continues from the page "${after.title}" ends with.` : 'It becomes the first lesson of this module.'}</p>
+        <input value={newLesson.title} onChange={e => setNewLesson({ ...newLesson, title: e.target.value })} placeholder="Title" disabled={!!busy} className={inputClass} />
+        <input value={newLesson.description} onChange={e => setNewLesson({ ...newLesson, description: e.target.value })} placeholder="What the learner builds in it" disabled={!!busy} className={inputClass} />
+        {guidanceBox('Optional guidance for the lesson content')}
+        <div className="flex justify-end">
+          <button onClick={handleAddLesson} disabled={!!busy || !newLesson.title.trim()} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-primary-600 hover:bg-primary-500 disabled:opacity-40 text-white text-sm font-bold transition-colors">
+            <Sparkles size={16} /> Generate lesson
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-screen bg-slate-950 text-white flex flex-col overflow-hidden font-sans">
+      <header className="bg-slate-900/80 backdrop-blur-xl border-b border-slate-800 px-6 py-4 flex items-center justify-between shrink-0">
+        <div className="flex items-center gap-4 min-w-0">
+          <button onClick={() => (!dirty || window.confirm('Discard your unsaved changes to this lesson?')) && onBack()} className="p-2 hover:bg-slate-800 rounded-xl text-slate-400 hover:text-white transition-colors">
+            <ChevronLeft size={24} />
+          </button>
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold truncate">Edit: {course.title}</h1>
+            <p className="text-xs text-slate-400">Changes are saved as you make them.</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={handleUndo} disabled={!revisions.length || !!busy} className="flex items-center gap-2 px-4 py-2 rounded-full bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 text-sm font-bold transition-colors" title={revisions[0] ? `Undo: ${revisions[0].label}` : 'Nothing to undo'}>
+            <Undo2 size={16} /> Undo
+          </button>
+          <button onClick={() => setShowHistory(!showHistory)} className={`flex items-center gap-2 px-4 py-2 rounded-full border text-sm font-bold transition-colors ${showHistory ? 'bg-primary-600 border-primary-500' : 'bg-slate-800 hover:bg-slate-700 border-slate-700'}`}>
+            <History size={16} /> History
+          </button>
+        </div>
+      </header>
+
+      <div className="flex flex-1 overflow-hidden">
+        <aside className="w-72 shrink-0 border-r border-slate-800 overflow-y-auto p-4 space-y-4">
+          {course.modules.map((m, i) => (
+            <div key={m.id}>
+              <div className={`group flex items-center gap-1 rounded-lg px-2 py-1.5 ${selection.moduleId === m.id && !selection.lessonId && selection.addAt === undefined ? 'bg-slate-800' : 'hover:bg-slate-900'}`}>
+                <button onClick={() => select({ moduleId: m.id })} className="flex-1 text-left min-w-0">
+                  <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Module {i + 1}</div>
+                  <div className="text-sm font-bold truncate">{m.title}</div>
+                </button>
+                <button onClick={() => handleMoveModule(i, -1)} disabled={i === 0 || !!busy} className="p-1 rounded text-slate-500 hover:text-white disabled:opacity-20" title="Move up"><ChevronUp size={14} /></button>
+                <button onClick={() => handleMoveModule(i, 1)} disabled={i === course.modules.length - 1 || !!busy} className="p-1 rounded text-slate-500 hover:text-white disabled:opacity-20" title="Move down"><ChevronDown size={14} /></button>
+              </div>
+              <div className="ml-2 mt-1 space-y-0.5 border-l border-slate-800 pl-2">
+                {m.lessons.map(l => (
+                  <button key={l.id} onClick={() => select({ moduleId: m.id, lessonId: l.id })} className={`w-full flex items-center gap-2 text-left text-xs px-2 py-1.5 rounded-lg truncate ${selection.lessonId === l.id ? 'bg-primary-500/20 text-primary-200' : 'text-slate-400 hover:text-white hover:bg-slate-900'}`}>
+                    <BookOpen size={12} className="shrink-0" /> <span className="truncate">{l.title}</span>
+                  </button>
+                ))}
+                <button onClick={() => select({ moduleId: m.id, addAt: m.lessons.length })} className={`w-full flex items-center gap-2 text-left text-xs px-2 py-1.5 rounded-lg ${selection.moduleId === m.id && selection.addAt !== undefined ? 'bg-primary-500/20 text-primary-200' : 'text-slate-500 hover:text-white hover:bg-slate-900'}`}>
+                  <Plus size={12} /> Add lesson
+                </button>
+              </div>
+            </div>
+          ))}
+        </aside>
+
+        <main className="flex-1 overflow-y-auto p-6">
+          <div className="max-w-3xl mx-auto space-y-4">
+            {busy && (
+              <div className="flex items-center justify-between gap-3 p-3 rounded-xl bg-primary-500/10 border border-primary-500/30 text-sm">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Loader2 size={16} className="animate-spin text-primary-400 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="font-bold truncate">{busy}</div>
+                    <div className="text-xs text-slate-400 truncate">{progress}</div>
+                  </div>
+                </div>
+                {abortRef.current && (
+                  <button onClick={() => abortRef.current?.abort()} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs font-bold shrink-0">
+                    <Square size={12} className="fill-current" /> Cancel
+                  </button>
+                )}
+              </div>
+            )}
+            {error && <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-sm">{error}</div>}
+
+            {showHistory ? (
+              <div className="space-y-2">
+                <h2 className="text-lg font-bold">Edit history</h2>
+                {revisions.length === 0 && <p className="text-sm text-slate-500">No edits yet.</p>}
+                {revisions.map(r => (
+                  <div key={r.id} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-slate-900 border border-slate-800">
+                    <div className="min-w-0">
+                      <div className="text-sm font-bold truncate">{r.label}</div>
+                      <div className="text-xs text-slate-500">{new Date(r.createdAt).toLocaleString()}</div>
+                    </div>
+                    <button onClick={() => handleRestore(r)} disabled={!!busy} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-xs font-bold shrink-0" title="Go back to the course as it was before this edit">
+                      <RotateCcw size={12} /> Restore
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : selection.addAt !== undefined ? renderAddPanel() : selection.lessonId && lesson ? renderLessonPanel() : renderModulePanel()}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+const ModuleFields: React.FC<{ title: string; description: string; disabled: boolean; onSave: (title: string, description: string) => void }> = ({ title, description, disabled, onSave }) => {
+  const [values, setValues] = useState({ title, description });
+  const changed = values.title !== title || values.description !== description;
+  return (
+    <div className="space-y-4">
+      <label className="block">
+        <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Module title</span>
+        <input value={values.title} onChange={e => setValues({ ...values, title: e.target.value })} disabled={disabled} className={inputClass} />
+      </label>
+      <label className="block">
+        <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Description</span>
+        <textarea value={values.description} onChange={e => setValues({ ...values, description: e.target.value })} rows={2} disabled={disabled} className={`${inputClass} resize-none`} />
+      </label>
+      <div className="flex justify-end">
+        <button onClick={() => onSave(values.title.trim(), values.description.trim())} disabled={disabled || !changed || !values.title.trim()} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-primary-600 hover:bg-primary-500 disabled:opacity-40 text-white text-sm font-bold transition-colors">
+          <Save size={16} /> Save module
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CourseEditor;
@@ -1,18 +1,57 @@
 
 
 import React, { useRef, useEffect, useState } from 'react';
-import { Course, Lesson } from '../types';
-import { Check, Lock, Star, ChevronLeft, Map, Play, Award, Zap, Target, ImageIcon, ArrowUp } from 'lucide-react';
+import { Certificate, Course, Lesson, Module } from '../types';
+import { Check, Lock, Star, ChevronLeft, Map, Play, Award, Flame, Target, ImageIcon, ArrowUp, Monitor, Loader2, PenLine, SkipForward, Zap } from 'lucide-react';
+import { getActivityFromStorage, getSavedCertificates, saveCertificateToStorage } from '../services/storage';
+import { ActivityStats, computeActivityStats } from '../services/activity';
+import { isCourseComplete, issueCertificate } from '../services/certificates';
+import { isLessonLocked } from '../services/projectState';
+import { canTestOut } from '../services/testOut';
+import CertificateModal from './CertificateModal';
 
 interface CourseMapProps {
   course: Course;
+  recipientName: string;
+  allowSkipping: boolean;
   onSelectLesson: (lesson: Lesson) => void;
+  onTestOut: (module: Module) => void;
+  onEdit: () => void;
   onBack: () => void;
 }
 
-const CourseMap: React.FC<CourseMapProps> = ({ course, onSelectLesson, onBack }) => {
+const CourseMap: React.FC<CourseMapProps> = ({ course, recipientName, allowSkipping, onSelectLesson, onTestOut, onEdit, onBack }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [svgHeight, setSvgHeight] = useState(1000);
+  const [showProject, setShowProject] = useState(false);
+  const [stats, setStats] = useState<ActivityStats | null>(null);
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [showCertificate, setShowCertificate] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const courseComplete = isCourseComplete(course);
+
+  // The streak spans every course, so this loads all activity
+  useEffect(() => {
+    getActivityFromStorage().then(events => setStats(computeActivityStats(events, [course])));
+  }, [course]);
+
+  useEffect(() => {
+    getSavedCertificates().then(saved => setCertificate(saved.find(c => c.courseId === course.id) || null));
+  }, [course.id]);
+
+  const handleClaimCertificate = async () => {
+    setIsClaiming(true);
+    try {
+      const issued = await issueCertificate(course, recipientName);
+      // Only show a certificate that was really stored; a failed save is reported by the storage banner
+      const saved = await saveCertificateToStorage(issued);
+      if (!saved.some(c => c.id === issued.id)) return;
+      setCertificate(issued);
+      setShowCertificate(true);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
 
   useEffect(() => {
     // Dynamically calculate the height needed for the map based on number of modules/lessons
@@ -21,14 +60,10 @@ const CourseMap: React.FC<CourseMapProps> = ({ course, onSelectLesson, onBack })
     setSvgHeight(Math.max(window.innerHeight, estimatedHeight));
   }, [course]);
 
-  // Find the next uncompleted lesson to jump to
+  // Find the next uncompleted lesson to jump to, passing over ones the learner skipped
   const getNextLesson = () => {
-    for (const mod of course.modules) {
-        for (const lesson of mod.lessons) {
-            if (!lesson.completed) return lesson;
-        }
-    }
-    return null;
+    const remaining = course.modules.flatMap(m => m.lessons).filter(l => !l.completed);
+    return remaining.find(l => l.outcome !== 'skipped') || remaining[0] || null;
   };
   
   const nextLesson = getNextLesson();
@@ -74,7 +109,6 @@ const CourseMap: React.FC<CourseMapProps> = ({ course, onSelectLesson, onBack })
     return `${acc} C ${cp1x}% ${cp1y}, ${cp2x}% ${cp2y}, ${point.x}% ${point.y}`;
   }, "");
 
-  let absoluteLessonIndex = 0;
 
   return (
     <div className="h-screen bg-slate-950 text-white flex flex-col overflow-hidden font-sans">
@@ -102,10 +136,22 @@ const CourseMap: React.FC<CourseMapProps> = ({ course, onSelectLesson, onBack })
           </div>
         </div>
         <div className="flex items-center gap-3">
-          <div className="hidden md:flex items-center gap-2 bg-slate-800/50 px-4 py-2 rounded-full border border-slate-700/50">
-            <Zap size={16} className="text-yellow-400 fill-yellow-400" />
-            <span className="font-bold text-sm text-yellow-100">Daily Streak: 1</span>
-          </div>
+          {stats && (
+            <>
+              <div className="hidden md:flex items-center gap-2 bg-slate-800/50 px-4 py-2 rounded-full border border-slate-700/50" title={`Longest streak: ${stats.longestStreak} days`}>
+                <Flame size={16} className={stats.activeToday ? 'text-orange-400 fill-orange-400' : 'text-slate-500'} />
+                <span className="font-bold text-sm text-orange-100">{stats.currentStreak} day streak</span>
+              </div>
+              <div className="hidden md:flex items-center gap-2 bg-slate-800/50 px-4 py-2 rounded-full border border-slate-700/50" title={`${stats.xpToday} XP earned today`}>
+                <Star size={16} className="text-yellow-400 fill-yellow-400" />
+                <span className="font-bold text-sm text-yellow-100">{stats.xpByCourse[course.id] || 0} XP</span>
+              </div>
+            </>
+          )}
+          <button onClick={onEdit} className="flex items-center gap-2 bg-slate-800/50 hover:bg-slate-700 px-4 py-2 rounded-full border border-slate-700/50 text-sm font-bold text-slate-300 hover:text-white transition-colors" title="Edit this course">
+            <PenLine size={16} />
+            <span className="hidden md:inline">Edit</span>
+          </button>
         </div>
       </header>
 
@@ -166,10 +212,22 @@ const CourseMap: React.FC<CourseMapProps> = ({ course, onSelectLesson, onBack })
                 <p className="text-slate-200 leading-relaxed text-sm md:text-base drop-shadow-md">
                     {course.finalOutcomeDescription || "A professional-grade application utilizing modern web standards."}
                 </p>
+                {course.projectCode && (
+                    <button onClick={() => setShowProject(!showProject)} className="mt-4 self-start flex items-center gap-2 text-xs font-bold bg-white/10 hover:bg-white/20 border border-white/10 px-3 py-1.5 rounded-full transition-colors">
+                        <Monitor size={14} /> {showProject ? 'Hide your project' : 'View your project so far'}
+                    </button>
+                )}
             </div>
+            {showProject && course.projectCode && (
+                <div className="relative z-10 mx-6 mb-6 h-72 bg-white rounded-xl overflow-hidden border border-slate-700 shadow-inner animate-in fade-in slide-in-from-top-2">
+                    <iframe title="Project Preview" srcDoc={course.projectCode} className="w-full h-full border-none" sandbox="allow-scripts" />
+                </div>
+            )}
           </div>
 
           {course.modules.map((module, mIndex) => {
+            // A module can be tested out once the learner has reached it, if its lessons have checks
+            const testOutOffered = canTestOut(module) && module.lessons.some(l => !l.completed) && !isLessonLocked(course, module.lessons[0].id, allowSkipping);
             return (
               <div key={module.id} className="relative mb-20">
                 
@@ -183,29 +241,33 @@ const CourseMap: React.FC<CourseMapProps> = ({ course, onSelectLesson, onBack })
                             <h2 className="text-lg font-bold text-white leading-tight">{module.title}</h2>
                             <p className="text-xs text-slate-400 mt-1 line-clamp-1">{module.description}</p>
                         </div>
+                        {testOutOffered && (
+                            <button onClick={() => onTestOut(module)} className="shrink-0 flex items-center gap-1 px-3 py-1.5 rounded-full bg-sky-500/10 hover:bg-sky-500/20 border border-sky-500/30 text-sky-300 text-xs font-bold transition-colors" title="Already know this? Pass one challenge to complete the whole module">
+                                <Zap size={12} /> Test out
+                            </button>
+                        )}
                     </div>
                 </div>
 
                 {/* Lessons Grid */}
                 <div className="flex flex-col gap-8 relative">
                   {module.lessons.map((lesson, lIndex) => {
-                    const myIndex = absoluteLessonIndex++;
                     const isCompleted = lesson.completed;
-                    
-                    // Logic: Unlock if it's the first lesson OR previous lesson is completed
-                    const isFirstLesson = myIndex === 0;
-                    const prevLessonCompleted = myIndex > 0 && course.modules.flatMap(m => m.lessons)[myIndex - 1].completed;
-                    // Allow access if completed or if it's the next available one
-                    const isLocked = !isFirstLesson && !prevLessonCompleted && !isCompleted;
-                    
-                    const isCurrent = !isLocked && !isCompleted;
+                    const isLocked = isLessonLocked(course, lesson.id, allowSkipping);
+                    const isCurrent = !isLocked && !isCompleted && lesson.id === nextLesson?.id;
 
                     let btnClass = "";
                     let icon = null;
 
-                    if (isCompleted) {
+                    if (isCompleted && lesson.outcome === 'testedOut') {
+                        btnClass = "bg-sky-500 border-b-4 border-sky-700 text-white shadow-[0_0_30px_-5px_rgba(14,165,233,0.5)]";
+                        icon = <Zap size={32} strokeWidth={3} />;
+                    } else if (isCompleted) {
                         btnClass = "bg-emerald-500 border-b-4 border-emerald-700 text-white shadow-[0_0_30px_-5px_rgba(16,185,129,0.5)]";
                         icon = <Check size={36} strokeWidth={4} />;
+                    } else if (lesson.outcome === 'skipped' && !isCurrent) {
+                        btnClass = "bg-slate-800 border-b-4 border-amber-700/60 text-amber-400 hover:scale-105";
+                        icon = <SkipForward size={28} />;
                     } else if (isLocked) {
                         btnClass = "bg-slate-800 border-b-4 border-slate-700 text-slate-500 grayscale opacity-80";
                         icon = <Lock size={24} />;
@@ -252,9 +314,9 @@ const CourseMap: React.FC<CourseMapProps> = ({ course, onSelectLesson, onBack })
                                 </>
                             )}
                             {/* Label for completed/resumable lessons */}
-                            {isCompleted && (
-                                <div className="absolute -bottom-8 left-1/2 -translate-x-1/2 text-[10px] font-bold text-emerald-500 uppercase tracking-widest opacity-0 group-hover:opacity-100 transition-opacity">
-                                    Review
+                            {(isCompleted || lesson.outcome === 'skipped') && !isCurrent && (
+                                <div className={`absolute -bottom-8 left-1/2 -translate-x-1/2 text-[10px] font-bold uppercase tracking-widest opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap ${!isCompleted ? 'text-amber-400' : lesson.outcome === 'testedOut' ? 'text-sky-400' : 'text-emerald-500'}`}>
+                                    {!isCompleted ? 'Skipped' : lesson.outcome === 'testedOut' ? 'Tested out' : 'Review'}
                                 </div>
                             )}
                             </button>
@@ -281,8 +343,20 @@ const CourseMap: React.FC<CourseMapProps> = ({ course, onSelectLesson, onBack })
                 </div>
                 <div>
                     <span className="font-bold text-2xl text-white block">Certificate of Completion</span>
-                    <span className="text-sm text-slate-400 mt-2 block">Finish all lessons to claim your reward.</span>
+                    <span className="text-sm text-slate-400 mt-2 block">
+                        {certificate ? `Earned on ${new Date(certificate.completedAt).toLocaleDateString()}.` : courseComplete ? 'You finished every lesson. Claim your certificate!' : 'Finish all lessons to claim your reward.'}
+                    </span>
                 </div>
+                {(certificate || courseComplete) && (
+                    <button
+                        onClick={certificate ? () => setShowCertificate(true) : handleClaimCertificate}
+                        disabled={isClaiming}
+                        className="mt-2 px-6 py-3 rounded-full bg-yellow-400 hover:bg-yellow-300 text-slate-900 font-bold flex items-center gap-2 shadow-lg shadow-yellow-900/30 transition-all hover:scale-105 disabled:opacity-60"
+                    >
+                        {isClaiming ? <Loader2 size={18} className="animate-spin" /> : <Award size={18} />}
+                        {certificate ? 'View Certificate' : 'Claim Certificate'}
+                    </button>
+                )}
             </div>
           </div>
         </div>
@@ -298,6 +372,10 @@ const CourseMap: React.FC<CourseMapProps> = ({ course, onSelectLesson, onBack })
               <span>Resume Journey</span>
           </button>
       )}
+
+      {showCertificate && certificate && (
+          <CertificateModal certificate={certificate} course={course} onClose={() => setShowCertificate(false)} />
+      )}
     </div>
   );
 };
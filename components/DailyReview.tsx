@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Repeat, CheckCircle, XCircle, Eye, X } from 'lucide-react';
+import { ReviewCard } from '../types';
+import { ReviewItem, ReviewRating, REVIEW_RATINGS, rateAnswer, scheduleReview } from '../services/review';
+import Markdown from './Markdown';
+
+interface DailyReviewProps {
+  queue: ReviewItem[]; // Today's cards, see getReviewQueue
+  onReviewed: (card: ReviewCard) => void;
+}
+
+const KIND_LABELS: Record<ReviewItem['kind'], string> = { concept: 'Concept', quiz: 'Quiz', kata: 'Kata' };
+
+const DailyReview: React.FC<DailyReviewProps> = ({ queue, onReviewed }) => {
+  const [session, setSession] = useState<ReviewItem[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [revealed, setRevealed] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  const item = session?.[index];
+  const autoRating = item && revealed && item.kind !== 'concept' ? rateAnswer(item, answer) : null;
+
+  const start = () => {
+    setSession(queue);
+    setIndex(0);
+    setAnswer('');
+    setRevealed(false);
+    setReviewed(0);
+  };
+
+  const handleRate = (rating: ReviewRating) => {
+    const card = scheduleReview(item, rating);
+    onReviewed(card);
+    setReviewed(n => n + 1);
+    // Missed cards come back at the end of the session until they stick
+    if (rating === 'again') setSession(prev => [...prev, { ...item, card }]);
+    setIndex(i => i + 1);
+    setAnswer('');
+    setRevealed(false);
+  };
+
+  if (!session) {
+    return (
+      <div className="w-full max-w-5xl mb-8 flex items-center gap-4 p-4 bg-slate-900/60 border border-slate-800 rounded-2xl text-left animate-in fade-in duration-300">
+        <div className="w-10 h-10 rounded-lg bg-slate-800 flex items-center justify-center text-violet-400 border border-slate-700 shrink-0"><Repeat size={20} /></div>
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-bold text-white">Daily review</div>
+          <div className="text-xs text-slate-400">{queue.length > 0 ? `${queue.length} card${queue.length === 1 ? '' : 's'} to review from lessons you finished` : 'All caught up. Finished lessons show up here to keep them fresh.'}</div>
+        </div>
+        {queue.length > 0 && <button onClick={start} className="px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-500 text-white text-xs font-bold transition-colors">Start review</button>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mb-8 p-5 bg-slate-900/60 border border-slate-800 rounded-2xl text-left animate-in fade-in duration-300">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider flex items-center gap-2"><Repeat size={14} /> Daily review</h3>
+        <div className="flex items-center gap-3">
+          {item && <span className="text-xs text-slate-500">{Math.min(index + 1, session.length)} / {session.length}</span>}
+          <button onClick={() => setSession(null)} className="text-slate-500 hover:text-white" title="Close"><X size={16} /></button>
+        </div>
+      </div>
+
+      {!item ? (
+        <div className="text-center py-6">
+          <CheckCircle size={32} className="text-emerald-400 mx-auto mb-2" />
+          <p className="text-white font-bold">Review done</p>
+          <p className="text-xs text-slate-400 mt-1">{reviewed} answer{reviewed === 1 ? '' : 's'} saved. Come back tomorrow for the next round.</p>
+          <button onClick={() => setSession(null)} className="mt-4 px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold transition-colors">Close</button>
+        </div>
+      ) : (
+        <div>
+          <div className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">{KIND_LABELS[item.kind]} · {item.courseTitle} · {item.lessonTitle}</div>
+
+          {item.kind === 'concept' && (
+            <>
+              <p className="text-slate-200 text-sm mb-3">What is the core idea of <span className="text-white font-semibold">{item.lessonTitle}</span>? Recall it, then check yourself.</p>
+              {revealed && <div className="bg-slate-950/60 border border-slate-800 rounded-lg p-3 mb-3"><Markdown text={item.concept} className="text-slate-300 text-sm" /></div>}
+            </>
+          )}
+
+          {item.kind === 'quiz' && (
+            <>
+              <p className="text-slate-200 text-sm mb-3">{item.question.prompt}</p>
+              {item.question.kind === 'choice' ? (
+                <div className="grid gap-1.5 mb-3">
+                  {(item.question.options || []).map(option => {
+                    const selected = answer === option;
+                    const tone = !revealed ? (selected ? 'border-primary-500 bg-primary-500/10 text-white' : 'border-slate-700 text-slate-300 hover:border-slate-500')
+                      : option === item.question.answers[0] ? 'border-emerald-500/60 bg-emerald-500/10 text-emerald-200'
+                      : selected ? 'border-red-500/60 bg-red-500/10 text-red-200' : 'border-slate-800 text-slate-500';
+                    return <button key={option} onClick={() => setAnswer(option)} disabled={revealed} className={`text-left px-3 py-1.5 rounded-lg border text-xs transition-colors ${tone}`}>{option}</button>;
+                  })}
+                </div>
+              ) : (
+                <input value={answer} onChange={e => setAnswer(e.target.value)} disabled={revealed} placeholder="Your answer" className="w-full mb-3 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 font-mono text-xs text-white focus:outline-none focus:border-primary-500" />
+              )}
+            </>
+          )}
+
+          {item.kind === 'kata' && (
+            <>
+              <p className="text-slate-200 text-sm mb-2">Write the line of code that does this: <span className="text-slate-300">{item.kata.explanation}</span></p>
+              {item.kata.context && <p className="text-xs text-slate-500 mb-2">It comes right after <code className="font-mono text-slate-400">{item.kata.context}</code></p>}
+              <textarea value={answer} onChange={e => setAnswer(e.target.value)} disabled={revealed} rows={2} spellCheck={false} className="w-full mb-3 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 font-mono text-xs text-white focus:outline-none focus:border-primary-500 resize-none" />
+            </>
+          )}
+
+          {autoRating && (
+            <div className={`mb-3 text-xs flex items-start gap-1.5 ${autoRating === 'good' ? 'text-emerald-300' : 'text-red-300'}`}>
+              {autoRating === 'good' ? <CheckCircle size={12} className="shrink-0 mt-0.5" /> : <XCircle size={12} className="shrink-0 mt-0.5" />}
+              <span>
+                {autoRating === 'good' ? 'Correct.' : item.kata ? 'Not quite. The lesson wrote:' : item.question.kind === 'blank' ? `Expected ${item.question.answers.join(' or ')}.` : 'Not quite.'}
+                {item.question?.explanation && <span className="text-slate-400"> {item.question.explanation}</span>}
+              </span>
+            </div>
+          )}
+          {revealed && item.kata && autoRating !== 'good' && <code className="block mb-3 font-mono text-sm text-emerald-300 bg-black/40 border border-slate-700/50 rounded-lg p-3 whitespace-pre-wrap break-all">{item.kata.code}</code>}
+
+          <div className="flex justify-end gap-2">
+            {!revealed ? (
+              item.kind === 'concept'
+                ? <button onClick={() => setRevealed(true)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-bold transition-colors"><Eye size={12} /> Show answer</button>
+                : <button onClick={() => setRevealed(true)} disabled={!answer.trim()} className="px-3 py-1.5 rounded-lg bg-primary-600 hover:bg-primary-500 text-white text-xs font-bold disabled:opacity-50 transition-colors">Check</button>
+            ) : autoRating ? (
+              <button onClick={() => handleRate(autoRating)} className="px-3 py-1.5 rounded-lg bg-primary-600 hover:bg-primary-500 text-white text-xs font-bold transition-colors">Next</button>
+            ) : (
+              REVIEW_RATINGS.map(({ rating, label }) => (
+                <button key={rating} onClick={() => handleRate(rating)} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${rating === 'again' ? 'bg-red-500/10 hover:bg-red-500/20 text-red-300' : 'bg-slate-800 hover:bg-slate-700 text-slate-200'}`}>{label}</button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DailyReview;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { X, Download, PackageOpen } from 'lucide-react';
+import { Course } from '../types';
+import { downloadCoursePackage } from '../services/coursePackage';
+
+interface ExportCourseModalProps {
+  course: Course;
+  onClose: () => void;
+}
+
+const ExportCourseModal: React.FC<ExportCourseModalProps> = ({ course, onClose }) => {
+  // Off by default: a course handed to a class should start fresh for everyone
+  const [includeProgress, setIncludeProgress] = useState(false);
+  const [includeImage, setIncludeImage] = useState(!!course.previewImage);
+
+  const handleDownload = () => {
+    downloadCoursePackage(course, { includeProgress, includeImage });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md shadow-2xl p-6 relative" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white"><X size={20} /></button>
+        <h2 className="text-xl font-bold text-white mb-1 flex items-center gap-2"><PackageOpen size={20} className="text-primary-400" /> Export course</h2>
+        <p className="text-sm text-slate-400 mb-5">Saves "{course.title}" as a file anyone can import into Zephyr.</p>
+
+        <div className="space-y-3 mb-6">
+          <label className="flex items-start gap-3 p-3 rounded-xl bg-slate-800/50 border border-slate-700/50 cursor-pointer">
+            <input type="checkbox" checked={includeProgress} onChange={e => setIncludeProgress(e.target.checked)} className="mt-1 accent-primary-500" />
+            <span>
+              <span className="block text-sm font-bold text-white">Include my progress</span>
+              <span className="block text-xs text-slate-500">Completed lessons and the code you wrote. Leave off when sharing with a class.</span>
+            </span>
+          </label>
+          <label className={`flex items-start gap-3 p-3 rounded-xl bg-slate-800/50 border border-slate-700/50 ${course.previewImage ? 'cursor-pointer' : 'opacity-50'}`}>
+            <input type="checkbox" checked={includeImage} disabled={!course.previewImage} onChange={e => setIncludeImage(e.target.checked)} className="mt-1 accent-primary-500" />
+            <span>
+              <span className="block text-sm font-bold text-white">Include the preview image</span>
+              <span className="block text-xs text-slate-500">{course.previewImage ? 'Makes the file larger.' : 'This course has no preview image.'}</span>
+            </span>
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-bold transition-colors">Cancel</button>
+          <button onClick={handleDownload} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-primary-600 hover:bg-primary-500 text-white text-sm font-bold transition-colors">
+            <Download size={16} /> Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportCourseModal;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { FileCode, FileType, Braces, Plus, X } from 'lucide-react';
+import { CodeFile } from '../types';
+import { DEFAULT_CSS, DEFAULT_JS, HTML_ENTRY, getLanguageForFile, isValidFileName } from '../services/projectFiles';
+
+interface FileTabsProps {
+  files: CodeFile[];
+  activeFile: string;
+  onSelect: (name: string) => void;
+  onAdd: (file: CodeFile) => void;
+  onRemove: (name: string) => void;
+  targetFile?: string; // Highlighted as the file the lesson is about
+}
+
+const CORE_FILES = [HTML_ENTRY, DEFAULT_CSS, DEFAULT_JS];
+
+const FileIcon: React.FC<{ language: CodeFile['language'] }> = ({ language }) => {
+  if (language === 'css') return <FileType size={13} className="text-sky-400" />;
+  if (language === 'javascript') return <Braces size={13} className="text-yellow-400" />;
+  return <FileCode size={13} className="text-orange-400" />;
+};
+
+const FileTabs: React.FC<FileTabsProps> = ({ files, activeFile, onSelect, onAdd, onRemove, targetFile }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState('');
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    const language = getLanguageForFile(name);
+    if (!isValidFileName(name) || !language) { setError('Use a .html, .css or .js name'); return; }
+    if (files.some(f => f.name === name)) { setError('That file already exists'); return; }
+    onAdd({ name, language, content: '' });
+    setNewName('');
+    setError('');
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="flex items-center bg-slate-900/80 border-b border-slate-800 overflow-x-auto custom-scrollbar shrink-0">
+      {files.map(file => (
+        <div
+          key={file.name}
+          onClick={() => onSelect(file.name)}
+          className={`group/tab flex items-center gap-1.5 pl-3 pr-2 py-2 text-xs font-mono cursor-pointer border-r border-slate-800 whitespace-nowrap transition-colors ${file.name === activeFile ? 'bg-[#1e1e2e] text-slate-100' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800/50'}`}
+        >
+          <FileIcon language={file.language} />
+          <span>{file.name}</span>
+          {file.name === targetFile && <span className="w-1.5 h-1.5 rounded-full bg-yellow-400" title="This lesson focuses on this file" />}
+          {!CORE_FILES.includes(file.name) ? (
+            <button onClick={(e) => { e.stopPropagation(); onRemove(file.name); }} className="p-0.5 rounded text-slate-600 hover:text-white hover:bg-slate-700 opacity-0 group-hover/tab:opacity-100 transition-opacity" title="Remove file"><X size={11} /></button>
+          ) : <span className="w-4" />}
+        </div>
+      ))}
+      {isAdding ? (
+        <div className="flex items-center gap-1 px-2">
+          <input
+            value={newName}
+            onChange={(e) => { setNewName(e.target.value); setError(''); }}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); if (e.key === 'Escape') setIsAdding(false); }}
+            placeholder="utils.js"
+            className={`w-28 bg-slate-950 border rounded px-2 py-1 text-xs font-mono text-white focus:outline-none ${error ? 'border-red-500' : 'border-slate-700 focus:border-primary-500'}`}
+            title={error}
+            autoFocus
+          />
+          <button onClick={() => setIsAdding(false)} className="text-slate-500 hover:text-white"><X size={12} /></button>
+        </div>
+      ) : (
+        <button onClick={() => setIsAdding(true)} className="px-3 py-2 text-slate-500 hover:text-white transition-colors" title="New file"><Plus size={14} /></button>
+      )}
+    </div>
+  );
+};
+
+export default FileTabs;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { Terminal, CheckCircle2, Loader2, XCircle, Circle, Square, RotateCcw, Trash2, ChevronLeft } from 'lucide-react';
+import { GenerationStage, GenerationStatus } from '../services/courseGeneration';
+
+interface GenerationProgressProps {
+  status: GenerationStatus;
+  onCancel: () => void;
+  onRetry: () => void;
+  onDiscard: () => void;
+  onBack: () => void;
+}
+
+type StageState = 'done' | 'running' | 'failed' | 'pending';
+
+const StageIcon: React.FC<{ state: StageState }> = ({ state }) => {
+  if (state === 'done') return <CheckCircle2 size={16} className="text-green-500 shrink-0" />;
+  if (state === 'running') return <Loader2 size={16} className="text-primary-400 animate-spin shrink-0" />;
+  if (state === 'failed') return <XCircle size={16} className="text-red-400 shrink-0" />;
+  return <Circle size={16} className="text-slate-700 shrink-0" />;
+};
+
+const formatChars = (chars: number) => chars < 1000 ? `${chars} chars` : `${(chars / 1000).toFixed(1)}k chars`;
+
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ status, onCancel, onRetry, onDiscard, onBack }) => {
+  const { draft, running, stage, receivedChars, checking, error, cancelled } = status;
+  const outline = draft.outline;
+
+  const stateOf = (s: GenerationStage): StageState => {
+    const done = s === 'outline' ? !!outline : !!draft.modules[s];
+    if (done) return 'done';
+    if (stage === s) return running ? 'running' : error && !cancelled ? 'failed' : 'pending';
+    return 'pending';
+  };
+
+  const totalStages = 1 + (outline?.modules.length || 0);
+  const doneStages = (outline ? 1 : 0) + draft.modules.filter(Boolean).length;
+  const percent = outline ? Math.round((doneStages / totalStages) * 100) : 0;
+
+  const rows: { stage: GenerationStage; label: string; detail?: string }[] = [
+    { stage: 'outline', label: outline ? `Outline: ${outline.title}` : 'Drafting the course outline', detail: outline ? `${outline.modules.length} modules, ${outline.modules.reduce((n, m) => n + m.lessons.length, 0)} lessons` : undefined },
+    ...(outline?.modules || []).map((m, i) => ({ stage: i as GenerationStage, label: `Module ${i + 1}: ${m.title}`, detail: `${m.lessons.length} lessons` })),
+  ];
+
+  return (
+    <div className="h-full bg-slate-950 text-white flex flex-col items-center justify-center p-4 font-sans">
+      <div className="w-full max-w-lg">
+        <div className="bg-black border border-slate-800 p-6 rounded-xl font-mono text-left shadow-2xl relative overflow-hidden">
+          {running && <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-primary-500 to-transparent animate-scan" />}
+          <div className="flex items-center justify-between gap-2 mb-4 border-b border-slate-800 pb-2">
+            <div className="flex items-center gap-2">
+              <Terminal size={16} className="text-primary-400" />
+              <span className="text-xs text-slate-400">zephyr_core.exe</span>
+            </div>
+            <span className="text-xs text-slate-500">{percent}%</span>
+          </div>
+
+          <div className="h-1 bg-slate-800 rounded-full mb-4 overflow-hidden">
+            <div className="h-full bg-primary-500 transition-all duration-500" style={{ width: `${percent}%` }} />
+          </div>
+
+          <div className="space-y-2 text-sm">
+            {rows.map(row => {
+              const state = stateOf(row.stage);
+              return (
+                <div key={String(row.stage)} className="flex items-start gap-2 animate-in fade-in slide-in-from-left-2 duration-300">
+                  <span className="mt-0.5"><StageIcon state={state} /></span>
+                  <div className="min-w-0">
+                    <div className={state === 'pending' ? 'text-slate-600' : state === 'failed' ? 'text-red-300' : 'text-slate-300'}>{row.label}</div>
+                    {state === 'running' && (
+                      <div className={`text-[10px] ${checking?.repairing ? 'text-amber-400' : 'text-slate-500'}`}>
+                        {checking ? `${checking.repairing ? 'Repairing' : 'Checking'} "${checking.lessonTitle}"…` : receivedChars > 0 ? `Receiving… ${formatChars(receivedChars)}` : 'Waiting for the model…'}
+                      </div>
+                    )}
+                    {state === 'done' && row.detail && <div className="text-[10px] text-slate-600">{row.detail}</div>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {!running && error && (
+            <div className={`mt-4 p-3 rounded-lg text-xs font-sans border ${cancelled ? 'bg-slate-900 border-slate-700 text-slate-400' : 'bg-red-500/10 border-red-500/30 text-red-300'}`}>
+              {cancelled ? 'Cancelled. Everything generated so far is saved.' : error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-2 mt-6">
+          {running ? (
+            <button onClick={onCancel} className="flex items-center gap-2 px-5 py-2 rounded-full bg-slate-800 hover:bg-slate-700 border border-slate-700 text-sm font-bold transition-colors">
+              <Square size={14} className="fill-current" /> Cancel
+            </button>
+          ) : (
+            <>
+              <button onClick={onBack} className="flex items-center gap-2 px-5 py-2 rounded-full bg-slate-800 hover:bg-slate-700 border border-slate-700 text-sm font-bold transition-colors">
+                <ChevronLeft size={16} /> Back
+              </button>
+              <button onClick={onDiscard} className="flex items-center gap-2 px-5 py-2 rounded-full bg-slate-800 hover:bg-red-500/20 hover:text-red-300 border border-slate-700 text-sm font-bold transition-colors">
+                <Trash2 size={14} /> Discard
+              </button>
+              <button onClick={onRetry} className="flex items-center gap-2 px-5 py-2 rounded-full bg-primary-600 hover:bg-primary-500 text-sm font-bold transition-colors">
+                <RotateCcw size={14} /> {cancelled ? 'Resume' : typeof stage === 'number' ? `Retry module ${stage + 1}` : 'Retry'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationProgress;
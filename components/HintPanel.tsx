@@ -0,0 +1,48 @@
+import React from 'react';
+import { HelpCircle, MapPin, Lock, ChevronRight } from 'lucide-react';
+import { Hint, HintLevel, HINT_LEVELS } from '../services/hints';
+
+interface HintPanelProps {
+  level: HintLevel | 0; // Strongest hint shown so far
+  hint: Hint | null;
+  allowSolution: boolean;
+  onHint: (level: HintLevel) => void;
+  onLocate: (file: string, line: number) => void;
+}
+
+const HintPanel: React.FC<HintPanelProps> = ({ level, hint, allowSolution, onHint, onLocate }) => {
+  const next = HINT_LEVELS.find(h => h.level === level + 1);
+  const nextLocked = next?.level === 4 && !allowSolution;
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider flex items-center gap-2"><HelpCircle size={14} /> Hints</h3>
+        <div className="flex gap-1" title="Each hint gives away more, and costs more XP">
+          {HINT_LEVELS.map(h => <span key={h.level} className={`w-4 h-1 rounded-full ${h.level <= level ? 'bg-amber-400' : 'bg-slate-700'}`} />)}
+        </div>
+      </div>
+
+      {hint && (
+        <div className="mb-3 text-sm text-slate-300 space-y-2 animate-in fade-in">
+          <p><span className="text-amber-300 font-semibold">{HINT_LEVELS[hint.level - 1].label}: </span>{hint.text}</p>
+          {hint.code && <code className="block font-mono text-sm text-emerald-300 bg-black/40 border border-slate-700/50 rounded-lg p-3 whitespace-pre-wrap break-all">{hint.code}</code>}
+          {hint.file && hint.line && (
+            <button onClick={() => onLocate(hint.file, hint.line)} className="flex items-center gap-1 text-xs text-amber-300 hover:text-amber-200"><MapPin size={12} /> Show me</button>
+          )}
+        </div>
+      )}
+      {!hint && level > 0 && level < 4 && <p className="mb-3 text-sm text-slate-400">Every line of the solution is already in your code. Look for small differences, then submit.</p>}
+
+      {next ? (
+        <button onClick={() => onHint(next.level)} disabled={nextLocked} className="w-full flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-bold disabled:opacity-50 disabled:hover:bg-slate-800 transition-colors">
+          {nextLocked ? <><Lock size={12} /> Turn on Allow Skip Ahead to see the solution</> : <>{level === 0 ? 'Get a hint' : `Show ${next.label.toLowerCase()}`} <ChevronRight size={12} /></>}
+        </button>
+      ) : (
+        <button onClick={() => onHint(4)} className="w-full px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-bold transition-colors">Compare with the solution again</button>
+      )}
+    </div>
+  );
+};
+
+export default HintPanel;
@@ -1,28 +1,49 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Sparkles, ArrowRight, Code, Zap, Layers, Trash2, Settings as SettingsIcon, X, Terminal, Award, BookOpen, Clock, CheckCircle2, GraduationCap, AlignLeft, Palette, Pencil, RefreshCw, ChevronRight, FileCode, Cpu, LogOut } from 'lucide-react';
-import { Course, AppSettings, Badge, Theme, DetailLevel } from '../types';
-import { getSavedCourses, deleteCourseFromStorage, getSavedBadges } from '../services/storage';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Sparkles, ArrowRight, Code, Zap, Layers, Trash2, Settings as SettingsIcon, X, Terminal, Award, BookOpen, Clock, CheckCircle2, GraduationCap, AlignLeft, Palette, Pencil, RefreshCw, ChevronRight, FileCode, Cpu, LogOut, KeyRound, UserRound, Download, Upload } from 'lucide-react';
+import { Course, AppSettings, Badge, Theme, DetailLevel, Difficulty, ActivityEvent, Certificate, GenerationDraft, ReviewCard } from '../types';
+import { getSavedCourses, deleteCourseFromStorage, getSavedBadges, getSavedCertificates, getActivityFromStorage, subscribeStorageChanges, getGenerationDrafts, deleteGenerationDraft, saveCourseToStorage, getReviewCardsFromStorage, saveReviewCardToStorage } from '../services/storage';
+import { importCoursePackage, parseCoursePackage } from '../services/coursePackage';
+import { importCourseMarkdown } from '../services/courseMarkdown';
+import sampleCourseMarkdown from '../fixtures/courses/first-page.md?raw';
+import { computeActivityStats } from '../services/activity';
+import { buildReviewItems, getReviewQueue } from '../services/review';
+import StatsPanel from './StatsPanel';
+import DailyReview from './DailyReview';
+import CertificateModal from './CertificateModal';
+import ExportCourseModal from './ExportCourseModal';
+import SyncIndicator from './SyncIndicator';
 import { generateProjectPreview, refineProjectPreview } from '../services/geminiService';
 
 interface LandingProps {
   onGenerate: (prompt: string, difficulty: number, length: number, visualContext?: { description: string, image: string }) => void;
   onResume: (course: Course) => void;
   onEnterPlayground: () => void;
-  isGenerating: boolean; 
+  onResumeDraft: (draft: GenerationDraft) => void;
   settings: AppSettings;
   onUpdateSettings: (settings: AppSettings) => void;
   onLogout: () => void;
+  onOpenSetup: () => void;
+  onEditProfile: () => void;
+  skillLevel?: Difficulty;
 }
 
-type Phase = 'INPUT' | 'DREAMING' | 'DESIGN' | 'BUILDING';
+// Where the difficulty slider starts for each onboarding answer (see getDifficultyLabel)
+const SKILL_DIFFICULTY: Record<Difficulty, number> = {
+  novice: 10,
+  beginner: 30,
+  intermediate: 50,
+  advanced: 75,
+};
+
+type Phase = 'INPUT' | 'DREAMING' | 'DESIGN';
 
-const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlayground, isGenerating, settings, onUpdateSettings, onLogout }) => {
+const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlayground, onResumeDraft, settings, onUpdateSettings, onLogout, onOpenSetup, onEditProfile, skillLevel }) => {
   const [activeTab, setActiveTab] = useState<'new' | 'saved' | 'badges'>('new');
   const [phase, setPhase] = useState<Phase>('INPUT');
   
   // Input State
   const [prompt, setPrompt] = useState('');
-  const [difficultyValue, setDifficultyValue] = useState(20); 
+  const [difficultyValue, setDifficultyValue] = useState(skillLevel ? SKILL_DIFFICULTY[skillLevel] : 20);
   const [lengthValue, setLengthValue] = useState(50); 
   
   // Design State
@@ -38,13 +59,41 @@ const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlaygrou
   
   const [savedCourses, setSavedCourses] = useState<Course[]>([]);
   const [savedBadges, setSavedBadges] = useState<Badge[]>([]);
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [drafts, setDrafts] = useState<GenerationDraft[]>([]);
+  const [openCertificate, setOpenCertificate] = useState<Certificate | null>(null);
+  const [exportingCourse, setExportingCourse] = useState<Course | null>(null);
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [activity, setActivity] = useState<ActivityEvent[]>([]);
+  const stats = useMemo(() => computeActivityStats(activity, savedCourses), [activity, savedCourses]);
+  const [reviewCards, setReviewCards] = useState<ReviewCard[]>([]);
+  const reviewQueue = useMemo(() => getReviewQueue(buildReviewItems(savedCourses, reviewCards)), [savedCourses, reviewCards]);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   useEffect(() => {
-    setSavedCourses(getSavedCourses());
-    setSavedBadges(getSavedBadges());
+    getSavedCourses().then(setSavedCourses);
+    getSavedBadges().then(setSavedBadges);
+    getSavedCertificates().then(setCertificates);
+    getGenerationDrafts().then(setDrafts);
+    getActivityFromStorage().then(setActivity);
+    getReviewCardsFromStorage().then(setReviewCards);
   }, [activeTab]);
 
+  useEffect(() => {
+    if (skillLevel) setDifficultyValue(SKILL_DIFFICULTY[skillLevel]);
+  }, [skillLevel]);
+
+  // Pick up courses and badges pulled in from other devices
+  useEffect(() => subscribeStorageChanges(source => {
+    if (source !== 'sync') return;
+    getSavedCourses().then(setSavedCourses);
+    getSavedBadges().then(setSavedBadges);
+    getSavedCertificates().then(setCertificates);
+    getActivityFromStorage().then(setActivity);
+    getReviewCardsFromStorage().then(setReviewCards);
+  }), []);
+
   // Terminal Log Loading Animation
   useEffect(() => {
     let interval: ReturnType<typeof setInterval>;
@@ -64,28 +113,9 @@ const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlaygrou
                 i++;
             }
         }, 800);
-    } else if (isGenerating || phase === 'BUILDING') {
-        setPhase('BUILDING');
-        const logs = [
-            "Locking visual design spec...",
-            "Drafting curriculum modules...",
-            "Synthesizing lesson plans...",
-            "Generating boilerplate code...",
-            "Injecting solution logic...",
-            "Polishing learner steps...",
-            "Finalizing course bundle..."
-        ];
-        let i = 0;
-        setLoadingLog([]);
-        interval = setInterval(() => {
-            if (i < logs.length) {
-                setLoadingLog(prev => [...prev, logs[i]]);
-                i++;
-            }
-        }, 800);
-    } 
+    }
     return () => clearInterval(interval);
-  }, [phase, isGenerating]);
+  }, [phase]);
 
   // Canvas Drawing Logic
   const startDrawing = (e: React.MouseEvent) => {
@@ -164,15 +194,54 @@ const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlaygrou
   };
 
   const handleStartCourse = () => {
-      setPhase('BUILDING');
       onGenerate(prompt, difficultyValue, lengthValue, { description: visualDescription, image: previewImage });
   }
 
-  const handleDelete = (e: React.MouseEvent, id: string) => {
+  const handleDiscardDraft = async (id: string) => {
+      await deleteGenerationDraft(id);
+      setDrafts(await getGenerationDrafts());
+  }
+
+  // A course package (.json), or one or more Markdown files read as a single course
+  const readImport = async (files: File[]): Promise<Course> => {
+      const markdown = files.filter(f => /\.(md|markdown)$/i.test(f.name));
+      if (markdown.length) return importCourseMarkdown(await Promise.all(markdown.map(async f => ({ name: f.name, content: await f.text() }))));
+      return importCoursePackage(parseCoursePackage(await files[0].text()));
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files || []);
+      e.target.value = ''; // Let the same file be picked again
+      if (!files.length) return;
+      await addImportedCourse(() => readImport(files));
+  }
+
+  const addImportedCourse = async (read: () => Promise<Course>) => {
+      try {
+          const course = await read();
+          await saveCourseToStorage(course);
+          setSavedCourses(await getSavedCourses());
+          setImportMessage({ text: `Imported "${course.title}".`, isError: false });
+      } catch (error) {
+          setImportMessage({ text: error instanceof Error ? error.message : String(error), isError: true });
+      }
+  }
+
+  const handleExport = (e: React.MouseEvent, course: Course) => {
+      e.stopPropagation();
+      setExportingCourse(course);
+  }
+
+  const handleDelete = async (e: React.MouseEvent, id: string) => {
       e.stopPropagation();
-      setSavedCourses(deleteCourseFromStorage(id));
+      setSavedCourses(await deleteCourseFromStorage(id));
   }
 
+  const handleReviewed = (card: ReviewCard) => {
+      setReviewCards(prev => [...prev.filter(c => c.id !== card.id), card]);
+      saveReviewCardToStorage(card);
+  };
+
   const getDifficultyLabel = (val: number) => {
      if (val < 20) return { label: 'Novice', desc: 'Hand-holding, copy & paste' };
      if (val < 40) return { label: 'Beginner', desc: 'Guided tasks, simple concepts' };
@@ -200,9 +269,12 @@ const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlaygrou
           </div>
           <span className="font-mono bg-clip-text text-transparent bg-gradient-to-r from-white to-slate-400">ZEPHYRUS_AI</span>
         </div>
-        <button onClick={() => setIsSettingsOpen(true)} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors">
-          <SettingsIcon size={20} />
-        </button>
+        <div className="flex items-center gap-2">
+          <SyncIndicator />
+          <button onClick={() => setIsSettingsOpen(true)} className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors">
+            <SettingsIcon size={20} />
+          </button>
+        </div>
       </header>
 
       {/* Main Content */}
@@ -297,7 +369,7 @@ const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlaygrou
                   </>
               )}
 
-              {(phase === 'DREAMING' || phase === 'BUILDING') && (
+              {phase === 'DREAMING' && (
                   <div className="w-full max-w-lg bg-black border border-slate-800 p-6 rounded-xl font-mono text-left shadow-2xl relative overflow-hidden">
                       <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-primary-500 to-transparent animate-scan" />
                       <div className="flex items-center gap-2 mb-4 border-b border-slate-800 pb-2">
@@ -379,6 +451,44 @@ const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlaygrou
             </div>
           )}
 
+          {activeTab === 'saved' && <StatsPanel stats={stats} />}
+          {activeTab === 'saved' && savedCourses.length > 0 && <DailyReview queue={reviewQueue} onReviewed={handleReviewed} />}
+          {activeTab === 'saved' && drafts.length > 0 && (
+             <div className="w-full max-w-5xl mb-6 space-y-2 animate-in fade-in duration-300">
+               {drafts.map(draft => {
+                 const done = draft.modules.filter(Boolean).length;
+                 return (
+                   <div key={draft.id} className="flex items-center gap-4 p-4 bg-slate-900/40 border border-dashed border-slate-700 rounded-xl text-left">
+                     <div className="w-10 h-10 rounded-lg bg-slate-800 flex items-center justify-center text-amber-400 border border-slate-700 shrink-0"><Clock size={20} /></div>
+                     <div className="flex-1 min-w-0">
+                       <h3 className="font-bold text-sm text-white truncate">{draft.outline?.title || draft.request.prompt}</h3>
+                       <p className="text-xs text-slate-500 truncate">
+                         Unfinished · {draft.outline ? `${done} of ${draft.outline.modules.length} modules generated` : 'outline not generated yet'}{draft.error ? ` · ${draft.error}` : ''}
+                       </p>
+                     </div>
+                     <button onClick={() => handleDiscardDraft(draft.id)} className="p-2 hover:bg-red-500/10 hover:text-red-400 text-slate-600 rounded-lg transition-colors" title="Discard"><Trash2 size={16} /></button>
+                     <button onClick={() => onResumeDraft(draft)} className="px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-500 text-white text-xs font-bold flex items-center gap-1 transition-colors">
+                       <RefreshCw size={14} /> Continue
+                     </button>
+                   </div>
+                 );
+               })}
+             </div>
+          )}
+          {activeTab === 'saved' && (
+             <div className="w-full max-w-5xl mb-4 flex items-center justify-end gap-3">
+               {importMessage && (
+                 <span className={`text-xs ${importMessage.isError ? 'text-red-400' : 'text-green-400'}`}>{importMessage.text}</span>
+               )}
+               <input ref={importInputRef} type="file" multiple accept=".json,application/json,.md,.markdown,text/markdown" onChange={handleImport} className="hidden" />
+               <button onClick={() => addImportedCourse(async () => importCourseMarkdown(sampleCourseMarkdown))} className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 text-xs font-bold flex items-center gap-2 transition-colors" title="A short hand-written course that needs no AI">
+                 <BookOpen size={14} /> Sample course
+               </button>
+               <button onClick={() => importInputRef.current?.click()} className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 text-xs font-bold flex items-center gap-2 transition-colors">
+                 <Upload size={14} /> Import course
+               </button>
+             </div>
+          )}
           {activeTab === 'saved' && (
              <div className="w-full max-w-5xl grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 animate-in fade-in duration-300">
                {savedCourses.length === 0 ? (
@@ -394,14 +504,17 @@ const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlaygrou
                      <div className="p-6 flex-1 flex flex-col">
                         <div className="flex justify-between items-start mb-4">
                              <div className="w-10 h-10 rounded-lg bg-slate-800 flex items-center justify-center text-primary-400 border border-slate-700"><FileCode size={20} /></div>
-                             <button onClick={(e) => handleDelete(e, course.id)} className="p-2 hover:bg-red-500/10 hover:text-red-400 text-slate-600 rounded-lg transition-colors"><Trash2 size={16} /></button>
+                             <div className="flex">
+                                 <button onClick={(e) => handleExport(e, course)} className="p-2 hover:bg-slate-800 hover:text-white text-slate-600 rounded-lg transition-colors" title="Export"><Download size={16} /></button>
+                                 <button onClick={(e) => handleDelete(e, course.id)} className="p-2 hover:bg-red-500/10 hover:text-red-400 text-slate-600 rounded-lg transition-colors" title="Delete"><Trash2 size={16} /></button>
+                             </div>
                         </div>
                         <h3 className="font-bold text-lg text-white mb-2 line-clamp-2 leading-tight group-hover:text-primary-300 transition-colors">{course.title}</h3>
                         <p className="text-xs text-slate-500 line-clamp-2 mb-4">{course.description}</p>
                         
                         <div className="mt-auto">
                             <div className="flex justify-between text-xs text-slate-400 mb-1">
-                                <span>Progress</span>
+                                <span>Progress{stats.xpByCourse[course.id] ? <span className="ml-2 text-yellow-500/80">{stats.xpByCourse[course.id]} XP</span> : null}</span>
                                 <span>{Math.round((course.modules.reduce((acc, m) => acc + m.lessons.filter(l => l.completed).length, 0) / Math.max(1, course.modules.reduce((acc, m) => acc + m.lessons.length, 0))) * 100)}%</span>
                             </div>
                             <div className="h-1.5 w-full bg-slate-800 rounded-full overflow-hidden">
@@ -417,6 +530,22 @@ const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlaygrou
           
           {activeTab === 'badges' && (
               <div className="w-full max-w-4xl animate-in fade-in duration-300">
+                   {certificates.length > 0 && (
+                     <div className="mb-8">
+                       <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Certificates</h3>
+                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                         {certificates.map(cert => (
+                           <button key={cert.id} onClick={() => setOpenCertificate(cert)} className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex items-center gap-4 text-left hover:border-yellow-500/50 transition-colors">
+                             <div className="w-12 h-12 bg-yellow-400/10 rounded-full flex items-center justify-center shrink-0"><Award size={24} className="text-yellow-400" /></div>
+                             <div className="min-w-0">
+                               <div className="font-bold text-slate-200 text-sm truncate">{cert.courseTitle}</div>
+                               <div className="text-[10px] text-slate-500 mt-1">{cert.lessonCount} lessons · {new Date(cert.completedAt).toLocaleDateString()}</div>
+                             </div>
+                           </button>
+                         ))}
+                       </div>
+                     </div>
+                   )}
                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                       {savedBadges.length === 0 ? (
                         <div className="col-span-full flex flex-col items-center justify-center text-slate-500 py-20">
@@ -439,6 +568,11 @@ const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlaygrou
         </div>
       </main>
       
+      {exportingCourse && <ExportCourseModal course={exportingCourse} onClose={() => setExportingCourse(null)} />}
+      {openCertificate && (
+        <CertificateModal certificate={openCertificate} course={savedCourses.find(c => c.id === openCertificate.courseId)} onClose={() => setOpenCertificate(null)} />
+      )}
+
       {isSettingsOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
           <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md shadow-2xl p-6 relative max-h-[90vh] overflow-y-auto">
@@ -469,6 +603,16 @@ const Landing: React.FC<LandingProps> = ({ onGenerate, onResume, onEnterPlaygrou
                 <button onClick={() => onUpdateSettings({ ...settings, allowSkipping: !settings.allowSkipping })} className={`relative w-12 h-6 rounded-full transition-colors ${settings.allowSkipping ? 'bg-primary-500' : 'bg-slate-700'}`}><div className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${settings.allowSkipping ? 'translate-x-6' : 'translate-x-0'}`} /></button>
               </div>
 
+              <button onClick={onEditProfile} className="w-full flex items-center justify-between p-4 mb-3 bg-slate-800/50 rounded-xl border border-slate-700/50 hover:border-slate-500 transition-colors">
+                <div className="flex items-center gap-3"><UserRound size={20} className="text-emerald-400" /><div className="text-left"><h3 className="font-bold text-slate-200 text-sm">Name & Experience Level</h3>{skillLevel && <p className="text-xs text-slate-500 capitalize">{skillLevel}</p>}</div></div>
+                <ChevronRight size={18} className="text-slate-500" />
+              </button>
+
+              <button onClick={onOpenSetup} className="w-full flex items-center justify-between p-4 bg-slate-800/50 rounded-xl border border-slate-700/50 hover:border-slate-500 transition-colors">
+                <div className="flex items-center gap-3"><KeyRound size={20} className="text-cyan-400" /><div className="text-left"><h3 className="font-bold text-slate-200 text-sm">API Keys & Connection</h3></div></div>
+                <ChevronRight size={18} className="text-slate-500" />
+              </button>
+
               {/* Logout Button */}
               <button onClick={onLogout} className="w-full mt-6 p-4 bg-red-500/10 border border-red-500/20 text-red-500 hover:bg-red-500 hover:text-white rounded-xl font-bold flex items-center justify-center gap-2 transition-all">
                   <LogOut size={18} /> Log Out
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Brain, CheckCircle, XCircle, RotateCcw } from 'lucide-react';
+import { QuizQuestion, QuizResult } from '../types';
+import { gradeQuiz, isAnswerCorrect } from '../services/quiz';
+
+interface LessonQuizProps {
+  questions: QuizQuestion[];
+  result?: QuizResult; // Latest saved attempt
+  onSubmit: (result: QuizResult) => void;
+}
+
+const LessonQuiz: React.FC<LessonQuizProps> = ({ questions, result, onSubmit }) => {
+  const [answers, setAnswers] = useState<Record<string, string>>(result?.answers || {});
+  const [graded, setGraded] = useState<QuizResult | null>(result || null);
+  const answered = questions.every(q => answers[q.id]?.trim());
+  const setAnswer = (id: string, value: string) => setAnswers(prev => ({ ...prev, [id]: value }));
+
+  const handleSubmit = () => {
+    const next = gradeQuiz(questions, answers);
+    setGraded(next);
+    onSubmit(next);
+  };
+
+  const handleRetry = () => {
+    setAnswers({});
+    setGraded(null);
+  };
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider flex items-center gap-2"><Brain size={14} /> Check your understanding</h3>
+        {graded && <span className={`text-xs font-bold ${graded.correct === graded.total ? 'text-emerald-400' : 'text-amber-300'}`}>{graded.correct}/{graded.total}</span>}
+      </div>
+      <ol className="space-y-4">
+        {questions.map((q, i) => {
+          const answer = answers[q.id] || '';
+          const correct = graded ? isAnswerCorrect(q, graded.answers[q.id]) : null;
+          const [before, after] = q.kind === 'blank' ? q.prompt.split('___', 2) : [q.prompt, ''];
+          return (
+            <li key={q.id} className="text-sm">
+              <div className="flex gap-2 text-slate-200">
+                <span className="text-slate-500 shrink-0">{i + 1}.</span>
+                {q.kind === 'blank' ? (
+                  <p className="leading-7">
+                    {before}
+                    <input
+                      value={answer}
+                      onChange={e => setAnswer(q.id, e.target.value)}
+                      disabled={!!graded}
+                      className={`mx-1 w-28 bg-slate-950 border rounded px-2 py-0.5 font-mono text-xs text-white focus:outline-none focus:border-primary-500 ${correct === null ? 'border-slate-700' : correct ? 'border-emerald-500/60' : 'border-red-500/60'}`}
+                    />
+                    {after}
+                  </p>
+                ) : <p>{q.prompt}</p>}
+              </div>
+              {q.kind === 'choice' && (
+                <div className="mt-2 ml-5 grid gap-1.5">
+                  {(q.options || []).map(option => {
+                    const selected = answer === option;
+                    const tone = !graded ? (selected ? 'border-primary-500 bg-primary-500/10 text-white' : 'border-slate-700 text-slate-300 hover:border-slate-500')
+                      : option === q.answers[0] ? 'border-emerald-500/60 bg-emerald-500/10 text-emerald-200'
+                      : selected ? 'border-red-500/60 bg-red-500/10 text-red-200' : 'border-slate-800 text-slate-500';
+                    return (
+                      <button key={option} onClick={() => setAnswer(q.id, option)} disabled={!!graded} className={`text-left px-3 py-1.5 rounded-lg border text-xs transition-colors ${tone}`}>{option}</button>
+                    );
+                  })}
+                </div>
+              )}
+              {graded && (
+                <div className={`mt-2 ml-5 text-xs flex items-start gap-1.5 ${correct ? 'text-emerald-300' : 'text-red-300'}`}>
+                  {correct ? <CheckCircle size={12} className="shrink-0 mt-0.5" /> : <XCircle size={12} className="shrink-0 mt-0.5" />}
+                  <span>
+                    {correct ? 'Correct.' : q.kind === 'blank' ? `Expected ${q.answers.join(' or ')}.` : 'Not quite.'}
+                    {q.explanation && <span className="text-slate-400"> {q.explanation}</span>}
+                  </span>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      <div className="mt-4 flex justify-end">
+        {graded ? (
+          <button onClick={handleRetry} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold transition-colors"><RotateCcw size={12} /> Try again</button>
+        ) : (
+          <button onClick={handleSubmit} disabled={!answered} className="px-3 py-1.5 rounded-lg bg-primary-600 hover:bg-primary-500 text-white text-xs font-bold disabled:opacity-50 transition-colors">Check answers</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LessonQuiz;
@@ -1,256 +1,364 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Lesson, AppSettings, LearnerStep } from '../types';
-import { ChevronLeft, Play, CheckCircle, RotateCcw, Code2, Monitor, BookOpen, AlertCircle, ArrowRight, Lightbulb, Copy, Check, GraduationCap, Wand2, Sparkles, X, MapPin, ArrowLeft } from 'lucide-react';
-import { checkCode, generateLearnerSteps, applyAiEdit } from '../services/geminiService';
-import ChatBot from './ChatBot';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Lesson, AppSettings, LearnerStep, AssertionResult, CodeFile, ConsoleEntry, SourceLocation, ActivityEvent, QuizResult } from '../types';
+import { ChevronLeft, Play, CheckCircle, RotateCcw, Code2, Monitor, BookOpen, AlertCircle, ArrowRight, Lightbulb, Copy, GraduationCap, Wand2, Sparkles, X, MapPin, ListChecks, Circle, XCircle, Bot, History } from 'lucide-react';
+import { checkCode, enrichLearnerSteps, applyAiEdit, explainTestResults } from '../services/geminiService';
+import { buildTestDocument, waitForTestResults } from '../services/lessonTests';
+import { bundleProject, findFile, splitIntoFiles, updateFileContent, HTML_ENTRY } from '../services/projectFiles';
+import { buildErrorQuestion, listenToPreview, withPreviewBridge } from '../services/previewBridge';
+import { startTaskTimer } from '../services/activity';
+import { buildProjectSteps, checkLearnerStep, locateStep, StepCheck, StepPosition } from '../services/learnerSteps';
+import { getLessonBaselineFiles, getLessonUserFiles } from '../services/projectState';
+import { getTestOutModuleId } from '../services/testOut';
+import { buildHint, Hint, HintLevel } from '../services/hints';
+import ChatBot, { MentorQuestion } from './ChatBot';
+import FileTabs from './FileTabs';
+import PreviewConsole from './PreviewConsole';
+import CodeEditor, { CodeEditorHandle } from './CodeEditor';
+import AiEditReview, { AiEditProposal } from './AiEditReview';
+import Markdown from './Markdown';
+import HintPanel from './HintPanel';
+import LessonQuiz from './LessonQuiz';
 
 interface LessonWorkspaceProps {
   lesson: Lesson;
+  startingFiles: CodeFile[]; // Carried forward from the previous lesson
   onBack: () => void;
-  onComplete: (lessonId: string, code: string) => void;
+  onComplete: (lessonId: string, files: CodeFile[]) => void;
+  onActivity?: (lessonId: string, kind: 'check_attempt' | 'time_on_task' | 'hint_used', details: Pick<ActivityEvent, 'passed' | 'durationMs' | 'hintLevel'>) => void;
+  onQuizResult?: (lessonId: string, result: QuizResult) => void;
   settings: AppSettings;
 }
 
 type MobileTab = 'guide' | 'code' | 'preview';
-const LINE_HEIGHT = 24;
-
-// CodeBlock Component
-const CodeBlock: React.FC<{ language: string; code: string }> = ({ language, code }) => {
-  const [copied, setCopied] = useState(false);
-  const handleCopy = () => {
-    navigator.clipboard.writeText(code.trim());
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
+
+const INSERTION_MARKERS: Record<CodeFile['language'], string> = {
+  html: '<!-- Write code here -->',
+  css: '/* Write code here */',
+  javascript: '// Write code here',
+};
+
+const withInsertionMarker = (file: CodeFile): CodeFile => {
+  const marker = INSERTION_MARKERS[file.language];
+  let content = file.content;
+  if (content.includes(marker)) return file;
+  if (file.language === 'html' && content.includes('<body>')) content = content.replace(/<body>/i, `<body>\n  ${marker}`);
+  else if (content.trim() === '') content = marker;
+  else content = content + `\n\n${marker}`;
+  return { ...file, content };
+};
+
+// The step's code with what has been typed correctly so far, and the first wrong character
+const StepProgress: React.FC<{ code: string; check: StepCheck | null }> = ({ code, check }) => {
+  const matched = check?.matched ?? 0;
+  const mismatch = check?.status === 'mismatch';
   return (
-    <div className="my-4 rounded-lg overflow-hidden border border-slate-700 bg-slate-950 shadow-md group">
-      <div className="flex justify-between items-center px-3 py-1.5 bg-slate-800 border-b border-slate-700">
-        <span className="text-[10px] font-mono text-slate-400 uppercase">{language || 'code'}</span>
-        <button onClick={handleCopy} className={`flex items-center gap-1.5 px-2 py-1 rounded transition-colors text-xs font-medium ${copied ? 'bg-emerald-500/20 text-emerald-400' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`}>
-          {copied ? <Check size={12} /> : <Copy size={12} />}<span>{copied ? 'Copied' : 'Copy'}</span>
-        </button>
-      </div>
-      <pre className="p-3 text-sm font-mono text-slate-300 overflow-x-auto whitespace-pre custom-scrollbar"><code>{code.trim()}</code></pre>
-    </div>
+    <>
+      <code className="font-mono text-sm block whitespace-pre-wrap break-all">
+        <span className="text-emerald-400">{code.slice(0, matched)}</span>
+        {mismatch && <span className="bg-red-500/30 text-red-200 rounded-sm underline decoration-red-400 decoration-wavy">{code.slice(matched, matched + 1)}</span>}
+        <span className={matched > 0 ? 'text-slate-400' : 'text-emerald-400'}>{code.slice(mismatch ? matched + 1 : matched)}</span>
+      </code>
+      {mismatch && (
+        <p className="mt-2 text-xs text-red-300 flex items-center gap-1.5">
+          <XCircle size={12} className="shrink-0" />
+          <span>{check.file} line {check.line}, column {check.column}: expected <code className="font-mono bg-black/30 px-1 rounded">{check.expected}</code> but found <code className="font-mono bg-black/30 px-1 rounded">{check.found}</code></span>
+        </p>
+      )}
+    </>
   );
 };
 
-const LessonWorkspace: React.FC<LessonWorkspaceProps> = ({ lesson, onBack, onComplete, settings }) => {
-  const [code, setCode] = useState(lesson.userCode || lesson.initialCode);
+const LessonWorkspace: React.FC<LessonWorkspaceProps> = ({ lesson, startingFiles, onBack, onComplete, onActivity, onQuizResult, settings }) => {
+  const [files, setFiles] = useState<CodeFile[]>(getLessonUserFiles(lesson) || startingFiles);
+  const [activeFile, setActiveFile] = useState<string>(HTML_ENTRY);
+  const bundle = useMemo(() => bundleProject(files), [files]);
+  const code = bundle.code; // What the preview, checks and learner mode see
+  const activeContent = findFile(files, activeFile)?.content ?? '';
+  const activeLanguage = findFile(files, activeFile)?.language ?? 'html';
+  const setActiveContent = (value: string) => setFiles(prev => updateFileContent(prev, activeFile, value));
+  const [showResetMenu, setShowResetMenu] = useState(false);
   const [mobileTab, setMobileTab] = useState<MobileTab>('guide'); 
   const [isRunning, setIsRunning] = useState(false);
   const [checkResult, setCheckResult] = useState<{ passed: boolean; feedback: string } | null>(null);
   const [iframeKey, setIframeKey] = useState(0);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const [testResults, setTestResults] = useState<AssertionResult[] | null>(null);
+  const [testDoc, setTestDoc] = useState<string | null>(null); // Preview document with the check harness injected
+  const [aiExplanation, setAiExplanation] = useState<string>("");
+  const [isExplaining, setIsExplaining] = useState(false);
+  const editorRef = useRef<CodeEditorHandle>(null);
+  const previewRef = useRef<HTMLIFrameElement>(null);
+  const bundleRef = useRef(bundle);
+  bundleRef.current = bundle;
+
+  // Preview console
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+  const [mentorQuestion, setMentorQuestion] = useState<MentorQuestion | null>(null);
 
   // Learner Mode State
   const [learnerSteps, setLearnerSteps] = useState<LearnerStep[]>([]);
   const [currentStepIndex, setCurrentStepIndex] = useState<number>(0);
-  const [learnerModeActive, setLearnerModeActive] = useState(settings.learnerMode);
+  const [learnerModeActive, setLearnerModeActive] = useState(settings.learnerMode && !!lesson.solutionCode);
   const [learnerFeedback, setLearnerFeedback] = useState<string>("");
-  const [isLoadingSteps, setIsLoadingSteps] = useState(false);
   const [highlightLine, setHighlightLine] = useState<number | null>(null);
+  const [stepStartFiles, setStepStartFiles] = useState<CodeFile[]>([]); // The project when the current step began
+  const [stepAnchor, setStepAnchor] = useState<StepPosition | null>(null); // Where the previous step ended
+  const [stepCheck, setStepCheck] = useState<StepCheck | null>(null);
 
   // AI Edit State
   const [selection, setSelection] = useState({ start: 0, end: 0, text: "" });
   const [showEditInput, setShowEditInput] = useState(false);
   const [editPrompt, setEditPrompt] = useState("");
   const [isEditing, setIsEditing] = useState(false);
+  const [aiProposal, setAiProposal] = useState<AiEditProposal | null>(null);
+  const [solutionQueue, setSolutionQueue] = useState<AiEditProposal[]>([]); // Solution files to review after the open one
+
+  // Hint ladder
+  const [hintLevel, setHintLevel] = useState<HintLevel | 0>(0);
+  const [hint, setHint] = useState<Hint | null>(null);
 
   useEffect(() => {
-    let initialCode = lesson.userCode || lesson.initialCode;
-    const INSERTION_MARKER = '<!-- Write code here -->';
-    if (settings.showInsertionHints && !initialCode.includes(INSERTION_MARKER) && !lesson.userCode) {
-         if (initialCode.includes('<body>')) initialCode = initialCode.replace(/<body>/i, `<body>\n  ${INSERTION_MARKER}`);
-         else if (initialCode.trim() === '') initialCode = INSERTION_MARKER;
-         else initialCode = initialCode + `\n\n${INSERTION_MARKER}`;
+    const savedFiles = getLessonUserFiles(lesson);
+    let initialFiles = savedFiles || startingFiles;
+    const target = findFile(initialFiles, lesson.targetFile || HTML_ENTRY) ? (lesson.targetFile || HTML_ENTRY) : HTML_ENTRY;
+    if (settings.showInsertionHints && !savedFiles) {
+         initialFiles = initialFiles.map(f => f.name === target ? withInsertionMarker(f) : f);
     }
-    setCode(initialCode);
+    setFiles(initialFiles);
+    setActiveFile(target);
     setCheckResult(null);
+    setTestResults(null);
+    setAiExplanation("");
+    setAiProposal(null);
+    setSolutionQueue([]);
+    setHintLevel(0);
+    setHint(null);
     setMobileTab('guide');
-    setLearnerModeActive(settings.learnerMode);
+    setLearnerModeActive(settings.learnerMode && !!lesson.solutionCode); // Test-outs have no solution to type along with
     
     if (settings.learnerMode && lesson.solutionCode) {
-        initializeLearnerMode();
+        initializeLearnerMode(initialFiles);
     }
-  }, [lesson, settings.showInsertionHints, settings.learnerMode]);
+  }, [lesson, startingFiles, settings.showInsertionHints, settings.learnerMode]);
 
-  const initializeLearnerMode = async () => {
-    setIsLoadingSteps(true);
-    let steps = lesson.steps && lesson.steps.length > 0 ? lesson.steps : await generateLearnerSteps(lesson.solutionCode);
-    
-    // FILTER: STRICTLY Remove comment-only steps or empty steps
-    steps = steps.filter(s => {
-        const trimmed = s.code.trim();
-        if (trimmed.length === 0) return false;
-        // Detect HTML comments
-        if (trimmed.startsWith('<!--') || trimmed.endsWith('-->')) return false;
-        // Detect JS/CSS comments
-        if (trimmed.startsWith('//') || trimmed.startsWith('/*')) return false;
-        return true;
-    });
+  const initializeLearnerMode = (startFiles: CodeFile[]) => {
+    // Authored steps win; otherwise build them from what the solution adds to the files the learner starts with
+    const authored = lesson.steps && lesson.steps.length > 0;
+    const steps = authored
+        ? lesson.steps.filter(s => s.code.trim().length > 0 && !/^(<!--|\/\/|\/\*)/.test(s.code.trim()) && !s.code.trim().endsWith('-->'))
+        : buildProjectSteps(lesson.solutionCode, startFiles);
 
     setLearnerSteps(steps);
     setCurrentStepIndex(0);
+    setStepAnchor(null);
+    setStepCheck(null);
+    setStepStartFiles(startFiles);
     setLearnerFeedback("");
-    setIsLoadingSteps(false);
+
+    // Better explanations arrive later; drop them if the steps were replaced meanwhile
+    if (!authored) {
+        enrichLearnerSteps(steps, lesson.solutionCode).then(enriched => {
+            setLearnerSteps(prev => prev === steps ? enriched : prev);
+        });
+    }
   };
 
-  // Helper to find the line number where the user should type
-  const getInsertionLineIndex = useCallback(() => {
-    if (!learnerSteps[currentStepIndex]) return null;
+  // The file and 1-based line where the user should type
+  const getInsertionPoint = useCallback((): { file: string; line: number } | null => {
     const step = learnerSteps[currentStepIndex];
-    if (!code) return 0;
-    if (step.context) {
-        const idx = code.indexOf(step.context.trim());
-        if (idx !== -1) {
-             const upToContext = code.slice(0, idx + step.context.length);
-             return upToContext.split('\n').length;
-        }
-    }
-    const markerIdx = code.indexOf('<!-- Write code here -->');
-    if (markerIdx !== -1) return code.slice(0, markerIdx).split('\n').length - 1;
-    return code.split('\n').length;
-  }, [code, learnerSteps, currentStepIndex]);
+    if (!step) return null;
+    return locateStep(files, step, stepAnchor) ?? { file: activeFile, line: Math.max(1, activeContent.split('\n').length) };
+  }, [files, activeFile, activeContent, learnerSteps, currentStepIndex, stepAnchor]);
 
   useEffect(() => {
     if (learnerModeActive) {
-        const line = getInsertionLineIndex();
+        const point = getInsertionPoint();
+        if (point && point.file !== activeFile) setActiveFile(point.file);
+        const line = point?.line ?? null;
         setHighlightLine(line);
-        if (line !== null && scrollContainerRef.current) {
-            const top = (line * LINE_HEIGHT) + 24;
-            const containerHeight = scrollContainerRef.current.clientHeight;
-            scrollContainerRef.current.scrollTo({ top: Math.max(0, top - (containerHeight / 2)), behavior: 'smooth' });
-        }
+        // After the editor has switched to the point's file
+        if (line !== null) requestAnimationFrame(() => editorRef.current?.revealLine(line));
     } else {
         setHighlightLine(null);
     }
   }, [currentStepIndex, learnerModeActive]); 
 
-  // Real-time validation
+  // Real-time validation: the step has to be typed where it belongs, not just appear somewhere
   useEffect(() => {
     if (!learnerModeActive || currentStepIndex >= learnerSteps.length) return;
     const currentTarget = learnerSteps[currentStepIndex];
     if (!currentTarget) return;
-    const normalizedCode = code.replace(/\s+/g, '');
-    const normalizedTarget = currentTarget.code.replace(/\s+/g, '');
+    const check = checkLearnerStep(files, stepStartFiles, currentTarget, stepAnchor);
+    setStepCheck(check);
 
-    if (normalizedCode.includes(normalizedTarget)) {
+    if (check.status === 'done') {
+         setStepAnchor(check.end ?? stepAnchor);
+         setStepStartFiles(files);
+         setStepCheck(null);
          setCurrentStepIndex(prev => prev + 1);
          setLearnerFeedback("Excellent! Next step unlocked.");
          setTimeout(() => setLearnerFeedback(""), 2000);
          if (currentStepIndex + 1 >= learnerSteps.length) {
              setCheckResult({ passed: true, feedback: "You completed all steps in Learner Mode!" });
-             onComplete(lesson.id, code);
+             onComplete(lesson.id, files);
              if (window.innerWidth < 768) setMobileTab('preview');
          }
     }
-  }, [code, learnerModeActive, currentStepIndex, learnerSteps, lesson.id, onComplete]);
+  }, [files, learnerModeActive, currentStepIndex, learnerSteps, lesson.id, onComplete]);
 
+  // Any edit invalidates the last check run and returns the preview to the live code
+  useEffect(() => {
+    setTestDoc(null);
+  }, [code]);
+
+  // Focused time on this lesson, reported when the learner leaves it
+  const onActivityRef = useRef(onActivity);
+  onActivityRef.current = onActivity;
+  useEffect(() => startTaskTimer(activeMs => {
+    if (activeMs > 0) onActivityRef.current?.(lesson.id, 'time_on_task', { durationMs: activeMs });
+  }), [lesson.id]);
+
+  useEffect(() => listenToPreview(
+    () => previewRef.current,
+    () => bundleRef.current,
+    entry => setConsoleEntries(prev => [...prev.slice(-199), entry])
+  ), []);
+
+  // Each reload of the preview starts a fresh console
+  useEffect(() => {
+    setConsoleEntries([]);
+  }, [code, testDoc, iframeKey]);
 
   const handleRun = useCallback(() => {
+    setTestDoc(null);
     setIframeKey(prev => prev + 1);
     if (window.innerWidth < 768) setMobileTab('preview');
   }, []);
 
   const handleMainAction = async () => {
-    if (checkResult?.passed) { onComplete(lesson.id, code); return; }
+    if (checkResult?.passed) { onComplete(lesson.id, files); return; }
     setIsRunning(true);
     setCheckResult(null);
-    const result = await checkCode(code, lesson.instructions, `Task: ${lesson.title}`);
+    setAiExplanation("");
+    const assertions = lesson.assertions || [];
+    let result: { passed: boolean; feedback: string };
+    if (assertions.length > 0) {
+        // Run the lesson's checks inside the preview iframe itself
+        const runId = crypto.randomUUID();
+        const pending = waitForTestResults(runId, assertions, () => previewRef.current);
+        setTestDoc(buildTestDocument(code, assertions, runId));
+        setIframeKey(prev => prev + 1);
+        const results = await pending;
+        const failing = results.filter(r => !r.passed).length;
+        setTestResults(results);
+        result = failing === 0
+            ? { passed: true, feedback: `All ${results.length} checks passed.` }
+            : { passed: false, feedback: `${failing} of ${results.length} checks still failing.` };
+    } else if (getTestOutModuleId(lesson.id)) {
+        // A test-out completes a whole module, so only real checks may pass it
+        result = { passed: false, feedback: "This test-out has no checks to pass. Work through the module's lessons instead." };
+    } else {
+        result = await checkCode(code, lesson.instructions, `Task: ${lesson.title}`);
+    }
     setCheckResult(result);
     setIsRunning(false);
+    onActivity?.(lesson.id, 'check_attempt', { passed: result.passed });
     if (result.passed && window.innerWidth < 768) setMobileTab('preview');
   };
 
-  const handleSelect = () => {
-      const textarea = textareaRef.current;
-      if (!textarea) return;
-      if (textarea.selectionStart !== textarea.selectionEnd) {
-          setSelection({ start: textarea.selectionStart, end: textarea.selectionEnd, text: code.substring(textarea.selectionStart, textarea.selectionEnd) });
-      } else {
-          setSelection({ start: 0, end: 0, text: "" });
-      }
+  const handleExplainResults = async () => {
+    if (!testResults) return;
+    setIsExplaining(true);
+    setAiExplanation(await explainTestResults(code, lesson.instructions, testResults));
+    setIsExplaining(false);
   };
 
   const handleAiEdit = async () => {
       if (!editPrompt.trim()) return;
       setIsEditing(true);
       try {
-          const result = await applyAiEdit(code, selection.text, editPrompt);
-          setCode(result.newCode);
+          const result = await applyAiEdit(activeContent, selection.text, editPrompt);
+          setAiProposal({ file: activeFile, original: activeContent, proposed: result.newCode, explanation: result.explanation, selection });
+          setSolutionQueue([]);
           setEditPrompt("");
           setShowEditInput(false);
-          setSelection({ start: 0, end: 0, text: "" });
-          setLearnerFeedback(result.explanation || "Updated code!");
-          setTimeout(() => setLearnerFeedback(""), 3000);
       } catch (error) { console.error(error); } finally { setIsEditing(false); }
   };
 
-  useEffect(() => {
-    if (textareaRef.current) {
-        textareaRef.current.style.height = 'auto';
-        textareaRef.current.style.height = textareaRef.current.scrollHeight + 'px';
-    }
-  }, [code]);
+  // Accepted hunks go in through the editor, so Undo takes the whole AI edit back out
+  const handleApplyAiEdit = (newCode: string, applied: number) => {
+      if (!aiProposal) return;
+      setFiles(prev => updateFileContent(prev, aiProposal.file, newCode));
+      showNextSolutionFile();
+      setSelection({ start: 0, end: 0, text: "" });
+      setLearnerFeedback(`Applied ${applied} change${applied === 1 ? '' : 's'}. Undo with Ctrl+Z.`);
+      setTimeout(() => setLearnerFeedback(""), 3000);
+  };
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (settings.autoIndent || settings.learnerMode) {
-        if (e.key === 'Enter') {
-            e.preventDefault();
-            const textarea = e.currentTarget;
-            const start = textarea.selectionStart;
-            const end = textarea.selectionEnd;
-            const value = textarea.value;
-            const lineStart = value.lastIndexOf('\n', start - 1) + 1;
-            const currentLine = value.substring(lineStart, start);
-            const match = currentLine.match(/^(\s*)/);
-            let indentation = match ? match[1] : '';
-            if (currentLine.trim().endsWith('{') || currentLine.trim().endsWith('(') || currentLine.trim().endsWith('[') || /<[^\/][^>]*>$/.test(currentLine.trim())) {
-                indentation += '  ';
-            }
-            const newValue = value.substring(0, start) + '\n' + indentation + value.substring(end);
-            setCode(newValue);
-            setTimeout(() => { textarea.selectionStart = textarea.selectionEnd = start + 1 + indentation.length; }, 0);
-        }
-    }
+  // The solution is reviewed one file at a time, each against the learner's latest copy
+  const showNextSolutionFile = () => {
+      const [next, ...rest] = solutionQueue;
+      setSolutionQueue(rest);
+      setAiProposal(next ? { ...next, original: findFile(files, next.file)?.content ?? next.original } : null);
+      if (next) setActiveFile(next.file);
   };
 
-  const handleLocateInsertion = () => {
-      const line = getInsertionLineIndex();
-      if (line !== null && scrollContainerRef.current) {
-          const top = (line * LINE_HEIGHT) + 24;
-          const containerHeight = scrollContainerRef.current.clientHeight;
-          scrollContainerRef.current.scrollTo({ top: Math.max(0, top - (containerHeight / 2)), behavior: 'smooth' });
-          textareaRef.current?.focus();
+  // Only a stronger hint than before is recorded, since that is what costs XP
+  const handleHint = (level: HintLevel) => {
+      if (level === 4 && !settings.allowSkipping) return;
+      if (level > hintLevel) {
+          setHintLevel(level);
+          onActivity?.(lesson.id, 'hint_used', { hintLevel: level });
+      }
+      setHint(buildHint(level, lesson, files));
+      if (level === 4) {
+          // Split like the workspace, so the inline <style>/<script> of the solution land in their own files
+          const proposals = splitIntoFiles(lesson.solutionCode)
+              .map(file => ({ file: file.name, original: findFile(files, file.name)?.content, proposed: file.content, explanation: 'Accept the parts of the solution you want to copy into your code.' }))
+              .filter(p => p.original !== undefined && p.original !== p.proposed);
+          if (proposals.length === 0) {
+              setLearnerFeedback("Your files already match the solution.");
+              setTimeout(() => setLearnerFeedback(""), 3000);
+              return;
+          }
+          setAiProposal(proposals[0]);
+          setSolutionQueue(proposals.slice(1));
+          setActiveFile(proposals[0].file);
+          if (window.innerWidth < 768) setMobileTab('code');
       }
   };
 
+  const handleRevealHint = (file: string, line: number) => {
+      if (findFile(files, file)) setActiveFile(file);
+      if (window.innerWidth < 768) setMobileTab('code');
+      requestAnimationFrame(() => editorRef.current?.revealLine(line, 'cursor'));
+  };
+
+  const handleLocateInsertion = () => {
+      const point = getInsertionPoint();
+      if (point && point.file !== activeFile) setActiveFile(point.file);
+      if (point) requestAnimationFrame(() => editorRef.current?.revealLine(point.line, 'cursor'));
+  };
+
+  const handleJumpTo = (location: SourceLocation) => {
+      const file = findFile(files, location.file);
+      if (!file) return;
+      setActiveFile(file.name);
+      if (window.innerWidth < 768) setMobileTab('code');
+      // Wait for the editor to show the file before selecting in it
+      requestAnimationFrame(() => editorRef.current?.revealLine(location.line, 'select'));
+  };
+
+  const handleExplainError = (entry: ConsoleEntry) => {
+      const where = entry.location ? ` (${entry.location.file}:${entry.location.line})` : '';
+      setMentorQuestion({ id: entry.id, text: `Explain this error${where}: ${entry.message}`, prompt: buildErrorQuestion(entry, files) });
+  };
+
   const handleCopyStep = (text: string) => {
       navigator.clipboard.writeText(text);
       setLearnerFeedback("Copied to clipboard!");
       setTimeout(() => setLearnerFeedback(""), 2000);
   };
 
-  const renderInstructions = (text: string) => {
-    const regex = /```(\w*)\n?([\s\S]*?)```/g;
-    const elements: React.ReactNode[] = [];
-    let lastIndex = 0;
-    let match: RegExpExecArray | null;
-    while ((match = regex.exec(text)) !== null) {
-        if (match.index > lastIndex) {
-            elements.push(<div key={`text-${lastIndex}`} className="whitespace-pre-wrap leading-relaxed prose prose-invert max-w-none text-slate-300 text-sm">{text.slice(lastIndex, match.index)}</div>);
-        }
-        elements.push(<CodeBlock key={`code-${match.index}`} language={match[1]} code={match[2]} />);
-        lastIndex = regex.lastIndex;
-    }
-    if (lastIndex < text.length) {
-        elements.push(<div key={`text-${lastIndex}`} className="whitespace-pre-wrap leading-relaxed prose prose-invert max-w-none text-slate-300 text-sm">{text.slice(lastIndex)}</div>);
-    }
-    return elements;
-  };
-
   return (
     <div className="h-screen flex flex-col bg-slate-950 text-white overflow-hidden">
       {/* Top Bar - Glassmorphism UI Update */}
@@ -267,7 +375,21 @@ const LessonWorkspace: React.FC<LessonWorkspaceProps> = ({ lesson, onBack, onCom
         </div>
         
         <div className="flex items-center gap-2 md:gap-3">
-          <button onClick={() => setCode(lesson.initialCode)} className="p-2 hover:bg-white/10 rounded-lg text-slate-400 hover:text-white transition-colors hidden sm:block" title="Reset Code"><RotateCcw size={18} /></button>
+          <div className="relative hidden sm:block">
+            <button onClick={() => setShowResetMenu(!showResetMenu)} className="p-2 hover:bg-white/10 rounded-lg text-slate-400 hover:text-white transition-colors" title="Reset Code"><RotateCcw size={18} /></button>
+            {showResetMenu && (
+                <div className="absolute right-0 top-full mt-2 w-64 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-top-2 z-50">
+                    <button onClick={() => { setFiles(startingFiles); setShowResetMenu(false); }} className="w-full text-left px-4 py-3 hover:bg-slate-800 transition-colors flex gap-3">
+                        <History size={16} className="text-primary-400 shrink-0 mt-0.5" />
+                        <div><div className="text-sm font-semibold text-slate-200">Restart lesson</div><div className="text-xs text-slate-500">Your project as it was when this lesson began.</div></div>
+                    </button>
+                    <button onClick={() => { setFiles(getLessonBaselineFiles(lesson)); setShowResetMenu(false); }} className="w-full text-left px-4 py-3 hover:bg-slate-800 transition-colors flex gap-3 border-t border-slate-800">
+                        <RotateCcw size={16} className="text-orange-400 shrink-0 mt-0.5" />
+                        <div><div className="text-sm font-semibold text-slate-200">Reset to baseline</div><div className="text-xs text-slate-500">Discard carried-over work and use the generated starter code.</div></div>
+                    </button>
+                </div>
+            )}
+          </div>
           <div className="h-6 w-px bg-white/10 mx-1 hidden sm:block"></div>
           <button onClick={handleRun} className="flex items-center gap-2 px-3 py-1.5 md:px-4 bg-white/5 hover:bg-white/10 rounded-lg transition-colors font-semibold text-xs md:text-sm border border-white/5"><Play size={14} className="fill-current" /><span>Run</span></button>
           {!learnerModeActive && (
@@ -286,14 +408,12 @@ const LessonWorkspace: React.FC<LessonWorkspaceProps> = ({ lesson, onBack, onCom
         <div className={`flex flex-col bg-slate-900/50 backdrop-blur-sm border-r border-slate-800 transition-all duration-300 ${mobileTab === 'guide' ? 'absolute inset-0 z-10 w-full flex' : 'hidden'} md:flex md:relative md:w-1/4 md:min-w-[350px] md:inset-auto md:z-0`}>
           <div className="flex items-center gap-2 p-4 border-b border-slate-800 bg-slate-900/80"><BookOpen size={18} className="text-primary-400" /><span className="font-bold text-sm text-slate-200">Guide</span></div>
           <div className="flex-1 overflow-y-auto p-5 pb-24 md:pb-6 custom-scrollbar space-y-6">
-            {settings.showTips && <div className="bg-gradient-to-br from-indigo-900/20 to-slate-800/50 border border-indigo-500/20 rounded-xl p-4"><h3 className="text-indigo-300 text-xs font-bold uppercase tracking-wider mb-2 flex items-center gap-2"><Lightbulb size={14} /> Core Concept</h3><div className="text-slate-300 text-sm leading-relaxed whitespace-pre-wrap">{lesson.concept}</div></div>}
+            {settings.showTips && <div className="bg-gradient-to-br from-indigo-900/20 to-slate-800/50 border border-indigo-500/20 rounded-xl p-4"><h3 className="text-indigo-300 text-xs font-bold uppercase tracking-wider mb-2 flex items-center gap-2"><Lightbulb size={14} /> Core Concept</h3><Markdown text={lesson.concept} className="text-slate-300 text-sm" /></div>}
             
             {/* LEARNER MODE HUD */}
             {learnerModeActive && (
                   <div className="relative">
-                      {isLoadingSteps ? (
-                           <div className="p-8 text-center text-slate-500 text-sm animate-pulse"><Sparkles className="mx-auto mb-2 opacity-50" />Preparing your guided steps...</div>
-                      ) : currentStepIndex < learnerSteps.length ? (
+                      {currentStepIndex < learnerSteps.length ? (
                           <div className="bg-gradient-to-br from-slate-900 to-slate-800 border border-yellow-500/30 rounded-xl overflow-hidden shadow-2xl animate-in slide-in-from-left-2 transition-all">
                                <div className="bg-yellow-500/10 px-4 py-2 border-b border-yellow-500/10 flex justify-between items-center">
                                    <h4 className="text-yellow-400 font-bold text-xs uppercase tracking-wider">Step {currentStepIndex + 1} of {learnerSteps.length}</h4>
@@ -306,7 +426,7 @@ const LessonWorkspace: React.FC<LessonWorkspaceProps> = ({ lesson, onBack, onCom
                                     </div>
                                     <div className="bg-black/40 rounded-lg p-3 border border-slate-700/50 relative group">
                                          <div className="flex justify-between items-center mb-1"><span className="text-[10px] text-slate-500 uppercase tracking-wider">Type this code:</span><button onClick={() => handleCopyStep(learnerSteps[currentStepIndex].code)} className="text-slate-500 hover:text-white transition-colors"><Copy size={12} /></button></div>
-                                         <code className="text-emerald-400 font-mono text-sm block whitespace-pre-wrap break-all">{learnerSteps[currentStepIndex].code}</code>
+                                         <StepProgress code={learnerSteps[currentStepIndex].code} check={stepCheck} />
                                          <div className="absolute -bottom-3 left-1/2 -translate-x-1/2 opacity-0 group-hover:opacity-100 transition-opacity"><button onClick={handleLocateInsertion} className="bg-yellow-500 text-black text-[10px] font-bold px-2 py-0.5 rounded-full flex items-center gap-1 hover:bg-yellow-400"><MapPin size={10} /> Locate</button></div>
                                     </div>
                                </div>
@@ -318,7 +438,32 @@ const LessonWorkspace: React.FC<LessonWorkspaceProps> = ({ lesson, onBack, onCom
                       )}
                   </div>
             )}
-            {!learnerModeActive && <div className="prose prose-invert prose-sm max-w-none text-slate-300">{renderInstructions(lesson.instructions)}</div>}
+            {!learnerModeActive && <Markdown text={lesson.instructions} className="text-slate-300 text-sm" />}
+            {!learnerModeActive && lesson.solutionCode && !checkResult?.passed && (
+                <HintPanel level={hintLevel} hint={hint} allowSolution={settings.allowSkipping} onHint={handleHint} onLocate={handleRevealHint} />
+            )}
+            {lesson.assertions && lesson.assertions.length > 0 && (
+                <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4">
+                    <h3 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-3 flex items-center gap-2"><ListChecks size={14} /> Checks</h3>
+                    <ul className="space-y-2">
+                        {lesson.assertions.map(a => {
+                            const result = testResults?.find(r => r.id === a.id);
+                            return (
+                                <li key={a.id} className="flex items-start gap-2 text-sm">
+                                    {!result ? <Circle size={16} className="text-slate-600 shrink-0 mt-0.5" /> : result.passed ? <CheckCircle size={16} className="text-emerald-400 shrink-0 mt-0.5" /> : <XCircle size={16} className="text-red-400 shrink-0 mt-0.5" />}
+                                    <div>
+                                        <span className={result?.passed ? 'text-slate-300' : 'text-slate-200'}>{a.description}</span>
+                                        {result && !result.passed && <p className="text-xs text-red-300/80 mt-0.5">{result.message}</p>}
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+            {lesson.quiz && lesson.quiz.length > 0 && (
+                <LessonQuiz key={lesson.id} questions={lesson.quiz} result={lesson.quizResult} onSubmit={result => onQuizResult?.(lesson.id, result)} />
+            )}
           </div>
         </div>
 
@@ -332,16 +477,28 @@ const LessonWorkspace: React.FC<LessonWorkspaceProps> = ({ lesson, onBack, onCom
                     </div>
                 </div>
             )}
-            {selection.text && !showEditInput && <button onClick={() => setShowEditInput(true)} className="absolute bottom-4 right-4 z-30 bg-purple-600 hover:bg-purple-500 text-white rounded-full p-3 shadow-xl hover:scale-110 transition-all flex items-center gap-2"><Wand2 size={18} /><span className="font-bold text-xs pr-1">Edit</span></button>}
-            <div className="flex-1 overflow-y-auto custom-scrollbar relative" ref={scrollContainerRef}>
-                <div className="relative min-h-full">
-                    {learnerModeActive && highlightLine !== null && (
-                         <div className="absolute left-0 w-full pointer-events-none transition-all duration-300 ease-out z-0 border-l-[3px] border-yellow-500" style={{ height: `${LINE_HEIGHT}px`, top: `${24 + (highlightLine * LINE_HEIGHT)}px`, background: 'linear-gradient(90deg, rgba(234, 179, 8, 0.1) 0%, rgba(234, 179, 8, 0.05) 50%, transparent 100%)' }}>
-                            <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2 text-yellow-400 font-bold text-xs animate-pulse"><span>Type Here</span><ArrowLeft size={16} /></div>
-                         </div>
-                    )}
-                    <textarea ref={textareaRef} value={code} onChange={(e) => setCode(e.target.value)} onKeyDown={handleKeyDown} onSelect={handleSelect} className="w-full h-full min-h-[calc(100vh-200px)] bg-transparent text-slate-300 p-6 font-mono text-sm resize-none focus:outline-none overflow-hidden relative z-10 leading-[24px]" spellCheck={false} placeholder="<!-- Code goes here -->" style={{ lineHeight: `${LINE_HEIGHT}px` }} />
-                </div>
+            <FileTabs
+                files={files}
+                activeFile={activeFile}
+                targetFile={lesson.targetFile}
+                onSelect={(name) => { setActiveFile(name); setSelection({ start: 0, end: 0, text: "" }); }}
+                onAdd={(file) => { setFiles(prev => [...prev, file]); setActiveFile(file.name); }}
+                onRemove={(name) => { setFiles(prev => prev.filter(f => f.name !== name)); if (name === activeFile) setActiveFile(HTML_ENTRY); }}
+            />
+            {aiProposal && aiProposal.file === activeFile && <AiEditReview key={`${aiProposal.file}:${aiProposal.proposed.length}:${solutionQueue.length}`} proposal={aiProposal} title={aiProposal.selection ? 'Review AI edit' : `Solution: ${aiProposal.file}`} onApply={handleApplyAiEdit} onDiscard={showNextSolutionFile} />}
+            {selection.text && !showEditInput && !aiProposal && <button onClick={() => setShowEditInput(true)} className="absolute bottom-4 right-4 z-30 bg-purple-600 hover:bg-purple-500 text-white rounded-full p-3 shadow-xl hover:scale-110 transition-all flex items-center gap-2"><Wand2 size={18} /><span className="font-bold text-xs pr-1">Edit</span></button>}
+            <div className="flex-1 min-h-0">
+                <CodeEditor
+                    ref={editorRef}
+                    path={activeFile}
+                    value={activeContent}
+                    language={activeLanguage}
+                    onChange={setActiveContent}
+                    onSelectionChange={setSelection}
+                    highlightLine={learnerModeActive && highlightLine !== null && getInsertionPoint()?.file === activeFile ? highlightLine : null}
+                    autoIndent={settings.autoIndent || settings.learnerMode}
+                    placeholder="<!-- Code goes here -->"
+                />
             </div>
             {learnerFeedback && <div className="absolute top-4 right-4 bg-emerald-900/90 text-emerald-200 px-4 py-2 rounded-lg text-sm border border-emerald-500/30 animate-in fade-in slide-in-from-top-4 z-40 shadow-xl flex items-center gap-2"><Sparkles size={14} />{learnerFeedback}</div>}
         </div>
@@ -350,9 +507,31 @@ const LessonWorkspace: React.FC<LessonWorkspaceProps> = ({ lesson, onBack, onCom
         <div className={`flex-col bg-white border-l border-slate-800 transition-all duration-300 ${mobileTab === 'preview' ? 'absolute inset-0 z-10 w-full flex' : 'hidden'} md:flex md:w-1/3 md:inset-auto md:z-0`}>
            <div className="h-10 bg-slate-100 border-b border-slate-200 flex items-center px-4 gap-2 text-xs text-slate-500 select-none shrink-0"><Monitor size={14} /><span className="font-semibold text-slate-600">Browser Output</span>{checkResult && <span className={`ml-auto px-2 py-0.5 rounded-full text-[10px] font-bold ${checkResult.passed ? 'bg-emerald-100 text-emerald-600' : 'bg-red-100 text-red-600'}`}>{checkResult.passed ? 'PASSED' : 'NEEDS WORK'}</span>}</div>
            <div className="flex-1 relative bg-white">
-                <iframe key={iframeKey} title="Preview" srcDoc={code} className="w-full h-full border-none" sandbox="allow-scripts" />
-                {checkResult && !checkResult.passed && !isRunning && <div className="absolute bottom-0 left-0 w-full bg-red-50/95 border-t border-red-200 p-4 animate-in slide-in-from-bottom-2 shadow-[0_-4px_20px_rgba(0,0,0,0.1)]"><div className="flex items-start gap-3"><AlertCircle className="text-red-500 shrink-0 mt-0.5" size={18} /><div><h4 className="font-bold text-red-800 text-sm mb-1">Feedback</h4><p className="text-red-700 text-xs leading-relaxed">{checkResult.feedback}</p></div></div></div>}
+                <iframe ref={previewRef} key={iframeKey} title="Preview" srcDoc={withPreviewBridge(testDoc ?? code)} className="w-full h-full border-none" sandbox="allow-scripts" />
+                {checkResult && !checkResult.passed && !isRunning && (
+                    <div className="absolute bottom-0 left-0 w-full bg-red-50/95 border-t border-red-200 p-4 animate-in slide-in-from-bottom-2 shadow-[0_-4px_20px_rgba(0,0,0,0.1)] max-h-[60%] overflow-y-auto">
+                        <div className="flex items-start gap-3">
+                            <AlertCircle className="text-red-500 shrink-0 mt-0.5" size={18} />
+                            <div className="flex-1">
+                                <h4 className="font-bold text-red-800 text-sm mb-1">Feedback</h4>
+                                <p className="text-red-700 text-xs leading-relaxed">{checkResult.feedback}</p>
+                                {testResults && (
+                                    <ul className="mt-2 space-y-1">
+                                        {testResults.filter(r => !r.passed).map(r => <li key={r.id} className="text-xs text-red-700"><span className="font-semibold">{r.description}:</span> {r.message}</li>)}
+                                    </ul>
+                                )}
+                                {testResults && !aiExplanation && (
+                                    <button onClick={handleExplainResults} disabled={isExplaining} className="mt-3 flex items-center gap-1.5 text-xs font-semibold text-red-800 bg-red-100 hover:bg-red-200 px-2.5 py-1 rounded-lg transition-colors disabled:opacity-50">
+                                        <Bot size={12} />{isExplaining ? 'Asking Zephyr...' : 'Explain with Zephyr'}
+                                    </button>
+                                )}
+                                {aiExplanation && <p className="mt-3 text-xs text-slate-700 leading-relaxed border-l-2 border-red-300 pl-2">{aiExplanation}</p>}
+                            </div>
+                        </div>
+                    </div>
+                )}
            </div>
+           <PreviewConsole entries={consoleEntries} onClear={() => setConsoleEntries([])} onJumpTo={handleJumpTo} onExplain={handleExplainError} />
         </div>
       </div>
       
@@ -362,7 +541,7 @@ const LessonWorkspace: React.FC<LessonWorkspaceProps> = ({ lesson, onBack, onCom
           <button onClick={() => setMobileTab('code')} className={`flex flex-col items-center justify-center gap-1 ${mobileTab === 'code' ? 'text-primary-400 bg-slate-800' : 'text-slate-500'}`}><Code2 size={18} /><span className="text-[10px] font-medium">Code</span></button>
           <button onClick={() => setMobileTab('preview')} className={`flex flex-col items-center justify-center gap-1 ${mobileTab === 'preview' ? 'text-primary-400 bg-slate-800' : 'text-slate-500'}`}><Monitor size={18} /><span className="text-[10px] font-medium">Preview</span></button>
       </div>
-      <ChatBot currentLesson={lesson} />
+      <ChatBot currentLesson={lesson} question={mentorQuestion} />
     </div>
   );
 };
@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { Block, Inline, parseMarkdown } from '../services/markdown';
+import CodeBlock from './CodeBlock';
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+  tone?: Tone; // 'light' for text on a white background, like the mentor chat
+}
+
+type Tone = 'dark' | 'light';
+
+const TONES: Record<Tone, { strong: string; code: string; heading: string; border: string }> = {
+  dark: { strong: 'text-white', code: 'bg-slate-800 border-slate-700 text-primary-200', heading: 'text-white', border: 'border-slate-700' },
+  light: { strong: 'text-slate-900', code: 'bg-slate-100 border-slate-200 text-primary-700', heading: 'text-slate-900', border: 'border-slate-200' },
+};
+
+const renderInline = (nodes: Inline[], tone: Tone): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return node.text;
+    case 'code': return <code key={i} className={`px-1.5 py-0.5 rounded border font-mono text-[0.85em] ${TONES[tone].code}`}>{node.text}</code>;
+    case 'strong': return <strong key={i} className={`font-bold ${TONES[tone].strong}`}>{renderInline(node.children, tone)}</strong>;
+    case 'em': return <em key={i}>{renderInline(node.children, tone)}</em>;
+    case 'del': return <del key={i} className="text-slate-500">{renderInline(node.children, tone)}</del>;
+    case 'link': return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-primary-500 hover:text-primary-400 underline underline-offset-2">{renderInline(node.children, tone)}</a>;
+    case 'break': return <br key={i} />;
+  }
+});
+
+const HEADING_CLASSES = ['text-lg font-bold mt-5 mb-2', 'text-base font-bold mt-5 mb-2', 'text-sm font-bold mt-4 mb-2', 'text-sm font-semibold mt-3 mb-1'];
+
+const renderBlocks = (blocks: Block[], tone: Tone): React.ReactNode[] => blocks.map((block, i) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${Math.min(block.level + 1, 6)}` as 'h2'; // The page title is the h1
+      return <Tag key={i} className={`${HEADING_CLASSES[Math.min(block.level, 4) - 1]} ${TONES[tone].heading}`}>{renderInline(block.children, tone)}</Tag>;
+    }
+    case 'paragraph': return <p key={i} className="my-2 first:mt-0 last:mb-0 leading-relaxed">{renderInline(block.children, tone)}</p>;
+    case 'code': return <CodeBlock key={i} language={block.language} code={block.text} />;
+    case 'list': {
+      const items = block.items.map((item, k) => <li key={k} className="pl-1 [&>p]:my-1">{renderBlocks(item, tone)}</li>);
+      return block.ordered
+        ? <ol key={i} start={block.start} className="my-2 ml-5 list-decimal space-y-1 marker:text-slate-500">{items}</ol>
+        : <ul key={i} className="my-2 ml-5 list-disc space-y-1 marker:text-slate-500">{items}</ul>;
+    }
+    case 'quote': return <blockquote key={i} className="my-3 pl-4 border-l-2 border-primary-500/50 opacity-80">{renderBlocks(block.children, tone)}</blockquote>;
+    case 'table': return (
+      <div key={i} className="my-4 overflow-x-auto custom-scrollbar">
+        <table className={`min-w-full text-left border rounded-lg ${TONES[tone].border}`}>
+          <thead className={tone === 'dark' ? 'bg-slate-800' : 'bg-slate-100'}>
+            <tr>{block.header.map((cell, k) => <th key={k} style={{ textAlign: block.align[k] || undefined }} className={`px-3 py-2 font-bold border-b ${TONES[tone].heading} ${TONES[tone].border}`}>{renderInline(cell, tone)}</th>)}</tr>
+          </thead>
+          <tbody>
+            {block.rows.map((row, r) => (
+              <tr key={r} className={`border-t ${TONES[tone].border}`}>{row.map((cell, k) => <td key={k} style={{ textAlign: block.align[k] || undefined }} className="px-3 py-2">{renderInline(cell, tone)}</td>)}</tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+    case 'rule': return <hr key={i} className={`my-4 ${TONES[tone].border}`} />;
+  }
+});
+
+// Renders Markdown as React elements; see services/markdown.ts for what is supported
+const Markdown: React.FC<MarkdownProps> = ({ text, className, tone = 'dark' }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={className}>{renderBlocks(blocks, tone)}</div>;
+};
+
+export default Markdown;
@@ -5,11 +5,12 @@ import { Zap, BookOpen, Code2, Terminal, ArrowRight, Check } from 'lucide-react'
 
 interface OnboardingProps {
   user: User;
-  onComplete: (skillLevel: Difficulty) => void;
+  onComplete: (skillLevel: Difficulty, username: string) => void;
 }
 
 const Onboarding: React.FC<OnboardingProps> = ({ user, onComplete }) => {
-  const [selectedLevel, setSelectedLevel] = useState<Difficulty | null>(null);
+  const [selectedLevel, setSelectedLevel] = useState<Difficulty | null>(user.skillLevel || null);
+  const [username, setUsername] = useState(user.username);
 
   const levels: { id: Difficulty; title: string; desc: string; icon: React.ReactNode; color: string }[] = [
     {
@@ -49,8 +50,17 @@ const Onboarding: React.FC<OnboardingProps> = ({ user, onComplete }) => {
 
        <div className="w-full max-w-2xl relative z-10">
           <div className="text-center mb-12 animate-in fade-in slide-in-from-top-8 duration-700">
-              <h1 className="text-3xl md:text-5xl font-bold text-white mb-4">Hi, <span className="text-transparent bg-clip-text bg-gradient-to-r from-primary-400 to-purple-400">{user.username}</span></h1>
+              <h1 className="text-3xl md:text-5xl font-bold text-white mb-4">Hi, <span className="text-transparent bg-clip-text bg-gradient-to-r from-primary-400 to-purple-400">{username || user.username}</span></h1>
               <p className="text-slate-400 text-lg">To personalize your AI mentor, tell us about your coding experience.</p>
+              <label className="inline-flex items-center gap-3 mt-6 text-sm text-slate-400">
+                  <span>Call me</span>
+                  <input
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    maxLength={40}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-primary-500"
+                  />
+              </label>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -87,8 +97,8 @@ const Onboarding: React.FC<OnboardingProps> = ({ user, onComplete }) => {
 
           <div className="mt-12 flex justify-end">
               <button
-                disabled={!selectedLevel}
-                onClick={() => selectedLevel && onComplete(selectedLevel)}
+                disabled={!selectedLevel || !username.trim()}
+                onClick={() => selectedLevel && onComplete(selectedLevel, username.trim())}
                 className="bg-white text-slate-900 hover:bg-slate-200 px-8 py-4 rounded-xl font-bold text-lg shadow-xl shadow-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center gap-2 group"
               >
                   <span>Start Journey</span>
@@ -1,9 +1,15 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { ChevronLeft, Play, Award, Loader2, Code2, Monitor, Wand2, Sparkles, X, ArrowRight } from 'lucide-react';
 import { evaluateBadge, applyAiEdit } from '../services/geminiService';
-import { Badge } from '../types';
-import ChatBot from './ChatBot';
+import { Badge, CodeFile, ConsoleEntry, SourceLocation } from '../types';
+import { bundleProject, findFile, splitIntoFiles, updateFileContent, HTML_ENTRY } from '../services/projectFiles';
+import { buildErrorQuestion, listenToPreview, withPreviewBridge } from '../services/previewBridge';
+import ChatBot, { MentorQuestion } from './ChatBot';
+import FileTabs from './FileTabs';
+import PreviewConsole from './PreviewConsole';
+import CodeEditor, { CodeEditorHandle } from './CodeEditor';
+import AiEditReview, { AiEditProposal } from './AiEditReview';
 
 interface PlaygroundProps {
   onBack: () => void;
@@ -51,19 +57,53 @@ const DEFAULT_PLAYGROUND_CODE = `<!-- Welcome to the Playground! -->
 `;
 
 const Playground: React.FC<PlaygroundProps> = ({ onBack, onAwardBadge }) => {
-  const [code, setCode] = useState(DEFAULT_PLAYGROUND_CODE);
+  const [files, setFiles] = useState<CodeFile[]>(() => splitIntoFiles(DEFAULT_PLAYGROUND_CODE));
+  const [activeFile, setActiveFile] = useState<string>(HTML_ENTRY);
+  const bundle = useMemo(() => bundleProject(files), [files]);
+  const code = bundle.code;
+  const activeContent = findFile(files, activeFile)?.content ?? '';
+  const activeLanguage = findFile(files, activeFile)?.language ?? 'html';
+  const setActiveContent = (value: string) => setFiles(prev => updateFileContent(prev, activeFile, value));
   const [iframeKey, setIframeKey] = useState(0);
   const [isEvaluating, setIsEvaluating] = useState(false);
   const [badgeResult, setBadgeResult] = useState<{ badge: Badge | null, message: string } | null>(null);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const editorRef = useRef<CodeEditorHandle>(null);
+  const previewRef = useRef<HTMLIFrameElement>(null);
+  const bundleRef = useRef(bundle);
+  bundleRef.current = bundle;
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+  const [mentorQuestion, setMentorQuestion] = useState<MentorQuestion | null>(null);
 
   // AI Edit State
   const [selection, setSelection] = useState({ start: 0, end: 0, text: "" });
   const [showEditInput, setShowEditInput] = useState(false);
   const [editPrompt, setEditPrompt] = useState("");
   const [isEditing, setIsEditing] = useState(false);
+  const [aiProposal, setAiProposal] = useState<AiEditProposal | null>(null);
   const [editFeedback, setEditFeedback] = useState("");
 
+  useEffect(() => listenToPreview(
+    () => previewRef.current,
+    () => bundleRef.current,
+    entry => setConsoleEntries(prev => [...prev.slice(-199), entry])
+  ), []);
+
+  useEffect(() => {
+    setConsoleEntries([]);
+  }, [code, iframeKey]);
+
+  const handleJumpTo = (location: SourceLocation) => {
+      const file = findFile(files, location.file);
+      if (!file) return;
+      setActiveFile(file.name);
+      requestAnimationFrame(() => editorRef.current?.revealLine(location.line, 'select'));
+  };
+
+  const handleExplainError = (entry: ConsoleEntry) => {
+      const where = entry.location ? ` (${entry.location.file}:${entry.location.line})` : '';
+      setMentorQuestion({ id: entry.id, text: `Explain this error${where}: ${entry.message}`, prompt: buildErrorQuestion(entry, files) });
+  };
+
   const handleRun = () => {
     setIframeKey(prev => prev + 1);
   };
@@ -86,32 +126,14 @@ const Playground: React.FC<PlaygroundProps> = ({ onBack, onAwardBadge }) => {
     }
   };
 
-  const handleSelect = () => {
-      const textarea = textareaRef.current;
-      if (!textarea) return;
-      
-      if (textarea.selectionStart !== textarea.selectionEnd) {
-          setSelection({
-              start: textarea.selectionStart,
-              end: textarea.selectionEnd,
-              text: code.substring(textarea.selectionStart, textarea.selectionEnd)
-          });
-      } else {
-          setSelection({ start: 0, end: 0, text: "" });
-      }
-  };
-
   const handleAiEdit = async () => {
       if (!editPrompt.trim()) return;
       setIsEditing(true);
       try {
-          const result = await applyAiEdit(code, selection.text, editPrompt);
-          setCode(result.newCode);
+          const result = await applyAiEdit(activeContent, selection.text, editPrompt);
+          setAiProposal({ file: activeFile, original: activeContent, proposed: result.newCode, explanation: result.explanation, selection });
           setEditPrompt("");
           setShowEditInput(false);
-          setSelection({ start: 0, end: 0, text: "" });
-          setEditFeedback(result.explanation);
-          setTimeout(() => setEditFeedback(""), 3000);
       } catch (error) {
           console.error(error);
       } finally {
@@ -119,6 +141,16 @@ const Playground: React.FC<PlaygroundProps> = ({ onBack, onAwardBadge }) => {
       }
   };
 
+  // Accepted hunks go in through the editor, so Undo takes the whole AI edit back out
+  const handleApplyAiEdit = (newCode: string, applied: number) => {
+      if (!aiProposal) return;
+      setFiles(prev => updateFileContent(prev, aiProposal.file, newCode));
+      setAiProposal(null);
+      setSelection({ start: 0, end: 0, text: "" });
+      setEditFeedback(`Applied ${applied} change${applied === 1 ? '' : 's'}. Undo with Ctrl+Z.`);
+      setTimeout(() => setEditFeedback(""), 3000);
+  };
+
   return (
     <div className="h-screen flex flex-col bg-slate-950 text-white overflow-hidden">
       {/* Top Bar */}
@@ -199,8 +231,12 @@ const Playground: React.FC<PlaygroundProps> = ({ onBack, onAwardBadge }) => {
                 </div>
             )}
 
+            {aiProposal && aiProposal.file === activeFile && (
+                <AiEditReview proposal={aiProposal} onApply={handleApplyAiEdit} onDiscard={() => setAiProposal(null)} />
+            )}
+
             {/* Selection Toolbar (Floating) */}
-            {selection.text && !showEditInput && (
+            {selection.text && !showEditInput && !aiProposal && (
                 <button
                     onClick={() => setShowEditInput(true)}
                     className="absolute bottom-4 right-4 z-30 bg-purple-600 hover:bg-purple-500 text-white rounded-full p-3 shadow-xl shadow-purple-900/40 animate-in zoom-in-90 hover:scale-110 transition-all flex items-center gap-2"
@@ -211,7 +247,7 @@ const Playground: React.FC<PlaygroundProps> = ({ onBack, onAwardBadge }) => {
             )}
 
             {/* Manual Edit Button (always visible if no selection) */}
-            {!selection.text && !showEditInput && (
+            {!selection.text && !showEditInput && !aiProposal && (
                 <button
                     onClick={() => setShowEditInput(true)}
                     className="absolute bottom-4 right-4 z-20 bg-slate-800/80 hover:bg-purple-600 text-slate-400 hover:text-white rounded-full p-2.5 shadow-lg border border-slate-700 transition-all"
@@ -221,15 +257,24 @@ const Playground: React.FC<PlaygroundProps> = ({ onBack, onAwardBadge }) => {
                 </button>
             )}
 
-            <textarea
-                ref={textareaRef}
-                value={code}
-                onChange={(e) => setCode(e.target.value)}
-                onSelect={handleSelect}
-                className="flex-1 bg-[#1e1e2e] text-slate-300 p-6 font-mono text-sm resize-none focus:outline-none custom-scrollbar leading-relaxed"
-                spellCheck={false}
-                placeholder="Write your code..."
+            <FileTabs
+                files={files}
+                activeFile={activeFile}
+                onSelect={(name) => { setActiveFile(name); setSelection({ start: 0, end: 0, text: "" }); }}
+                onAdd={(file) => { setFiles(prev => [...prev, file]); setActiveFile(file.name); }}
+                onRemove={(name) => { setFiles(prev => prev.filter(f => f.name !== name)); if (name === activeFile) setActiveFile(HTML_ENTRY); }}
             />
+            <div className="flex-1 min-h-0">
+                <CodeEditor
+                    ref={editorRef}
+                    path={activeFile}
+                    value={activeContent}
+                    language={activeLanguage}
+                    onChange={setActiveContent}
+                    onSelectionChange={setSelection}
+                    placeholder="Write your code..."
+                />
+            </div>
             {/* Overlay for Badge Result */}
             {(badgeResult || editFeedback) && (
                 <div className="absolute top-4 right-4 bg-slate-900/95 border border-slate-700 p-4 rounded-xl shadow-2xl animate-in slide-in-from-top-2 max-w-xs z-30">
@@ -263,16 +308,18 @@ const Playground: React.FC<PlaygroundProps> = ({ onBack, onAwardBadge }) => {
                 <span className="font-semibold text-slate-600">Browser Output</span>
            </div>
            <iframe
+              ref={previewRef}
               key={iframeKey}
               title="Preview"
-              srcDoc={code}
-              className="w-full h-full border-none"
+              srcDoc={withPreviewBridge(code)}
+              className="w-full flex-1 border-none"
               sandbox="allow-scripts" 
             />
+            <PreviewConsole entries={consoleEntries} onClear={() => setConsoleEntries([])} onJumpTo={handleJumpTo} onExplain={handleExplainError} />
         </div>
       </div>
 
-      <ChatBot />
+      <ChatBot question={mentorQuestion} />
     </div>
   );
 };
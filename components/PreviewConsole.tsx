@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Terminal, Trash2, ChevronDown, ChevronUp, AlertTriangle, XCircle, Info, Sparkles } from 'lucide-react';
+import { ConsoleEntry, SourceLocation } from '../types';
+
+interface PreviewConsoleProps {
+  entries: ConsoleEntry[];
+  onClear: () => void;
+  onJumpTo?: (location: SourceLocation) => void;
+  onExplain?: (entry: ConsoleEntry) => void;
+}
+
+const LEVEL_STYLES: Record<ConsoleEntry['level'], string> = {
+  log: 'text-slate-300',
+  info: 'text-sky-300',
+  warn: 'text-amber-300 bg-amber-500/5',
+  error: 'text-red-300 bg-red-500/5',
+};
+
+const LevelIcon: React.FC<{ level: ConsoleEntry['level'] }> = ({ level }) => {
+  if (level === 'error') return <XCircle size={12} className="text-red-400 shrink-0 mt-0.5" />;
+  if (level === 'warn') return <AlertTriangle size={12} className="text-amber-400 shrink-0 mt-0.5" />;
+  if (level === 'info') return <Info size={12} className="text-sky-400 shrink-0 mt-0.5" />;
+  return <span className="w-3 shrink-0" />;
+};
+
+const PreviewConsole: React.FC<PreviewConsoleProps> = ({ entries, onClear, onJumpTo, onExplain }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const listEndRef = useRef<HTMLDivElement>(null);
+  const errorCount = entries.filter(e => e.level === 'error').length;
+
+  // Errors are what the learner needs to see, so they open the panel
+  useEffect(() => {
+    if (errorCount > 0) setIsOpen(true);
+  }, [errorCount]);
+
+  useEffect(() => {
+    if (isOpen) listEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [entries, isOpen]);
+
+  return (
+    <div className="bg-slate-950 border-t border-slate-800 shrink-0 flex flex-col">
+      <div className="h-8 flex items-center justify-between px-3 text-xs select-none">
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors">
+          <Terminal size={13} />
+          <span className="font-semibold">Console</span>
+          {entries.length > 0 && <span className="px-1.5 rounded bg-slate-800 text-slate-400 text-[10px]">{entries.length}</span>}
+          {errorCount > 0 && <span className="px-1.5 rounded bg-red-500/20 text-red-400 text-[10px]">{errorCount} error{errorCount === 1 ? '' : 's'}</span>}
+          {isOpen ? <ChevronDown size={13} /> : <ChevronUp size={13} />}
+        </button>
+        {isOpen && entries.length > 0 && (
+          <button onClick={onClear} className="p-1 text-slate-500 hover:text-white transition-colors" title="Clear console"><Trash2 size={12} /></button>
+        )}
+      </div>
+      {isOpen && (
+        <div className="max-h-48 overflow-y-auto custom-scrollbar border-t border-slate-800 font-mono text-xs">
+          {entries.length === 0 && <div className="px-3 py-2 text-slate-600 italic">Nothing logged yet. Try console.log() in your script.</div>}
+          {entries.map(entry => (
+            <div key={entry.id} className={`flex items-start gap-2 px-3 py-1.5 border-b border-slate-800/60 ${LEVEL_STYLES[entry.level]}`}>
+              <LevelIcon level={entry.level} />
+              <span className="flex-1 whitespace-pre-wrap break-all">{entry.message}</span>
+              {entry.location && (
+                <button
+                  onClick={() => onJumpTo?.(entry.location!)}
+                  className="shrink-0 text-slate-500 hover:text-primary-300 underline decoration-dotted"
+                  title="Show in editor"
+                >
+                  {entry.location.file}:{entry.location.line}
+                </button>
+              )}
+              {entry.level === 'error' && onExplain && (
+                <button onClick={() => onExplain(entry)} className="shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded bg-purple-500/10 text-purple-300 hover:bg-purple-500/20 font-sans" title="Ask Zephyr to explain this error">
+                  <Sparkles size={11} /> Explain
+                </button>
+              )}
+            </div>
+          ))}
+          <div ref={listEndRef} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PreviewConsole;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { KeyRound, Database, Cpu, ArrowRight, AlertTriangle, ChevronLeft } from 'lucide-react';
+import { RuntimeConfig, ConfigIssue, getRuntimeConfig, saveRuntimeConfig, validateConfig } from '../services/config';
+import { AiProviderName } from '../services/aiProvider';
+
+interface SetupProps {
+  initialIssues: ConfigIssue[];
+  onSaved: () => void;
+  onCancel?: () => void;
+}
+
+const Setup: React.FC<SetupProps> = ({ initialIssues, onSaved, onCancel }) => {
+  const [config, setConfig] = useState<RuntimeConfig>(getRuntimeConfig());
+  const [issues, setIssues] = useState<ConfigIssue[]>(initialIssues);
+
+  const issueFor = (field: keyof RuntimeConfig) => issues.find(i => i.field === field)?.message;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextIssues = validateConfig(config);
+    setIssues(nextIssues);
+    if (nextIssues.length > 0) return;
+    saveRuntimeConfig(config);
+    onSaved();
+  };
+
+  const inputClass = (field: keyof RuntimeConfig) => `w-full bg-slate-950/50 border rounded-xl py-3 pl-11 pr-4 text-white font-mono text-sm focus:outline-none focus:ring-1 transition-all placeholder:text-slate-600 ${issueFor(field) ? 'border-red-500/60 focus:border-red-500 focus:ring-red-500' : 'border-slate-700 focus:border-primary-500 focus:ring-primary-500'}`;
+
+  return (
+    <div className="h-full flex items-center justify-center bg-slate-950 relative overflow-hidden font-sans p-4">
+      <div className="absolute top-[-20%] left-[-10%] w-[60%] h-[60%] bg-primary-900/20 blur-[120px] pointer-events-none"></div>
+
+      <div className="w-full max-w-lg bg-slate-900/50 backdrop-blur-xl border border-slate-700/50 rounded-3xl p-8 shadow-2xl relative z-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+        {onCancel && (
+            <button onClick={onCancel} className="absolute top-4 left-4 p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors"><ChevronLeft size={20} /></button>
+        )}
+        <div className="text-center mb-8">
+            <h1 className="text-2xl font-bold text-white mb-2 tracking-tight">Connect Zephyrus</h1>
+            <p className="text-slate-400 text-sm">
+                Set <code className="text-primary-300">GEMINI_API_KEY</code>, <code className="text-primary-300">SUPABASE_URL</code> and <code className="text-primary-300">SUPABASE_ANON_KEY</code> in <code className="text-primary-300">.env.local</code>, or enter them below. Values entered here are stored in this browser only.
+            </p>
+        </div>
+
+        {issues.length > 0 && (
+            <div className="mb-6 p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm flex gap-2">
+                <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                <span>{issues.length === 1 ? 'One setting needs attention.' : `${issues.length} settings need attention.`}</span>
+            </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="space-y-2">
+                <label className="text-xs font-bold text-slate-500 uppercase ml-1">AI Provider</label>
+                <div className="relative">
+                    <Cpu size={18} className="absolute left-4 top-3.5 text-slate-500" />
+                    <select
+                        value={config.aiProvider}
+                        onChange={(e) => setConfig({ ...config, aiProvider: e.target.value as AiProviderName })}
+                        className={inputClass('aiProvider')}
+                    >
+                        <option value="gemini">Gemini</option>
+                        <option value="mock">Offline (deterministic mock)</option>
+                    </select>
+                </div>
+            </div>
+
+            {config.aiProvider === 'gemini' && (
+                <div className="space-y-2">
+                    <label className="text-xs font-bold text-slate-500 uppercase ml-1">Gemini API Key</label>
+                    <div className="relative">
+                        <KeyRound size={18} className="absolute left-4 top-3.5 text-slate-500" />
+                        <input type="password" value={config.geminiApiKey} onChange={(e) => setConfig({ ...config, geminiApiKey: e.target.value })} className={inputClass('geminiApiKey')} placeholder="AIza..." />
+                    </div>
+                    {issueFor('geminiApiKey') && <p className="text-xs text-red-400 ml-1">{issueFor('geminiApiKey')}</p>}
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <label className="text-xs font-bold text-slate-500 uppercase ml-1">Supabase URL</label>
+                <div className="relative">
+                    <Database size={18} className="absolute left-4 top-3.5 text-slate-500" />
+                    <input type="url" value={config.supabaseUrl} onChange={(e) => setConfig({ ...config, supabaseUrl: e.target.value })} className={inputClass('supabaseUrl')} placeholder="https://your-project.supabase.co" />
+                </div>
+                {issueFor('supabaseUrl') && <p className="text-xs text-red-400 ml-1">{issueFor('supabaseUrl')}</p>}
+            </div>
+
+            <div className="space-y-2">
+                <label className="text-xs font-bold text-slate-500 uppercase ml-1">Supabase Anon Key</label>
+                <div className="relative">
+                    <KeyRound size={18} className="absolute left-4 top-3.5 text-slate-500" />
+                    <input type="password" value={config.supabaseAnonKey} onChange={(e) => setConfig({ ...config, supabaseAnonKey: e.target.value })} className={inputClass('supabaseAnonKey')} placeholder="eyJhbGciOi..." />
+                </div>
+                {issueFor('supabaseAnonKey') && <p className="text-xs text-red-400 ml-1">{issueFor('supabaseAnonKey')}</p>}
+            </div>
+
+            <button
+                type="submit"
+                className="w-full bg-gradient-to-r from-primary-600 to-indigo-600 hover:from-primary-500 hover:to-indigo-500 text-white font-bold py-3.5 rounded-xl shadow-lg shadow-primary-900/20 transition-all transform hover:scale-[1.02] flex items-center justify-center gap-2 mt-4"
+            >
+                <span>Save & Continue</span>
+                <ArrowRight size={18} />
+            </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default Setup;
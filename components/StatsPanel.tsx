@@ -0,0 +1,35 @@
+import React from 'react';
+import { Flame, Star, CheckCircle2, Clock } from 'lucide-react';
+import { ActivityStats } from '../services/activity';
+
+interface StatsPanelProps {
+  stats: ActivityStats;
+}
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ stats }) => {
+  const tiles = [
+    {
+      icon: <Flame size={20} className={stats.activeToday ? 'text-orange-400 fill-orange-400' : 'text-slate-500'} />,
+      value: `${stats.currentStreak} day${stats.currentStreak === 1 ? '' : 's'}`,
+      label: stats.activeToday || stats.currentStreak === 0 ? 'Current streak' : 'Streak: learn today to keep it',
+      sub: `Best: ${stats.longestStreak}`,
+    },
+    { icon: <Star size={20} className="text-yellow-400 fill-yellow-400" />, value: `${stats.totalXp} XP`, label: 'Total earned', sub: `+${stats.xpToday} today` },
+    { icon: <CheckCircle2 size={20} className="text-emerald-400" />, value: `${stats.lessonsCompleted}`, label: 'Lessons completed', sub: stats.lessonsCompleted > 0 ? `${stats.lessonsWithoutHints} without hints` : '' },
+    { icon: <Clock size={20} className="text-sky-400" />, value: `${stats.minutesOnTask} min`, label: 'Focused coding', sub: `${stats.minutesToday} min today` },
+  ];
+
+  return (
+    <div className="w-full max-w-5xl grid grid-cols-2 md:grid-cols-4 gap-4 mb-8 animate-in fade-in duration-300">
+      {tiles.map(tile => (
+        <div key={tile.label} className="bg-slate-900/60 border border-slate-800 rounded-2xl p-4 text-left">
+          <div className="flex items-center gap-2 mb-2">{tile.icon}<span className="text-xl font-bold text-white">{tile.value}</span></div>
+          <div className="text-xs text-slate-400">{tile.label}</div>
+          {tile.sub && <div className="text-[10px] text-slate-600 mt-0.5">{tile.sub}</div>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,25 @@
+import React, { useEffect, useState } from 'react';
+import { HardDrive, X } from 'lucide-react';
+import { StorageError, subscribeStorageErrors } from '../services/storage';
+
+// Shows the latest failed read or write so lost progress never goes unnoticed
+const StorageErrorBanner: React.FC = () => {
+  const [error, setError] = useState<StorageError | null>(null);
+
+  useEffect(() => subscribeStorageErrors(setError), []);
+
+  if (!error) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[60] w-[min(32rem,calc(100%-2rem))] bg-red-950/95 border border-red-500/40 text-red-100 rounded-xl shadow-2xl p-4 flex items-start gap-3 animate-in slide-in-from-top-2">
+      <HardDrive size={18} className="text-red-400 shrink-0 mt-0.5" />
+      <div className="flex-1 text-sm">
+        <div className="font-semibold">{error.operation} failed</div>
+        <div className="text-red-200/80 text-xs mt-1 leading-relaxed">{error.message}</div>
+      </div>
+      <button onClick={() => setError(null)} className="text-red-300 hover:text-white" title="Dismiss"><X size={16} /></button>
+    </div>
+  );
+};
+
+export default StorageErrorBanner;
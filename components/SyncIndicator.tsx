@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { SyncStatus, subscribeSyncStatus } from '../services/sync';
+
+const SyncIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus>({ state: 'idle' });
+
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  if (status.state === 'idle') return null;
+
+  const { icon, label, className } = {
+    syncing: { icon: <RefreshCw size={14} className="animate-spin" />, label: 'Syncing…', className: 'text-slate-400' },
+    synced: { icon: <Cloud size={14} />, label: 'Saved to cloud', className: 'text-emerald-400' },
+    offline: { icon: <CloudOff size={14} />, label: 'Offline: saved on this device', className: 'text-slate-500' },
+    error: { icon: <AlertTriangle size={14} />, label: 'Sync failed', className: 'text-amber-400' },
+  }[status.state];
+
+  return (
+    <div
+      className={`flex items-center gap-1.5 text-xs px-2 py-1 rounded-full bg-slate-900/80 border border-slate-800 ${className}`}
+      title={status.state === 'error' ? status.message : status.state === 'synced' ? `Last synced ${new Date(status.at).toLocaleTimeString()}` : label}
+    >
+      {icon}
+      <span className="hidden md:inline">{label}</span>
+    </div>
+  );
+};
+
+export default SyncIndicator;
@@ -0,0 +1,166 @@
+import { ActivityEvent, ActivityKind, Course } from '../types';
+import { recordActivityInStorage } from './storage';
+
+// Streaks and XP are never stored, only derived from the activity log, so
+// changing a rule here re-scores past work consistently on every device.
+
+export const XP_RULES = {
+  lessonComplete: 50,
+  firstTryBonus: 20, // Completed without a failed check or any hint past a nudge
+  hintPenalty: [0, 0, 10, 20, 40], // By the strongest hint level used before completing
+  courseComplete: 200,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const IDLE_AFTER_MS = 2 * 60 * 1000;
+const TICK_MS = 5000;
+
+export interface ActivityStats {
+  currentStreak: number; // Consecutive active days ending today (or yesterday, if today is still open)
+  longestStreak: number;
+  activeToday: boolean;
+  totalXp: number;
+  xpToday: number;
+  xpByCourse: Record<string, number>;
+  lessonsCompleted: number;
+  lessonsWithoutHints: number; // Completed lessons where no hint was used before completing
+  hintsUsed: number;
+  minutesOnTask: number;
+  minutesToday: number;
+}
+
+// "YYYY-MM-DD" in the timezone the learner was in at that moment
+export const dayKey = (at: number, tzOffset: number): string =>
+  new Date(at - tzOffset * 60 * 1000).toISOString().slice(0, 10);
+
+const shiftDay = (key: string, days: number): string =>
+  new Date(Date.parse(`${key}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const eventDay = (e: ActivityEvent) => dayKey(e.at, e.tzOffset);
+
+export const computeStreaks = (days: Set<string>, today: string): { current: number; longest: number } => {
+  let start = days.has(today) ? today : shiftDay(today, -1);
+  let current = 0;
+  while (days.has(start)) { current++; start = shiftDay(start, -1); }
+
+  let longest = 0;
+  let run = 0;
+  let previous = '';
+  for (const day of [...days].sort()) {
+    run = previous && shiftDay(previous, 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+  return { current, longest };
+};
+
+// The strongest hint among one lesson's events, 0 for none
+export const getHintLevel = (events: ActivityEvent[]): number =>
+  events.reduce((max, e) => e.kind === 'hint_used' ? Math.max(max, e.hintLevel || 0) : max, 0);
+
+// XP for one lesson and the day it was earned, from that lesson's events
+export const getLessonXp = (events: ActivityEvent[]): { xp: number; day?: string } => {
+  const ordered = [...events].sort((a, b) => a.at - b.at);
+  const completion = ordered.find(e => e.kind === 'lesson_complete');
+  if (!completion) return { xp: 0 };
+  const failedFirst = ordered.some(e => e.kind === 'check_attempt' && !e.passed && e.at <= completion.at);
+  const hintLevel = getHintLevel(ordered.filter(e => e.at <= completion.at));
+  const bonus = failedFirst || hintLevel > 1 ? 0 : XP_RULES.firstTryBonus;
+  return { xp: XP_RULES.lessonComplete + bonus - XP_RULES.hintPenalty[hintLevel], day: eventDay(completion) };
+};
+
+export const computeActivityStats = (events: ActivityEvent[], courses: Course[] = [], now = Date.now()): ActivityStats => {
+  const today = dayKey(now, new Date(now).getTimezoneOffset());
+  const byLesson = new Map<string, ActivityEvent[]>();
+  for (const e of events) {
+    const key = `${e.courseId}/${e.lessonId}`;
+    byLesson.set(key, [...(byLesson.get(key) || []), e]);
+  }
+
+  const xpByCourse: Record<string, number> = {};
+  let totalXp = 0;
+  let xpToday = 0;
+  let lessonsCompleted = 0;
+  let lessonsWithoutHints = 0;
+  const award = (courseId: string, xp: number, day?: string) => {
+    xpByCourse[courseId] = (xpByCourse[courseId] || 0) + xp;
+    totalXp += xp;
+    if (day === today) xpToday += xp;
+  };
+
+  byLesson.forEach((lessonEvents, key) => {
+    const { xp, day } = getLessonXp(lessonEvents);
+    if (!xp) return;
+    lessonsCompleted++;
+    const completedAt = lessonEvents.find(e => e.kind === 'lesson_complete').at;
+    if (getHintLevel(lessonEvents.filter(e => e.at <= completedAt)) === 0) lessonsWithoutHints++;
+    award(key.slice(0, key.indexOf('/')), xp, day);
+  });
+
+  for (const course of courses) {
+    const lessons = course.modules.flatMap(m => m.lessons);
+    // Lessons finished before activity was recorded still earn the base XP
+    for (const lesson of lessons) {
+      if (lesson.completed && !byLesson.get(`${course.id}/${lesson.id}`)?.some(e => e.kind === 'lesson_complete')) {
+        lessonsCompleted++;
+        award(course.id, XP_RULES.lessonComplete);
+      }
+    }
+    if (lessons.length > 0 && lessons.every(l => l.completed)) {
+      const last = events.filter(e => e.courseId === course.id && e.kind === 'lesson_complete').sort((a, b) => b.at - a.at)[0];
+      award(course.id, XP_RULES.courseComplete, last && eventDay(last));
+    }
+  }
+
+  const days = new Set(events.map(eventDay));
+  const { current, longest } = computeStreaks(days, today);
+  const timed = events.filter(e => e.kind === 'time_on_task');
+  const minutes = (list: ActivityEvent[]) => Math.round(list.reduce((sum, e) => sum + (e.durationMs || 0), 0) / 60000);
+
+  return {
+    currentStreak: current,
+    longestStreak: longest,
+    activeToday: days.has(today),
+    totalXp,
+    xpToday,
+    xpByCourse,
+    lessonsCompleted,
+    lessonsWithoutHints,
+    hintsUsed: events.filter(e => e.kind === 'hint_used').length,
+    minutesOnTask: minutes(timed),
+    minutesToday: minutes(timed.filter(e => eventDay(e) === today)),
+  };
+};
+
+export const recordActivity = (
+  kind: ActivityKind,
+  courseId: string,
+  lessonId: string,
+  details: Pick<ActivityEvent, 'passed' | 'durationMs' | 'hintLevel'> = {}
+): Promise<void> => {
+  const at = Date.now();
+  return recordActivityInStorage({ id: crypto.randomUUID(), kind, courseId, lessonId, at, tzOffset: new Date(at).getTimezoneOffset(), ...details });
+};
+
+/**
+ * Measures focused time: the tab is visible and the learner typed, clicked or
+ * scrolled in the last couple of minutes. Calling the returned function stops
+ * the timer and reports the total.
+ */
+export const startTaskTimer = (onStop: (activeMs: number) => void): (() => void) => {
+  let activeMs = 0;
+  let lastInteraction = Date.now();
+  const markActive = () => { lastInteraction = Date.now(); };
+  const interactions = ['keydown', 'pointerdown', 'wheel'] as const;
+  interactions.forEach(type => window.addEventListener(type, markActive, { passive: true }));
+
+  const interval = setInterval(() => {
+    if (document.visibilityState === 'visible' && Date.now() - lastInteraction < IDLE_AFTER_MS) activeMs += TICK_MS;
+  }, TICK_MS);
+
+  return () => {
+    clearInterval(interval);
+    interactions.forEach(type => window.removeEventListener(type, markActive));
+    onStop(activeMs);
+  };
+};
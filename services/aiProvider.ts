@@ -0,0 +1,67 @@
+import { AssertionResult, Badge, CourseIssue, CourseOutline, CourseRequest, LearnerStep, Lesson, Module } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { getRuntimeConfig } from './config';
+
+export type AiProviderName = 'gemini' | 'mock';
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  onText?: (receivedChars: number) => void; // Called as a streamed answer arrives
+  guidance?: string; // Extra direction from the learner when regenerating part of a course
+}
+
+export interface ProjectPreview {
+  image: string;
+  description: string;
+}
+
+export interface ChatTurn {
+  role: string;
+  parts: { text: string }[];
+}
+
+/**
+ * Everything the app asks of an AI backend. The exported functions in
+ * geminiService delegate to whichever provider is active, so components never
+ * talk to a provider directly.
+ */
+export interface AiProvider {
+  name: AiProviderName;
+  generateProjectPreview(prompt: string): Promise<ProjectPreview>;
+  refineProjectPreview(currentImageBase64: string, modificationPrompt: string): Promise<ProjectPreview>;
+  // Courses are generated in stages: the outline, then each module in order.
+  // `startingCode` is the page as the previous module left it.
+  generateOutline(request: CourseRequest, options?: GenerationOptions): Promise<CourseOutline>;
+  generateModule(request: CourseRequest, outline: CourseOutline, moduleIndex: number, startingCode: string, options?: GenerationOptions): Promise<Module>;
+  // One lesson of the outline on its own, for the course editor
+  generateLesson(request: CourseRequest, outline: CourseOutline, moduleIndex: number, lessonIndex: number, startingCode: string, options?: GenerationOptions): Promise<Lesson>;
+  // Fixes the listed problems in one generated lesson and returns the whole lesson
+  repairLesson(request: CourseRequest, lesson: Lesson, issues: CourseIssue[], options?: GenerationOptions): Promise<Lesson>;
+  checkCode(currentCode: string, instructions: string, goal: string): Promise<{ passed: boolean; feedback: string }>;
+  explainTestResults(currentCode: string, instructions: string, results: AssertionResult[]): Promise<string>;
+  chatWithMentor(history: ChatTurn[], newMessage: string, context: string): Promise<string>;
+  evaluateBadge(code: string): Promise<Omit<Badge, 'id' | 'awardedAt'> | null>;
+  // Rewrites the template explanations of locally built steps, one per step in order
+  explainLearnerSteps(steps: LearnerStep[], code: string): Promise<string[]>;
+  applyAiEdit(currentCode: string, selection: string, userInstruction: string): Promise<{ newCode: string, explanation: string }>;
+}
+
+const providerFactories: Record<AiProviderName, () => AiProvider> = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+};
+
+let activeProvider: AiProvider | null = null;
+
+export const getAiProvider = (): AiProvider => {
+  if (!activeProvider) {
+    activeProvider = providerFactories[getRuntimeConfig().aiProvider]();
+  }
+  return activeProvider;
+};
+
+// Swap the backend at runtime (e.g. for demos or tests)
+export const setAiProvider = (provider: AiProvider | AiProviderName): void => {
+  activeProvider = typeof provider === 'string' ? providerFactories[provider]() : provider;
+};
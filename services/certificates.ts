@@ -0,0 +1,139 @@
+import { Certificate, Course } from '../types';
+
+// Certificates are plain data plus a SHA-256 hash. The hash covers what the
+// certificate claims (who, which course, when, how many lessons) and the
+// course's lessons with their completion, so it can be re-checked against the
+// saved course at any time.
+
+const allLessons = (course: Course) => course.modules.flatMap(m => m.lessons);
+
+export const isCourseComplete = (course: Course): boolean => {
+  const lessons = allLessons(course);
+  return lessons.length > 0 && lessons.every(l => l.completed);
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Fixed key order so the same data always hashes the same
+const hashPayload = (certificate: Omit<Certificate, 'hash'>, course: Course): string => JSON.stringify([
+  certificate.id,
+  certificate.courseId,
+  certificate.courseTitle,
+  certificate.recipientName,
+  certificate.lessonCount,
+  certificate.completedAt,
+  course.id,
+  allLessons(course).map(l => [l.id, l.title, l.completed]),
+]);
+
+export const computeCertificateHash = async (certificate: Omit<Certificate, 'hash'>, course: Course): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(hashPayload(certificate, course))));
+
+export const issueCertificate = async (course: Course, recipientName: string): Promise<Certificate> => {
+  if (!isCourseComplete(course)) throw new Error('Finish every lesson before claiming the certificate.');
+  const unsigned: Omit<Certificate, 'hash'> = {
+    id: crypto.randomUUID(),
+    courseId: course.id,
+    courseTitle: course.title,
+    recipientName,
+    lessonCount: allLessons(course).length,
+    completedAt: Date.now(),
+  };
+  return { ...unsigned, hash: await computeCertificateHash(unsigned, course) };
+};
+
+export interface CertificateCheck { valid: boolean; reason?: string; }
+
+export const verifyCertificate = async (certificate: Certificate, course: Course | undefined): Promise<CertificateCheck> => {
+  if (!course || course.id !== certificate.courseId) return { valid: false, reason: 'The course this certificate was issued for is no longer saved.' };
+  if (!isCourseComplete(course)) return { valid: false, reason: 'The saved course no longer has every lesson completed.' };
+  const { hash, ...unsigned } = certificate;
+  if (await computeCertificateHash(unsigned, course) !== hash) {
+    return { valid: false, reason: 'The certificate does not match the saved course and progress.' };
+  }
+  return { valid: true };
+};
+
+export const shortHash = (hash: string) => hash.slice(0, 16).toUpperCase().replace(/(.{4})(?!$)/g, '$1-');
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Long titles are wrapped onto at most two centred lines
+const wrapTitle = (title: string, maxChars = 38): string[] => {
+  const words = title.split(/\s+/);
+  const lines: string[] = [''];
+  for (const word of words) {
+    const current = lines[lines.length - 1];
+    if (current && (current + ' ' + word).length > maxChars) lines.push(word);
+    else lines[lines.length - 1] = current ? `${current} ${word}` : word;
+  }
+  if (lines.length > 2) return [lines[0], `${lines.slice(1).join(' ').slice(0, maxChars - 1)}…`];
+  return lines;
+};
+
+/**
+ * Renders the certificate as a standalone A4-landscape SVG (vector, so it
+ * prints and converts to PDF without loss).
+ */
+export const renderCertificateSvg = (certificate: Certificate): string => {
+  const date = new Date(certificate.completedAt).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+  const titleLines = wrapTitle(certificate.courseTitle);
+  const titleY = titleLines.length === 1 ? 560 : 530;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="1123" height="794" viewBox="0 0 1123 794" font-family="Georgia, 'Times New Roman', serif">
+  <defs>
+    <linearGradient id="gold" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="#f5d67b"/><stop offset="0.5" stop-color="#c9962c"/><stop offset="1" stop-color="#f5d67b"/>
+    </linearGradient>
+  </defs>
+  <rect width="1123" height="794" fill="#0f172a"/>
+  <rect x="28" y="28" width="1067" height="738" fill="none" stroke="url(#gold)" stroke-width="6"/>
+  <rect x="44" y="44" width="1035" height="706" fill="none" stroke="#c9962c" stroke-opacity="0.4" stroke-width="1.5"/>
+  <text x="561.5" y="150" text-anchor="middle" fill="#94a3b8" font-size="20" letter-spacing="8" font-family="Helvetica, Arial, sans-serif">ZEPHYRUS</text>
+  <text x="561.5" y="230" text-anchor="middle" fill="url(#gold)" font-size="58" font-weight="bold">Certificate of Completion</text>
+  <text x="561.5" y="300" text-anchor="middle" fill="#cbd5e1" font-size="22" font-style="italic">This certifies that</text>
+  <text x="561.5" y="380" text-anchor="middle" fill="#ffffff" font-size="50">${escapeXml(certificate.recipientName)}</text>
+  <line x1="311.5" y1="405" x2="811.5" y2="405" stroke="#c9962c" stroke-opacity="0.6"/>
+  <text x="561.5" y="460" text-anchor="middle" fill="#cbd5e1" font-size="22" font-style="italic">has completed all ${certificate.lessonCount} lessons of</text>
+  ${titleLines.map((line, i) => `<text x="561.5" y="${titleY + i * 52}" text-anchor="middle" fill="#ffffff" font-size="40" font-weight="bold">${escapeXml(line)}</text>`).join('\n  ')}
+  <text x="200" y="680" text-anchor="middle" fill="#ffffff" font-size="22">${escapeXml(date)}</text>
+  <line x1="100" y1="692" x2="300" y2="692" stroke="#64748b"/>
+  <text x="200" y="716" text-anchor="middle" fill="#94a3b8" font-size="14" font-family="Helvetica, Arial, sans-serif" letter-spacing="2">DATE OF COMPLETION</text>
+  <text x="923" y="680" text-anchor="middle" fill="#ffffff" font-size="20" font-family="'Courier New', monospace">${shortHash(certificate.hash)}</text>
+  <line x1="793" y1="692" x2="1053" y2="692" stroke="#64748b"/>
+  <text x="923" y="716" text-anchor="middle" fill="#94a3b8" font-size="14" font-family="Helvetica, Arial, sans-serif" letter-spacing="2">VERIFICATION CODE</text>
+  <circle cx="561.5" cy="680" r="46" fill="none" stroke="url(#gold)" stroke-width="4"/>
+  <text x="561.5" y="692" text-anchor="middle" fill="url(#gold)" font-size="34">★</text>
+</svg>`;
+};
+
+export const certificateDataUrl = (certificate: Certificate) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderCertificateSvg(certificate))}`;
+
+const fileName = (certificate: Certificate, ext: string) =>
+  `certificate-${certificate.courseTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'course'}.${ext}`;
+
+// Saves the SVG plus a JSON copy (with the full hash) that can be verified later
+export const downloadCertificate = (certificate: Certificate, format: 'svg' | 'json') => {
+  const blob = format === 'svg'
+    ? new Blob([renderCertificateSvg(certificate)], { type: 'image/svg+xml' })
+    : new Blob([JSON.stringify(certificate, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName(certificate, format);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Opens the certificate on its own page and the print dialog ("Save as PDF")
+export const printCertificate = (certificate: Certificate) => {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  win.document.write(`<!DOCTYPE html><html><head><title>${escapeXml(certificate.courseTitle)} certificate</title>
+<style>@page { size: A4 landscape; margin: 0; } html, body { margin: 0; } svg { width: 100vw; height: auto; display: block; }</style>
+</head><body>${renderCertificateSvg(certificate)}<script>window.onload = function () { window.print(); };<\/script></body></html>`);
+  win.document.close();
+};
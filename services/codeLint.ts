@@ -0,0 +1,66 @@
+import { EditorState } from '@codemirror/state';
+import { syntaxTree } from '@codemirror/language';
+import type { SyntaxNode } from '@lezer/common';
+
+// Problems the code editor underlines as the learner types. Everything comes
+// from the parse tree the editor already keeps, so it is cheap enough to run
+// on every pause in typing and never runs the learner's code.
+
+export interface CodeDiagnostic {
+  from: number;
+  to: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Elements the browser closes for you, so a missing end tag is not a mistake
+const OPTIONAL_END_TAGS = new Set(['html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'colgroup', 'caption', 'rt', 'rp']);
+
+const tagName = (state: EditorState, tag: SyntaxNode | null) => {
+  const name = tag?.getChild('TagName');
+  return name ? state.sliceDoc(name.from, name.to).toLowerCase() : '';
+};
+
+const CLOSING: Record<string, string> = { '(': ')', '{': '}', '[': ']' };
+
+const describeError = (state: EditorState, node: SyntaxNode) => {
+  // An empty error node means something is missing, usually the bracket that closes its parent
+  const opener = node.from === node.to ? node.parent?.firstChild : null;
+  const bracket = opener && CLOSING[state.sliceDoc(opener.from, opener.to)];
+  if (bracket) return `Missing "${bracket}" to close the "${state.sliceDoc(opener.from, opener.to)}" on line ${state.doc.lineAt(opener.from).number}`;
+  if (node.from >= state.doc.length) return 'The code ends too early. Is a bracket, quote or tag left open?';
+  const text = state.sliceDoc(node.from, Math.min(state.doc.lineAt(node.from).to, node.from + 20)).trim();
+  return text ? `Unexpected "${text.split(/\s/)[0]}"` : 'Unexpected line break';
+};
+
+/** Syntax errors, mismatched end tags and elements that are never closed. */
+export const lintCode = (state: EditorState): CodeDiagnostic[] => {
+  const found: CodeDiagnostic[] = [];
+  const end = state.doc.length;
+
+  syntaxTree(state).iterate({
+    enter: node => {
+      if (node.type.isError) {
+        // One error per line: the parser's recovery often trips again right after the first
+        const from = Math.min(node.from, end);
+        const line = state.doc.lineAt(from).number;
+        if (!found.some(d => d.severity === 'error' && state.doc.lineAt(d.from).number === line)) {
+          found.push({ from, to: node.to > from ? node.to : Math.min(from + 1, end), severity: 'error', message: describeError(state, node.node) });
+        }
+        return false;
+      }
+      if (node.name === 'MismatchedCloseTag') {
+        found.push({ from: node.from, to: node.to, severity: 'error', message: `${state.sliceDoc(node.from, node.to)} does not match the element that is open here` });
+        return false;
+      }
+      if (node.name === 'Element') {
+        const open = node.node.firstChild;
+        const name = tagName(state, open);
+        if (open?.name === 'OpenTag' && !node.node.getChild('CloseTag') && name && !OPTIONAL_END_TAGS.has(name)) {
+          found.push({ from: open.from, to: open.to, severity: 'warning', message: `<${name}> is never closed. Add </${name}> where it should end.` });
+        }
+      }
+    },
+  });
+  return found.sort((a, b) => a.from - b.from);
+};
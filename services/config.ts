@@ -0,0 +1,101 @@
+import type { AiProviderName } from './aiProvider';
+
+const CONFIG_KEY = 'codespark_config_v1';
+
+export interface RuntimeConfig {
+  geminiApiKey: string;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  aiProvider: AiProviderName;
+}
+
+export interface ConfigIssue {
+  field: keyof RuntimeConfig;
+  message: string;
+}
+
+export class ConfigError extends Error {
+  issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(`Missing or invalid configuration: ${issues.map(i => i.field).join(', ')}`);
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+const readEnvConfig = (): RuntimeConfig => ({
+  geminiApiKey: import.meta.env.GEMINI_API_KEY || '',
+  supabaseUrl: import.meta.env.SUPABASE_URL || '',
+  supabaseAnonKey: import.meta.env.SUPABASE_ANON_KEY || '',
+  aiProvider: import.meta.env.VITE_AI_PROVIDER === 'mock' ? 'mock' : 'gemini',
+});
+
+const readStoredConfig = (): Partial<RuntimeConfig> => {
+  try {
+    const data = localStorage.getItem(CONFIG_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+// Values entered in the setup panel win over build-time env variables
+export const getRuntimeConfig = (): RuntimeConfig => {
+  const env = readEnvConfig();
+  const stored = readStoredConfig();
+  return {
+    geminiApiKey: stored.geminiApiKey || env.geminiApiKey,
+    supabaseUrl: stored.supabaseUrl || env.supabaseUrl,
+    supabaseAnonKey: stored.supabaseAnonKey || env.supabaseAnonKey,
+    aiProvider: stored.aiProvider || env.aiProvider,
+  };
+};
+
+export const saveRuntimeConfig = (config: Partial<RuntimeConfig>): void => {
+  const trimmed: Partial<RuntimeConfig> = {
+    ...config,
+    geminiApiKey: config.geminiApiKey?.trim(),
+    supabaseUrl: config.supabaseUrl?.trim(),
+    supabaseAnonKey: config.supabaseAnonKey?.trim(),
+  };
+  localStorage.setItem(CONFIG_KEY, JSON.stringify({ ...readStoredConfig(), ...trimmed }));
+};
+
+export const clearRuntimeConfig = (): void => {
+  localStorage.removeItem(CONFIG_KEY);
+};
+
+export const validateConfig = (config: RuntimeConfig): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+
+  if (config.aiProvider === 'gemini') {
+    if (!config.geminiApiKey) issues.push({ field: 'geminiApiKey', message: 'A Gemini API key is required (or switch to the offline provider).' });
+    else if (/\s/.test(config.geminiApiKey)) issues.push({ field: 'geminiApiKey', message: 'The Gemini API key must not contain spaces.' });
+  }
+
+  if (!config.supabaseUrl) {
+    issues.push({ field: 'supabaseUrl', message: 'The Supabase project URL is required for sign-in.' });
+  } else {
+    try {
+      const url = new URL(config.supabaseUrl);
+      const isLocal = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+      if (url.protocol !== 'https:' && !isLocal) issues.push({ field: 'supabaseUrl', message: 'The Supabase URL must use https.' });
+    } catch (e) {
+      issues.push({ field: 'supabaseUrl', message: 'The Supabase URL is not a valid URL.' });
+    }
+  }
+
+  if (!config.supabaseAnonKey) issues.push({ field: 'supabaseAnonKey', message: 'The Supabase anon key is required for sign-in.' });
+  else if (config.supabaseAnonKey.split('.').length !== 3) issues.push({ field: 'supabaseAnonKey', message: 'The Supabase anon key should be a JWT (three dot-separated parts).' });
+
+  return issues;
+};
+
+// Throws a ConfigError if any of the given fields are missing or invalid
+export const requireConfig = (fields: (keyof RuntimeConfig)[]): RuntimeConfig => {
+  const config = getRuntimeConfig();
+  const issues = validateConfig(config).filter(issue => fields.includes(issue.field));
+  if (issues.length > 0) throw new ConfigError(issues);
+  return config;
+};
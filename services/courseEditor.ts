@@ -0,0 +1,148 @@
+import { Course, CourseOutline, CourseRequest, CourseRevision, Lesson, Module } from '../types';
+import { generateCourseLesson, generateCourseModule } from './geminiService';
+import { CheckRun, checkGeneratedLesson, checkGeneratedModule } from './courseGeneration';
+
+// Edits to a finished course. The pure helpers return a new course; the async
+// ones ask the model for new content and run it through the same checks and
+// repairs as generation before returning it.
+
+export interface EditRun extends CheckRun {
+  guidance?: string;
+}
+
+export interface LessonPosition {
+  moduleIndex: number;
+  lessonIndex: number;
+}
+
+// Courses generated before the request was stored get a neutral one
+export const requestFor = (course: Course): CourseRequest => course.request || {
+  prompt: course.title,
+  difficultyLevel: 30,
+  lengthLevel: 50,
+  visualDescription: course.visualDescription,
+  detailLevel: 'balanced',
+};
+
+export const courseOutline = (course: Course): CourseOutline => ({
+  title: course.title,
+  description: course.description,
+  finalOutcomeDescription: course.finalOutcomeDescription,
+  modules: course.modules.map(m => ({ id: m.id, title: m.title, description: m.description, lessons: m.lessons.map(({ id, title, description }) => ({ id, title, description })) })),
+});
+
+export const findLesson = (course: Course, lessonId: string): LessonPosition | null => {
+  for (let moduleIndex = 0; moduleIndex < course.modules.length; moduleIndex++) {
+    const lessonIndex = course.modules[moduleIndex].lessons.findIndex(l => l.id === lessonId);
+    if (lessonIndex !== -1) return { moduleIndex, lessonIndex };
+  }
+  return null;
+};
+
+// The page the lesson at this position starts from: the previous lesson's solution
+const startingCodeAt = (course: Course, { moduleIndex, lessonIndex }: LessonPosition): string => {
+  const before = course.modules.slice(0, moduleIndex).flatMap(m => m.lessons).concat(course.modules[moduleIndex]?.lessons.slice(0, lessonIndex) || []);
+  return before[before.length - 1]?.solutionCode || '';
+};
+
+const withModules = (course: Course, modules: Module[]): Course => ({ ...course, modules });
+
+// --- Pure edits
+
+export const updateLesson = (course: Course, lessonId: string, changes: Partial<Lesson>): Course =>
+  withModules(course, course.modules.map(m => ({ ...m, lessons: m.lessons.map(l => l.id === lessonId ? { ...l, ...changes, id: l.id } : l) })));
+
+export const updateModule = (course: Course, moduleId: string, changes: Partial<Pick<Module, 'title' | 'description'>>): Course =>
+  withModules(course, course.modules.map(m => m.id === moduleId ? { ...m, ...changes } : m));
+
+// New content replaces the old, so the learner's work on it starts over
+export const replaceLesson = (course: Course, lesson: Lesson): Course =>
+  withModules(course, course.modules.map(m => ({ ...m, lessons: m.lessons.map(l => l.id === lesson.id ? { ...lesson, completed: false, outcome: undefined, quizResult: undefined } : l) })));
+
+export const replaceModule = (course: Course, module: Module): Course =>
+  withModules(course, course.modules.map(m => m.id === module.id ? { ...module, lessons: module.lessons.map(l => ({ ...l, completed: false, outcome: undefined, quizResult: undefined })) } : m));
+
+export const insertLesson = (course: Course, { moduleIndex, lessonIndex }: LessonPosition, lesson: Lesson): Course =>
+  withModules(course, course.modules.map((m, i) => {
+    if (i !== moduleIndex) return m;
+    const lessons = [...m.lessons];
+    lessons.splice(lessonIndex, 0, { ...lesson, completed: false });
+    return { ...m, lessons };
+  }));
+
+export const moveModule = (course: Course, from: number, to: number): Course => {
+  if (to < 0 || to >= course.modules.length || from === to) return course;
+  const modules = [...course.modules];
+  const [moved] = modules.splice(from, 1);
+  modules.splice(to, 0, moved);
+  return withModules(course, modules);
+};
+
+// --- History
+
+export const takeRevision = (course: Course, label: string): CourseRevision => ({
+  id: crypto.randomUUID(),
+  courseId: course.id,
+  label,
+  createdAt: Date.now(),
+  content: {
+    title: course.title,
+    description: course.description,
+    finalOutcomeDescription: course.finalOutcomeDescription,
+    modules: course.modules.map(m => ({ ...m, lessons: m.lessons.map(({ userCode, userFiles, outcome, quizResult, ...l }) => ({ ...l, completed: false })) })),
+  },
+});
+
+// Puts the saved content back; lessons that still exist keep the learner's progress
+export const restoreRevision = (course: Course, revision: CourseRevision): Course => {
+  const current = new Map(course.modules.flatMap(m => m.lessons).map(l => [l.id, l]));
+  return {
+    ...course,
+    ...revision.content,
+    modules: revision.content.modules.map(m => ({
+      ...m,
+      lessons: m.lessons.map(l => {
+        const progress = current.get(l.id);
+        return progress ? { ...l, completed: progress.completed, outcome: progress.outcome, quizResult: progress.quizResult, userCode: progress.userCode, userFiles: progress.userFiles } : l;
+      }),
+    })),
+  };
+};
+
+// --- AI edits
+
+export const regenerateLesson = async (course: Course, lessonId: string, run: EditRun = {}): Promise<Course> => {
+  const position = findLesson(course, lessonId);
+  if (!position) throw new Error('That lesson is no longer in the course.');
+  const { moduleIndex, lessonIndex } = position;
+  const request = requestFor(course);
+  const generated = await generateCourseLesson(request, courseOutline(course), moduleIndex, lessonIndex, startingCodeAt(course, position), { signal: run.signal, guidance: run.guidance });
+  const lesson = await checkGeneratedLesson(request, { ...generated, id: lessonId }, `modules[${moduleIndex}].lessons[${lessonIndex}]`, run);
+  return replaceLesson(course, lesson);
+};
+
+export const regenerateModule = async (course: Course, moduleIndex: number, run: EditRun = {}): Promise<Course> => {
+  const outline = courseOutline(course);
+  const planned = outline.modules[moduleIndex];
+  if (!planned) throw new Error('That module is no longer in the course.');
+  const request = requestFor(course);
+  const generated = await generateCourseModule(request, outline, moduleIndex, startingCodeAt(course, { moduleIndex, lessonIndex: 0 }), { signal: run.signal, guidance: run.guidance });
+  const taken = new Set(course.modules.flatMap((m, i) => i === moduleIndex ? [] : m.lessons.map(l => l.id)));
+  const module = await checkGeneratedModule(request, generated, planned, `modules[${moduleIndex}]`, taken, run);
+  return replaceModule(course, { ...module, title: planned.title, description: planned.description });
+};
+
+// Plans a new lesson at `position` and has the model write it
+export const addLesson = async (course: Course, position: LessonPosition, plan: { title: string; description: string }, run: EditRun = {}): Promise<Course> => {
+  const taken = new Set(course.modules.flatMap(m => m.lessons.map(l => l.id)));
+  let id = `les-${crypto.randomUUID().slice(0, 8)}`;
+  while (taken.has(id)) id = `les-${crypto.randomUUID().slice(0, 8)}`;
+  const planned = { id, title: plan.title.trim(), description: plan.description.trim() || plan.title.trim() };
+
+  const outline = courseOutline(course);
+  outline.modules[position.moduleIndex].lessons.splice(position.lessonIndex, 0, planned);
+  const request = requestFor(course);
+  const generated = await generateCourseLesson(request, outline, position.moduleIndex, position.lessonIndex, startingCodeAt(course, position), { signal: run.signal, guidance: run.guidance });
+  const lesson = await checkGeneratedLesson(request, { ...generated, id, title: generated.title || planned.title }, `modules[${position.moduleIndex}].lessons[${position.lessonIndex}]`, run);
+  return insertLesson(course, position, lesson);
+};
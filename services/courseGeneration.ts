@@ -0,0 +1,194 @@
+import { Course, CourseOutline, CourseRequest, GenerationDraft, Lesson, Module, ModuleOutline } from '../types';
+import { generateCourseModule, generateCourseOutline, repairCourseLesson } from './geminiService';
+import { CourseValidationError, checkLessonSolution, validateCourse, validateLesson, validateOutline, withUniqueIds } from './courseValidation';
+import { saveGenerationDraft } from './storage';
+
+// Generates a course in stages (the outline, then one module at a time) and
+// saves the draft after each stage. Running a draft again skips the stages it
+// already has, so a failed or cancelled run resumes at the module that stopped.
+
+export type GenerationStage = 'outline' | number; // A number is a module index
+
+export type GenerationEvent =
+  | { type: 'stage_started'; stage: GenerationStage }
+  | { type: 'stage_progress'; stage: GenerationStage; receivedChars: number }
+  | { type: 'stage_checking'; stage: GenerationStage; lessonTitle: string; repairing: boolean }
+  | { type: 'stage_done'; stage: GenerationStage; draft: GenerationDraft }
+  | { type: 'stage_failed'; stage: GenerationStage; draft: GenerationDraft; message: string; cancelled: boolean };
+
+export interface GenerationRun {
+  signal?: AbortSignal;
+  onEvent?: (event: GenerationEvent) => void;
+}
+
+export const createGenerationDraft = (request: CourseRequest, previewImage?: string): GenerationDraft => ({
+  id: crypto.randomUUID(),
+  request,
+  previewImage,
+  modules: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+export const isCancellation = (error: unknown, signal?: AbortSignal) =>
+  !!signal?.aborted || (error instanceof DOMException && error.name === 'AbortError');
+
+// The page as the previous module left it, so the next one continues from there
+const startingCodeFor = (draft: GenerationDraft, moduleIndex: number): string => {
+  const previous = draft.modules[moduleIndex - 1];
+  return previous?.lessons[previous.lessons.length - 1]?.solutionCode || '';
+};
+
+// How many times a broken lesson is sent back before the module fails
+const MAX_REPAIRS = 2;
+
+const normalizeOutline = (outline: CourseOutline): CourseOutline => {
+  const issues = validateOutline(outline);
+  if (issues.length) throw new CourseValidationError('The course outline is incomplete', issues);
+  const lessonIds = new Set<string>();
+  return {
+    ...outline,
+    finalOutcomeDescription: outline.finalOutcomeDescription || '',
+    modules: withUniqueIds(outline.modules, new Set(), i => `mod-${i}`).map(m => ({
+      ...m,
+      description: m.description || m.title, // Modules need one; the title is better than nothing
+      lessons: withUniqueIds(m.lessons, lessonIds, j => `les-${m.id}-${j}`),
+    })),
+  };
+};
+
+export interface CheckRun {
+  signal?: AbortSignal;
+  onCheck?: (lessonTitle: string, repairing: boolean) => void;
+}
+
+/**
+ * Validates a generated lesson and, while it has problems, asks the model for
+ * a targeted fix. Rejects with a CourseValidationError if it stays broken.
+ */
+export const checkGeneratedLesson = async (request: CourseRequest, generated: Lesson, path: string, { signal, onCheck }: CheckRun = {}): Promise<Lesson> => {
+  let lesson: Lesson = {
+    ...generated,
+    assertions: withUniqueIds(generated.assertions || [], new Set(), k => `chk-${generated.id}-${k}`),
+    quiz: Array.isArray(generated.quiz) ? withUniqueIds(generated.quiz, new Set(), k => `quiz-${generated.id}-${k}`) : generated.quiz,
+  };
+  const findIssues = async () => {
+    const structural = validateLesson(lesson, path);
+    return structural.length ? structural : checkLessonSolution(lesson, path);
+  };
+  onCheck?.(lesson.title, false);
+  let issues = await findIssues();
+  for (let attempt = 0; issues.length && attempt < MAX_REPAIRS; attempt++) {
+    onCheck?.(lesson.title, true);
+    lesson = { ...await repairCourseLesson(request, lesson, issues, { signal }), id: lesson.id };
+    issues = await findIssues();
+  }
+  // A quiz that stays broken is dropped rather than losing the whole lesson
+  if (issues.length && issues.every(i => i.path.includes('.quiz'))) {
+    lesson = { ...lesson, quiz: undefined };
+    issues = await findIssues();
+  }
+  if (issues.length) throw new CourseValidationError(`Lesson "${lesson.title}" is still broken after ${MAX_REPAIRS} repair attempts`, issues);
+  return { ...lesson, completed: false };
+};
+
+// Checks every lesson of a generated module, keeping the ids the plan promised
+export const checkGeneratedModule = async (request: CourseRequest, generated: Module, planned: ModuleOutline, path: string, takenLessonIds: Set<string>, run: CheckRun = {}): Promise<Module> => {
+  const received = (Array.isArray(generated.lessons) ? generated.lessons : []).map((l, j) => planned.lessons[j] ? { ...l, id: planned.lessons[j].id } : l);
+  const lessons = withUniqueIds(received, takenLessonIds, j => `les-${planned.id}-${j}`);
+  if (lessons.length === 0) throw new CourseValidationError(`Module "${planned.title}" is incomplete`, [{ path: `${path}.lessons`, message: 'It has no lessons' }]);
+  const checked: Lesson[] = [];
+  for (let j = 0; j < lessons.length; j++) {
+    checked.push(await checkGeneratedLesson(request, lessons[j], `${path}.lessons[${j}]`, run));
+  }
+  return { ...generated, id: planned.id, title: generated.title || planned.title, description: generated.description || planned.description || planned.title, lessons: checked };
+};
+
+const buildCourse = (draft: GenerationDraft): Course => {
+  const { outline, request } = draft;
+  const course: Course = {
+    title: outline!.title,
+    description: outline!.description,
+    finalOutcomeDescription: outline!.finalOutcomeDescription,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    lastAccessed: Date.now(),
+    previewImage: draft.previewImage, // Use the one passed from the Design Phase
+    visualDescription: request.visualDescription,
+    request,
+    modules: draft.modules.map(m => ({ ...m!, lessons: m!.lessons.map(l => ({ ...l, completed: false })) }))
+  };
+  const issues = validateCourse(course);
+  if (issues.length) throw new CourseValidationError('The finished course is inconsistent', issues);
+  return course;
+};
+
+/**
+ * Runs the remaining stages of `draft` and resolves with the finished course.
+ * The draft is left in storage; the caller discards it once the course is
+ * saved. On failure or cancellation it rejects after saving what it has.
+ */
+export const runGeneration = async (draft: GenerationDraft, { signal, onEvent }: GenerationRun = {}): Promise<Course> => {
+  let current: GenerationDraft = { ...draft, error: undefined };
+  let stage: GenerationStage = 'outline';
+
+  const commit = async (next: GenerationDraft) => {
+    current = { ...next, updatedAt: Date.now() };
+    await saveGenerationDraft(current);
+  };
+  const options = () => ({ signal, onText: (receivedChars: number) => onEvent?.({ type: 'stage_progress', stage, receivedChars }) });
+  const checks = (): CheckRun => ({ signal, onCheck: (lessonTitle, repairing) => onEvent?.({ type: 'stage_checking', stage, lessonTitle, repairing }) });
+
+  try {
+    await commit(current);
+    if (!current.outline) {
+      onEvent?.({ type: 'stage_started', stage });
+      const outline = normalizeOutline(await generateCourseOutline(current.request, options()));
+      await commit({ ...current, outline, modules: outline.modules.map(() => null) });
+      onEvent?.({ type: 'stage_done', stage, draft: current });
+    }
+
+    // In order, because each module builds on the code the one before it ends with
+    for (let index = 0; index < current.outline!.modules.length; index++) {
+      if (current.modules[index]) continue;
+      stage = index;
+      onEvent?.({ type: 'stage_started', stage });
+      const generated = await generateCourseModule(current.request, current.outline!, index, startingCodeFor(current, index), options());
+      const taken = new Set(current.modules.flatMap((m, i) => i === index || !m ? [] : m.lessons.map(l => l.id)));
+      const module = await checkGeneratedModule(current.request, generated, current.outline!.modules[index], `modules[${index}]`, taken, checks());
+      const modules = [...current.modules];
+      modules[index] = module;
+      await commit({ ...current, modules });
+      onEvent?.({ type: 'stage_done', stage, draft: current });
+    }
+    // Inside the try, so an inconsistent course fails like any other stage
+    return buildCourse(current);
+  } catch (error) {
+    const cancelled = isCancellation(error, signal);
+    const message = cancelled ? 'Generation was cancelled.' : error instanceof Error ? error.message : String(error);
+    await commit({ ...current, error: message });
+    onEvent?.({ type: 'stage_failed', stage, draft: current, message, cancelled });
+    throw error;
+  }
+};
+
+// What the progress screen shows, folded from the events above
+export interface GenerationStatus {
+  draft: GenerationDraft;
+  running: boolean;
+  stage?: GenerationStage;
+  receivedChars: number;
+  checking?: { lessonTitle: string; repairing: boolean };
+  error?: string;
+  cancelled?: boolean;
+}
+
+export const applyGenerationEvent = (status: GenerationStatus, event: GenerationEvent): GenerationStatus => {
+  switch (event.type) {
+    case 'stage_started': return { ...status, running: true, stage: event.stage, receivedChars: 0, checking: undefined, error: undefined, cancelled: false };
+    case 'stage_progress': return { ...status, receivedChars: event.receivedChars };
+    case 'stage_checking': return { ...status, checking: { lessonTitle: event.lessonTitle, repairing: event.repairing } };
+    case 'stage_done': return { ...status, draft: event.draft, receivedChars: 0, checking: undefined };
+    case 'stage_failed': return { ...status, draft: event.draft, running: false, checking: undefined, error: event.message, cancelled: event.cancelled };
+  }
+};
@@ -0,0 +1,207 @@
+import { Course, CourseIssue, Lesson, LessonAssertion, Module, QuizQuestion } from '../types';
+import { CourseValidationError, validateCourse, withUniqueIds } from './courseValidation';
+
+// Hand-written courses. A course is one Markdown file, or a folder of them
+// read in file-name order. Front-matter blocks start the course, each module
+// and each lesson; a lesson's body holds its concept, its instructions and
+// fenced blocks tagged initialCode, solutionCode, tests and quiz. See the README
+// for the format and fixtures/courses for a complete example.
+
+export interface MarkdownSource {
+  name: string;
+  content: string;
+}
+
+type BlockKind = 'course' | 'module' | 'lesson';
+
+const KEYS: Record<BlockKind, string[]> = {
+  course: ['course', 'id', 'description', 'outcome', 'visual'],
+  module: ['module', 'id', 'description'],
+  lesson: ['lesson', 'id', 'description', 'concept', 'targetFile'],
+};
+
+const CODE_TAGS = ['initialCode', 'solutionCode', 'tests', 'quiz'] as const;
+type CodeTag = typeof CODE_TAGS[number];
+
+interface Block {
+  kind: BlockKind;
+  fields: Record<string, string>;
+  body: string[];
+  where: string; // "file.md:12", for error messages
+}
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const unquote = (value: string) => {
+  const v = value.trim();
+  return /^(["']).*\1$/.test(v) ? v.slice(1, -1) : v;
+};
+
+const FIELD = /^([A-Za-z]+)\s*:\s*(.*)$/;
+const FENCE = /^(`{3,}|~{3,})\s*(.*)$/;
+
+// A "---" line only opens front-matter when the next line names a course, module or lesson,
+// so horizontal rules inside lesson text keep working
+const opensBlock = (lines: string[], i: number): BlockKind | null => {
+  if (lines[i].trim() !== '---') return null;
+  const key = FIELD.exec(lines[i + 1]?.trim() || '')?.[1];
+  return key === 'course' || key === 'module' || key === 'lesson' ? key : null;
+};
+
+const splitBlocks = ({ name, content }: MarkdownSource, issues: CourseIssue[]): Block[] => {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let fence = '';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const kind = fence ? null : opensBlock(lines, i);
+    if (!kind) {
+      const marker = FENCE.exec(line.trim())?.[1];
+      if (marker && (!fence || (marker[0] === fence[0] && marker.length >= fence.length && !line.trim().slice(marker.length).trim()))) {
+        fence = fence ? '' : marker;
+      }
+      if (blocks.length) blocks[blocks.length - 1].body.push(line);
+      else if (line.trim()) issues.push({ path: `${name}:${i + 1}`, message: 'Text before the first front-matter block is ignored' });
+      continue;
+    }
+
+    const block: Block = { kind, fields: {}, body: [], where: `${name}:${i + 1}` };
+    let j = i + 1;
+    for (; j < lines.length && lines[j].trim() !== '---'; j++) {
+      if (!lines[j].trim() || lines[j].trim().startsWith('#')) continue;
+      const match = FIELD.exec(lines[j].trim());
+      if (!match) { issues.push({ path: `${name}:${j + 1}`, message: `Expected "key: value" in the ${kind} front-matter` }); continue; }
+      if (!KEYS[kind].includes(match[1])) issues.push({ path: `${name}:${j + 1}`, message: `Unknown ${kind} field "${match[1]}" (expected one of ${KEYS[kind].join(', ')})` });
+      else block.fields[match[1]] = unquote(match[2]);
+    }
+    if (j >= lines.length) issues.push({ path: block.where, message: `The ${kind} front-matter is never closed with "---"` });
+    blocks.push(block);
+    i = j;
+  }
+  if (fence) issues.push({ path: name, message: `A ${fence} code block is never closed` });
+  return blocks;
+};
+
+// Pulls the tagged code blocks out of a lesson body and splits the rest at "## Instructions"
+const readLessonBody = (block: Block, issues: CourseIssue[]) => {
+  const code: Partial<Record<CodeTag, string>> = {};
+  const text: string[] = [];
+  const lines = block.body;
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = FENCE.exec(lines[i].trim());
+    if (!open) { text.push(lines[i]); continue; }
+    let end = i + 1;
+    while (end < lines.length && !(lines[end].trim().startsWith(open[1]) && !lines[end].trim().slice(open[1].length).trim())) end++;
+    const tag = CODE_TAGS.find(t => open[2].split(/\s+/).includes(t));
+    if (tag) {
+      if (code[tag] !== undefined) issues.push({ path: block.where, message: `Lesson "${block.fields.lesson}" has two ${tag} blocks` });
+      code[tag] = lines.slice(i + 1, end).join('\n');
+    } else {
+      text.push(...lines.slice(i, end + 1));
+    }
+    i = end;
+  }
+
+  const heading = text.findIndex(l => /^#{1,3}\s+instructions\s*$/i.test(l.trim()));
+  const before = (heading === -1 ? [] : text.slice(0, heading)).join('\n').trim();
+  const after = (heading === -1 ? text : text.slice(heading + 1)).join('\n').trim();
+  return { code, concept: before, instructions: after };
+};
+
+// The tests and quiz blocks are JSON lists
+const readJsonList = <T>(source: string | undefined, tag: 'tests' | 'quiz', block: Block, issues: CourseIssue[]): T[] | undefined => {
+  if (source === undefined) return undefined;
+  try {
+    const parsed = JSON.parse(source);
+    if (Array.isArray(parsed)) return parsed;
+    issues.push({ path: block.where, message: `The ${tag} of "${block.fields.lesson}" must be a JSON list of ${tag === 'tests' ? 'checks' : 'questions'}` });
+  } catch (e) {
+    issues.push({ path: block.where, message: `The ${tag} of "${block.fields.lesson}" are not valid JSON: ${e instanceof Error ? e.message : e}` });
+  }
+  return undefined;
+};
+
+/**
+ * Builds a course from Markdown. Several sources are read as one course in
+ * file-name order (01-intro.md, 02-styles.md, ...). A lesson without an
+ * initialCode block starts from the previous lesson's solution. Throws a
+ * CourseValidationError listing every problem found.
+ */
+export const parseCourseMarkdown = (input: string | MarkdownSource[]): Course => {
+  const sources = typeof input === 'string'
+    ? [{ name: 'course.md', content: input }]
+    : [...input].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  const issues: CourseIssue[] = [];
+  const blocks = sources.flatMap(source => splitBlocks(source, issues));
+
+  const head = blocks[0]?.kind === 'course' ? blocks[0] : null;
+  if (!head) issues.push({ path: sources[0]?.name || 'course.md', message: 'The course must start with a front-matter block containing "course: <title>"' });
+  blocks.slice(1).filter(b => b.kind === 'course').forEach(b => issues.push({ path: b.where, message: 'Only one course block is allowed' }));
+
+  const modules: Module[] = [];
+  const origins = new Map<Lesson, string>(); // Where each lesson was written, for error messages
+  let previousSolution = '';
+  for (const block of blocks) {
+    if (block.kind === 'module') {
+      modules.push({ id: block.fields.id || `mod-${slug(block.fields.module)}`, title: block.fields.module, description: block.fields.description || block.body.join('\n').trim() || block.fields.module, lessons: [] });
+      continue;
+    }
+    if (block.kind !== 'lesson') continue;
+    if (modules.length === 0) modules.push({ id: 'mod-lessons', title: 'Lessons', description: head?.fields.course || 'Lessons', lessons: [] });
+
+    const { code, concept, instructions } = readLessonBody(block, issues);
+    const title = block.fields.lesson;
+    const lesson: Lesson = {
+      id: block.fields.id || `les-${slug(title)}`,
+      title,
+      description: block.fields.description || title,
+      concept: block.fields.concept || concept,
+      instructions,
+      initialCode: code.initialCode ?? previousSolution,
+      solutionCode: code.solutionCode ?? '',
+      targetFile: block.fields.targetFile,
+      assertions: readJsonList<LessonAssertion>(code.tests, 'tests', block, issues),
+      quiz: readJsonList<QuizQuestion>(code.quiz, 'quiz', block, issues),
+      completed: false,
+    };
+    if (lesson.assertions?.every(a => typeof a === 'object' && a)) lesson.assertions = withUniqueIds(lesson.assertions, new Set(), k => `chk-${lesson.id}-${k}`);
+    if (lesson.quiz?.every(q => typeof q === 'object' && q)) lesson.quiz = withUniqueIds(lesson.quiz, new Set(), k => `quiz-${lesson.id}-${k}`);
+    if (!instructions) issues.push({ path: block.where, message: `Lesson "${title}" has no instructions` });
+    previousSolution = lesson.solutionCode || previousSolution;
+    modules[modules.length - 1].lessons.push(lesson);
+    origins.set(lesson, block.where);
+  }
+
+  const lessonIds = new Set<string>();
+  const course: Course = {
+    id: head?.fields.id || crypto.randomUUID(),
+    title: head?.fields.course || '',
+    description: head?.fields.description || head?.body.join('\n').trim() || '',
+    finalOutcomeDescription: head?.fields.outcome || '',
+    visualDescription: head?.fields.visual,
+    modules: withUniqueIds(modules, new Set(), i => `mod-${i}`).map(m => ({ ...m, lessons: withUniqueIds(m.lessons, lessonIds, j => `les-${m.id}-${j}`) })),
+    createdAt: Date.now(),
+    lastAccessed: Date.now(),
+  };
+
+  // Point content problems at the lesson's front-matter rather than at modules[i].lessons[j]
+  const whereById = new Map(course.modules.flatMap((m, i) => m.lessons.map((l, j) => [l.id, origins.get(modules[i].lessons[j])] as const)));
+  issues.push(...validateCourse(course).map(issue => {
+    const where = issue.lessonId && whereById.get(issue.lessonId);
+    return where ? { ...issue, path: `${where} (${issue.path})` } : issue;
+  }));
+  if (issues.length) throw new CourseValidationError('The Markdown course has problems', issues);
+  return course;
+};
+
+/**
+ * Reads Markdown the learner imports as a new course. Like a course package it
+ * always gets a fresh id, so importing the same file twice never overwrites the
+ * first copy; the front-matter id is only kept by parseCourseMarkdown.
+ */
+export const importCourseMarkdown = (input: string | MarkdownSource[]): Course => ({
+  ...parseCourseMarkdown(input),
+  id: crypto.randomUUID(),
+});
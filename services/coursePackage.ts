@@ -0,0 +1,162 @@
+import { CodeFile, Course, LessonOutcome, Module, QuizResult } from '../types';
+import { CourseValidationError, validateCourse, withUniqueIds } from './courseValidation';
+
+// Portable course files, so a course built once can be handed to a whole
+// class. A package is versioned JSON; importing always creates a new course,
+// with fresh ids, so the same file can be imported any number of times.
+
+export const PACKAGE_FORMAT = 'zephyr-course';
+export const PACKAGE_VERSION = 1;
+
+export interface PackagedProgress {
+  lessonId: string;
+  completed: boolean;
+  outcome?: LessonOutcome;
+  quizResult?: QuizResult;
+  userFiles?: CodeFile[];
+  userCode?: string;
+}
+
+export interface CoursePackage {
+  format: typeof PACKAGE_FORMAT;
+  version: number;
+  exportedAt: number;
+  course: Pick<Course, 'id' | 'title' | 'description' | 'finalOutcomeDescription' | 'visualDescription' | 'request' | 'modules'>;
+  progress?: PackagedProgress[]; // Only when the exporter chose to include it
+  previewImage?: string;
+}
+
+export interface ExportOptions {
+  includeProgress: boolean;
+  includeImage: boolean;
+}
+
+export class CoursePackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CoursePackageError';
+  }
+}
+
+export const exportCourse = (course: Course, { includeProgress, includeImage }: ExportOptions): CoursePackage => {
+  const progress: PackagedProgress[] = [];
+  const modules: Module[] = course.modules.map(m => ({
+    ...m,
+    lessons: m.lessons.map(({ userCode, userFiles, completed, outcome, quizResult, ...lesson }) => {
+      if (completed || outcome || quizResult || userCode || userFiles) progress.push({ lessonId: lesson.id, completed, outcome, quizResult, userFiles, userCode });
+      return { ...lesson, completed: false };
+    }),
+  }));
+  return {
+    format: PACKAGE_FORMAT,
+    version: PACKAGE_VERSION,
+    exportedAt: Date.now(),
+    course: {
+      id: course.id,
+      title: course.title,
+      description: course.description,
+      finalOutcomeDescription: course.finalOutcomeDescription,
+      visualDescription: course.visualDescription,
+      request: course.request,
+      modules,
+    },
+    progress: includeProgress && progress.length ? progress : undefined,
+    previewImage: includeImage ? course.previewImage : undefined,
+  };
+};
+
+const fileName = (course: Course) =>
+  `${course.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'course'}.zephyr.json`;
+
+export const downloadCoursePackage = (course: Course, options: ExportOptions) => {
+  const blob = new Blob([JSON.stringify(exportCourse(course, options), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName(course);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Reading
+
+// PACKAGE_MIGRATIONS[n] upgrades a package at version n - 1 to version n.
+// Before packages existed a course could only be copied out of the old
+// codespark_courses_v1 localStorage key: a bare Course (or a list of them),
+// which is read as version 0.
+const PACKAGE_MIGRATIONS: Record<number, (pkg: Record<string, unknown>) => Record<string, unknown>> = {
+  1: (course) => exportCourse(course as unknown as Course, { includeProgress: true, includeImage: true }) as unknown as Record<string, unknown>,
+};
+
+/** Parses a package file, upgrading older versions. Throws CoursePackageError if it is not one. */
+export const parseCoursePackage = (text: string): CoursePackage => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new CoursePackageError('This file is not a course package (it is not valid JSON).');
+  }
+  if (Array.isArray(value)) {
+    if (value.length !== 1) throw new CoursePackageError(`This file holds ${value.length} courses; export them one at a time.`);
+    value = value[0];
+  }
+  if (typeof value !== 'object' || value === null) throw new CoursePackageError('This file is not a course package.');
+
+  let pkg = value as Record<string, unknown>;
+  let version: number;
+  if (pkg.format === PACKAGE_FORMAT) {
+    version = pkg.version as number;
+    if (!Number.isInteger(version) || version < 1) throw new CoursePackageError(`Unknown package version "${pkg.version}".`);
+    if (version > PACKAGE_VERSION) throw new CoursePackageError(`This course was exported by a newer version of Zephyr (package version ${version}). Update the app to import it.`);
+  } else if (Array.isArray(pkg.modules) && pkg.modules.every(m => Array.isArray(m?.lessons))) {
+    version = 0;
+  } else {
+    throw new CoursePackageError('This file is not a course package.');
+  }
+  for (let v = version + 1; v <= PACKAGE_VERSION; v++) pkg = PACKAGE_MIGRATIONS[v](pkg);
+
+  const result = pkg as unknown as CoursePackage;
+  if (typeof result.course !== 'object' || result.course === null) throw new CoursePackageError('The package does not contain a course.');
+  return result;
+};
+
+/**
+ * Turns a package into a new course: a fresh course id, module and lesson ids
+ * made unique, and any packaged progress moved onto the renamed lessons.
+ * Throws CourseValidationError if the content is broken.
+ */
+export const importCoursePackage = (pkg: CoursePackage): Course => {
+  const modules = Array.isArray(pkg.course.modules) ? pkg.course.modules : [];
+  const lessonIds = new Set<string>();
+  const renamed = new Map<string, string>();
+  const course: Course = {
+    ...pkg.course,
+    id: crypto.randomUUID(),
+    previewImage: typeof pkg.previewImage === 'string' ? pkg.previewImage : undefined,
+    createdAt: Date.now(),
+    lastAccessed: Date.now(),
+    modules: withUniqueIds(modules, new Set(), i => `mod-${i}`).map(m => ({
+      ...m,
+      lessons: withUniqueIds(Array.isArray(m.lessons) ? m.lessons : [], lessonIds, j => `les-${m.id}-${j}`).map((l, j) => {
+        const original = m.lessons[j]?.id;
+        if (original && !renamed.has(original)) renamed.set(original, l.id);
+        return { ...l, completed: false, outcome: undefined, quizResult: undefined, userCode: undefined, userFiles: undefined };
+      }),
+    })),
+  };
+
+  const issues = validateCourse(course);
+  if (issues.length) throw new CourseValidationError('The imported course is broken', issues);
+
+  const progress = new Map((pkg.progress || []).map(p => [renamed.get(p.lessonId) || p.lessonId, p]));
+  return {
+    ...course,
+    modules: course.modules.map(m => ({
+      ...m,
+      lessons: m.lessons.map(l => {
+        const saved = progress.get(l.id);
+        return saved ? { ...l, completed: !!saved.completed, outcome: saved.outcome, quizResult: saved.quizResult, userFiles: saved.userFiles, userCode: saved.userCode } : l;
+      }),
+    })),
+  };
+};
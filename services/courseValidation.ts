@@ -0,0 +1,260 @@
+import { AssertionKind, Course, CourseIssue, CourseOutline, Lesson, LessonAssertion, Module, QuizKind, QuizQuestion } from '../types';
+import { runLessonTests } from './lessonTests';
+
+// Runtime checks for course content that came from outside the type system
+// (a model's JSON, an imported file). Structural checks are synchronous;
+// checking that each solution passes its lesson needs a browser.
+
+export class CourseValidationError extends Error {
+  issues: CourseIssue[];
+
+  constructor(summary: string, issues: CourseIssue[]) {
+    super(`${summary}: ${issues.slice(0, 3).map(i => i.message).join('; ')}${issues.length > 3 ? ` (and ${issues.length - 3} more)` : ''}`);
+    this.name = 'CourseValidationError';
+    this.issues = issues;
+  }
+}
+
+const ASSERTION_KINDS: AssertionKind[] = ['exists', 'text', 'style', 'event', 'console'];
+const QUIZ_KINDS: QuizKind[] = ['choice', 'blank'];
+const TARGET_FILES = ['index.html', 'style.css', 'script.js'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireText = (issues: CourseIssue[], value: Record<string, unknown>, field: string, path: string, extra: Partial<CourseIssue> = {}) => {
+  const text = value[field];
+  if (typeof text !== 'string' || !text.trim()) issues.push({ path: `${path}.${field}`, message: `${field} is missing`, ...extra });
+};
+
+// --- Markup
+
+const VOID_ELEMENTS = new Set(['!doctype', 'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+// Elements whose end tag HTML lets you leave out
+const OPTIONAL_END = new Set(['html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'colgroup', 'caption', 'rp', 'rt']);
+const RAW_TEXT = new Set(['script', 'style', 'textarea', 'title']);
+const TAG_START = /<(\/?)(!doctype|[a-zA-Z][\w-]*)/iy;
+
+/**
+ * Finds markup a browser would silently mangle: unterminated tags and
+ * comments, and elements that are never closed or closed out of order.
+ * Browsers accept almost anything, so this is stricter on purpose.
+ */
+export const findMarkupProblems = (code: string): string[] => {
+  const problems: string[] = [];
+  const open: { name: string; line: number }[] = [];
+  const lineAt = (index: number) => code.slice(0, index).split('\n').length;
+  let i = 0;
+
+  while (i < code.length) {
+    const lt = code.indexOf('<', i);
+    if (lt === -1) break;
+    if (code.startsWith('<!--', lt)) {
+      const end = code.indexOf('-->', lt + 4);
+      if (end === -1) { problems.push(`The comment on line ${lineAt(lt)} is never closed`); break; }
+      i = end + 3;
+      continue;
+    }
+    TAG_START.lastIndex = lt;
+    const match = TAG_START.exec(code);
+    if (!match) { i = lt + 1; continue; } // A literal "<" in text
+
+    // Find the tag's ">" outside quoted attribute values
+    let end = lt + match[0].length;
+    let quote = '';
+    for (; end < code.length; end++) {
+      const c = code[end];
+      if (quote) { if (c === quote) quote = ''; }
+      else if (c === '"' || c === "'") quote = c;
+      else if (c === '>') break;
+    }
+    const name = match[2].toLowerCase();
+    const line = lineAt(lt);
+    if (end >= code.length) { problems.push(`The <${name}> tag on line ${line} is missing its closing ">"`); break; }
+    i = end + 1;
+
+    if (match[1]) {
+      let openIndex = open.length - 1;
+      while (openIndex >= 0 && open[openIndex].name !== name) openIndex--;
+      if (openIndex === -1) {
+        if (!OPTIONAL_END.has(name)) problems.push(`</${name}> on line ${line} has no matching <${name}>`);
+        continue;
+      }
+      open.splice(openIndex).slice(1)
+        .filter(e => !OPTIONAL_END.has(e.name))
+        .forEach(e => problems.push(`<${e.name}> on line ${e.line} is not closed before </${name}> on line ${line}`));
+      continue;
+    }
+    if (VOID_ELEMENTS.has(name) || code[end - 1] === '/') continue;
+    open.push({ name, line });
+    if (RAW_TEXT.has(name)) {
+      // Skip the contents; "<" inside a script is not markup
+      const close = code.toLowerCase().indexOf(`</${name}`, i);
+      if (close === -1) { open.pop(); problems.push(`<${name}> on line ${line} is never closed`); break; }
+      i = close;
+    }
+  }
+
+  open.filter(e => !OPTIONAL_END.has(e.name)).forEach(e => problems.push(`<${e.name}> on line ${e.line} is never closed`));
+  return problems;
+};
+
+// --- Structure
+
+const validateAssertion = (assertion: unknown, path: string, lessonId?: string): CourseIssue[] => {
+  const issues: CourseIssue[] = [];
+  if (!isObject(assertion)) return [{ path, message: 'Check is not an object', lessonId }];
+  const a = assertion as Partial<LessonAssertion>;
+  const extra = { lessonId, assertionId: a.id };
+  requireText(issues, assertion, 'id', path, extra);
+  requireText(issues, assertion, 'description', path, extra);
+  if (!ASSERTION_KINDS.includes(a.kind as AssertionKind)) {
+    issues.push({ path: `${path}.kind`, message: `Check "${a.description || a.id}" has unknown kind "${a.kind}"`, ...extra });
+    return issues;
+  }
+  if (a.kind !== 'console') requireText(issues, assertion, 'selector', path, extra);
+  if (a.kind === 'text' || a.kind === 'console') requireText(issues, assertion, 'expected', path, extra);
+  if (a.kind === 'style') {
+    requireText(issues, assertion, 'property', path, extra);
+    requireText(issues, assertion, 'expected', path, extra);
+  }
+  return issues;
+};
+
+const validateQuizQuestion = (question: unknown, path: string, lessonId?: string): CourseIssue[] => {
+  const issues: CourseIssue[] = [];
+  if (!isObject(question)) return [{ path, message: 'Quiz question is not an object', lessonId }];
+  const q = question as Partial<QuizQuestion>;
+  requireText(issues, question, 'id', path, { lessonId });
+  requireText(issues, question, 'prompt', path, { lessonId });
+  if (!QUIZ_KINDS.includes(q.kind as QuizKind)) {
+    issues.push({ path: `${path}.kind`, message: `Quiz question "${q.prompt || q.id}" has unknown kind "${q.kind}"`, lessonId });
+    return issues;
+  }
+  const answers = Array.isArray(q.answers) ? q.answers.filter(a => typeof a === 'string' && a.trim()) : [];
+  if (answers.length === 0) issues.push({ path: `${path}.answers`, message: `Quiz question "${q.prompt || q.id}" has no answer`, lessonId });
+  if (q.kind === 'choice') {
+    const options = Array.isArray(q.options) ? q.options : [];
+    if (options.length < 2) issues.push({ path: `${path}.options`, message: `Quiz question "${q.prompt || q.id}" needs at least two options`, lessonId });
+    else if (answers.length > 0 && !options.includes(answers[0])) issues.push({ path: `${path}.answers`, message: `The answer to "${q.prompt || q.id}" is not one of its options`, lessonId });
+  }
+  if (q.kind === 'blank' && typeof q.prompt === 'string' && !q.prompt.includes('___')) {
+    issues.push({ path: `${path}.prompt`, message: `Fill-in question "${q.prompt}" has no ___ gap`, lessonId });
+  }
+  return issues;
+};
+
+export const validateLesson = (lesson: unknown, path: string): CourseIssue[] => {
+  if (!isObject(lesson)) return [{ path, message: 'Lesson is not an object' }];
+  const l = lesson as Partial<Lesson>;
+  const extra = { lessonId: l.id };
+  const issues: CourseIssue[] = [];
+  ['id', 'title', 'description', 'concept', 'instructions', 'solutionCode'].forEach(field => requireText(issues, lesson, field, path, extra));
+  if (typeof l.initialCode !== 'string') issues.push({ path: `${path}.initialCode`, message: 'initialCode is missing', ...extra });
+  if (l.targetFile !== undefined && !TARGET_FILES.includes(l.targetFile)) {
+    issues.push({ path: `${path}.targetFile`, message: `targetFile "${l.targetFile}" is not one of ${TARGET_FILES.join(', ')}`, ...extra });
+  }
+
+  if (l.assertions !== undefined) {
+    if (!Array.isArray(l.assertions)) issues.push({ path: `${path}.assertions`, message: 'assertions is not a list', ...extra });
+    else {
+      l.assertions.forEach((a, k) => issues.push(...validateAssertion(a, `${path}.assertions[${k}]`, l.id)));
+      const seen = new Set<string>();
+      l.assertions.forEach((a, k) => {
+        if (!a?.id) return;
+        if (seen.has(a.id)) issues.push({ path: `${path}.assertions[${k}].id`, message: `Check id "${a.id}" is used twice`, ...extra });
+        seen.add(a.id);
+      });
+    }
+  }
+
+  if (l.quiz !== undefined) {
+    if (!Array.isArray(l.quiz)) issues.push({ path: `${path}.quiz`, message: 'quiz is not a list', ...extra });
+    else l.quiz.forEach((q, k) => issues.push(...validateQuizQuestion(q, `${path}.quiz[${k}]`, l.id)));
+  }
+
+  (['initialCode', 'solutionCode'] as const).forEach(field => {
+    if (typeof l[field] !== 'string') return;
+    findMarkupProblems(l[field]!).forEach(problem => issues.push({ path: `${path}.${field}`, message: `${field}: ${problem}`, ...extra }));
+  });
+  if (typeof l.solutionCode === 'string' && l.solutionCode.trim() && l.solutionCode.trim() === l.initialCode?.trim()) {
+    issues.push({ path: `${path}.solutionCode`, message: 'The solution is identical to the starting code', ...extra });
+  }
+  return issues;
+};
+
+export const validateModule = (module: unknown, path: string): CourseIssue[] => {
+  if (!isObject(module)) return [{ path, message: 'Module is not an object' }];
+  const issues: CourseIssue[] = [];
+  ['id', 'title', 'description'].forEach(field => requireText(issues, module, field, path));
+  const lessons = (module as Partial<Module>).lessons;
+  if (!Array.isArray(lessons) || lessons.length === 0) issues.push({ path: `${path}.lessons`, message: `Module "${module.title || module.id}" has no lessons` });
+  else lessons.forEach((l, j) => issues.push(...validateLesson(l, `${path}.lessons[${j}]`)));
+  return issues;
+};
+
+const duplicateIds = (ids: { id: unknown; path: string }[], what: string): CourseIssue[] => {
+  const seen = new Set<unknown>();
+  return ids.flatMap(({ id, path }) => {
+    if (!id) return [];
+    const duplicate = seen.has(id);
+    seen.add(id);
+    return duplicate ? [{ path, message: `${what} id "${id}" is used twice` }] : [];
+  });
+};
+
+export const validateCourse = (course: unknown): CourseIssue[] => {
+  if (!isObject(course)) return [{ path: 'course', message: 'Course is not an object' }];
+  const issues: CourseIssue[] = [];
+  ['id', 'title', 'description'].forEach(field => requireText(issues, course, field, 'course'));
+  if (typeof course.finalOutcomeDescription !== 'string') issues.push({ path: 'course.finalOutcomeDescription', message: 'finalOutcomeDescription is missing' });
+  const modules = (course as Partial<Course>).modules;
+  if (!Array.isArray(modules) || modules.length === 0) return [...issues, { path: 'course.modules', message: 'Course has no modules' }];
+
+  modules.forEach((m, i) => issues.push(...validateModule(m, `modules[${i}]`)));
+  issues.push(...duplicateIds(modules.map((m, i) => ({ id: m?.id, path: `modules[${i}].id` })), 'Module'));
+  issues.push(...duplicateIds(modules.flatMap((m, i) => (Array.isArray(m?.lessons) ? m.lessons : []).map((l, j) => ({ id: l?.id, path: `modules[${i}].lessons[${j}].id` }))), 'Lesson'));
+  return issues;
+};
+
+export const validateOutline = (outline: unknown): CourseIssue[] => {
+  if (!isObject(outline)) return [{ path: 'outline', message: 'Outline is not an object' }];
+  const issues: CourseIssue[] = [];
+  ['title', 'description'].forEach(field => requireText(issues, outline, field, 'outline'));
+  const modules = (outline as Partial<CourseOutline>).modules;
+  if (!Array.isArray(modules) || modules.length === 0) return [...issues, { path: 'outline.modules', message: 'The outline has no modules' }];
+  modules.forEach((m, i) => {
+    const path = `outline.modules[${i}]`;
+    if (!isObject(m)) { issues.push({ path, message: 'Module is not an object' }); return; }
+    ['id', 'title'].forEach(field => requireText(issues, m, field, path));
+    if (!Array.isArray(m.lessons) || m.lessons.length === 0) issues.push({ path: `${path}.lessons`, message: `Module "${m.title || i + 1}" has no lessons` });
+    else m.lessons.forEach((l, j) => { if (isObject(l)) ['id', 'title'].forEach(field => requireText(issues, l, field, `${path}.lessons[${j}]`)); });
+  });
+  return issues;
+};
+
+// --- Ids
+
+// Fills in missing ids and renames duplicates, so ids never need a repair round trip
+export const withUniqueIds = <T extends { id: string }>(items: T[], taken: Set<string>, fallback: (index: number) => string): T[] =>
+  items.map((item, index) => {
+    const base = item.id?.trim() || fallback(index);
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    taken.add(id);
+    return id === item.id ? item : { ...item, id };
+  });
+
+// --- Behaviour
+
+/** Runs a lesson's checks against its own solution; each failing check is an issue. */
+export const checkLessonSolution = async (lesson: Lesson, path: string, runTests = runLessonTests): Promise<CourseIssue[]> => {
+  if (!lesson.assertions?.length) return [];
+  const results = await runTests(lesson.solutionCode, lesson.assertions);
+  return results.filter(r => !r.passed).map(r => ({
+    path: `${path}.solutionCode`,
+    lessonId: lesson.id,
+    assertionId: r.id,
+    message: `The solution fails the check "${r.description}": ${r.message}`,
+  }));
+};
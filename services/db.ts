@@ -0,0 +1,198 @@
+import { ActivityEvent, AppSettings, Badge, Course, LessonProgress } from '../types';
+
+// IndexedDB schema for everything the app keeps on the device. Bump
+// SCHEMA_VERSION and add a step to MIGRATIONS whenever the stores change.
+
+const DB_NAME = 'zephyr';
+export const SCHEMA_VERSION = 7;
+
+export type StoreName = 'courses' | 'progress' | 'images' | 'badges' | 'certificates' | 'settings' | 'tombstones' | 'activity' | 'drafts' | 'revisions' | 'reviews';
+
+// Course content without learner progress or the preview image
+export type CourseRecord = Omit<Course, 'previewImage'> & { updatedAt?: number };
+export interface ImageRecord { courseId: string; dataUrl: string; }
+export interface SettingRecord<T = unknown> { key: string; value: T; updatedAt?: number; }
+
+// What cloud sync exchanges: one row per course, lesson progress, badge or setting
+export type SyncTable = 'courses' | 'progress' | 'badges' | 'certificates' | 'settings' | 'activity' | 'reviews';
+
+export interface SyncRecord {
+  table: SyncTable;
+  id: string;
+  updatedAt: number; // Last modification in ms; the newer side wins a conflict
+  deleted?: boolean;
+  data?: unknown;
+}
+
+// Remembers deletions so sync can pass them on instead of restoring the row
+export interface TombstoneRecord { table: SyncTable; id: string; updatedAt: number; }
+
+// Keys written by the localStorage version of the app. The runtime config
+// (codespark_config_v1) is read before the database opens, so it stays put.
+export const LEGACY_KEYS = {
+  courses: 'codespark_courses_v1',
+  settings: 'codespark_settings_v1',
+  badges: 'codespark_badges_v1',
+};
+
+export const SETTINGS_KEY = 'app';
+
+export const splitCourse = (course: Course): { record: CourseRecord; progress: LessonProgress[]; image?: ImageRecord } => {
+  const { previewImage, ...rest } = course;
+  const progress: LessonProgress[] = [];
+  const record: CourseRecord = {
+    ...rest,
+    modules: course.modules.map(m => ({
+      ...m,
+      lessons: m.lessons.map(({ userCode, userFiles, completed, outcome, quizResult, ...lesson }) => {
+        if (completed || outcome || quizResult || userCode || userFiles) {
+          progress.push({ courseId: course.id, lessonId: lesson.id, completed, outcome, quizResult, userCode, userFiles, updatedAt: course.lastAccessed || Date.now() });
+        }
+        return { ...lesson, completed: false };
+      })
+    }))
+  };
+  return { record, progress, image: previewImage ? { courseId: course.id, dataUrl: previewImage } : undefined };
+};
+
+export const joinCourse = (record: CourseRecord, progress: LessonProgress[], image?: ImageRecord): Course => {
+  const byLesson = new Map(progress.map(p => [p.lessonId, p]));
+  return {
+    ...record,
+    previewImage: image?.dataUrl,
+    modules: record.modules.map(m => ({
+      ...m,
+      lessons: m.lessons.map(l => {
+        const saved = byLesson.get(l.id);
+        return saved ? { ...l, completed: saved.completed, outcome: saved.outcome, quizResult: saved.quizResult, userCode: saved.userCode, userFiles: saved.userFiles } : l;
+      })
+    }))
+  };
+};
+
+// Copies the old localStorage data into the new stores inside the upgrade
+// transaction. Returns the keys it read; unreadable ones are left in place.
+const importLegacyStorage = (tx: IDBTransaction): string[] => {
+  const imported: string[] = [];
+  const read = <T>(key: string): T | null => {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    try {
+      const value = JSON.parse(raw) as T;
+      imported.push(key);
+      return value;
+    } catch {
+      return null;
+    }
+  };
+
+  for (const course of read<Course[]>(LEGACY_KEYS.courses) || []) {
+    const { record, progress, image } = splitCourse(course);
+    tx.objectStore('courses').put(record);
+    progress.forEach(p => tx.objectStore('progress').put(p));
+    if (image) tx.objectStore('images').put(image);
+  }
+  for (const badge of read<Badge[]>(LEGACY_KEYS.badges) || []) tx.objectStore('badges').put(badge);
+  const settings = read<AppSettings>(LEGACY_KEYS.settings);
+  if (settings) tx.objectStore('settings').put({ key: SETTINGS_KEY, value: settings } as SettingRecord<AppSettings>);
+  return imported;
+};
+
+// MIGRATIONS[n] upgrades a database at version n - 1 to version n
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => string[] | void> = {
+  1: (db, tx) => {
+    db.createObjectStore('courses', { keyPath: 'id' });
+    const progress = db.createObjectStore('progress', { keyPath: ['courseId', 'lessonId'] });
+    progress.createIndex('courseId', 'courseId');
+    db.createObjectStore('images', { keyPath: 'courseId' });
+    db.createObjectStore('badges', { keyPath: 'id' });
+    db.createObjectStore('settings', { keyPath: 'key' });
+    return importLegacyStorage(tx);
+  },
+  2: (db) => {
+    db.createObjectStore('tombstones', { keyPath: ['table', 'id'] });
+  },
+  3: (db) => {
+    const activity = db.createObjectStore('activity', { keyPath: 'id' });
+    activity.createIndex('courseId', 'courseId');
+  },
+  4: (db) => {
+    db.createObjectStore('certificates', { keyPath: 'id' });
+  },
+  5: (db) => {
+    db.createObjectStore('drafts', { keyPath: 'id' });
+  },
+  6: (db) => {
+    const revisions = db.createObjectStore('revisions', { keyPath: 'id' });
+    revisions.createIndex('courseId', 'courseId');
+  },
+  7: (db) => {
+    const reviews = db.createObjectStore('reviews', { keyPath: 'id' });
+    reviews.createIndex('courseId', 'courseId');
+  },
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser does not support IndexedDB.'));
+      return;
+    }
+    let importedKeys: string[] = [];
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= SCHEMA_VERSION; version++) {
+        importedKeys = importedKeys.concat(MIGRATIONS[version](request.result, tx) || []);
+      }
+    };
+    request.onsuccess = () => {
+      // The upgrade committed, so the old copies can go and free their quota
+      importedKeys.forEach(key => localStorage.removeItem(key));
+      const db = request.result;
+      // A newer tab wants to upgrade; step aside so it is not blocked
+      db.onversionchange = () => { db.close(); dbPromise = null; };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Close other Zephyr tabs so the database can be upgraded.'));
+  });
+  // Let a later call retry instead of caching the failure
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+/**
+ * Runs `work` in one transaction and resolves once it has committed, so a
+ * write that later fails (e.g. on quota) rejects instead of looking saved.
+ */
+export const withStores = async <T>(names: StoreName[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => Promise<T>): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(names, mode);
+  const done = transactionDone(tx);
+  try {
+    const result = await work(tx);
+    await done;
+    return result;
+  } catch (e) {
+    done.catch(() => {}); // Already failing with `e`
+    try { tx.abort(); } catch { /* Already finished */ }
+    throw e;
+  }
+};
@@ -0,0 +1,129 @@
+// Line-based diffing and three-way merging for learner code.
+// Inputs are small (a single page of HTML), so a plain LCS table is fast enough.
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+  type: DiffOpType;
+  line: string;
+  aIndex?: number; // Line index in the old text (equal/delete)
+  bIndex?: number; // Line index in the new text (equal/insert)
+}
+
+export interface DiffHunk {
+  aStart: number; // First replaced line in the old text
+  aEnd: number; // One past the last replaced line (aStart === aEnd for pure inserts)
+  bStart: number;
+  bEnd: number;
+  removed: string[];
+  added: string[];
+}
+
+export const splitLines = (text: string): string[] => text.split('\n');
+
+export const diffLines = (oldText: string, newText: string): DiffOp[] => {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Trim the common prefix/suffix so the LCS table only covers the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const n = endA - start;
+  const m = endB - start;
+  const table: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = a[start + i] === b[start + j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  for (let k = 0; k < start; k++) ops.push({ type: 'equal', line: a[k], aIndex: k, bIndex: k });
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      ops.push({ type: 'equal', line: a[start + i], aIndex: start + i, bIndex: start + j });
+      i++; j++;
+    } else if (j < m && (i === n || table[i][j + 1] >= table[i + 1][j])) {
+      ops.push({ type: 'insert', line: b[start + j], bIndex: start + j });
+      j++;
+    } else {
+      ops.push({ type: 'delete', line: a[start + i], aIndex: start + i });
+      i++;
+    }
+  }
+  for (let k = 0; k < a.length - endA; k++) ops.push({ type: 'equal', line: a[endA + k], aIndex: endA + k, bIndex: endB + k });
+  return ops;
+};
+
+// Groups consecutive changes into hunks with positions in both texts
+export const diffHunks = (oldText: string, newText: string): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let aPos = 0;
+  let bPos = 0;
+
+  for (const op of diffLines(oldText, newText)) {
+    if (op.type === 'equal') {
+      if (current) { hunks.push(current); current = null; }
+      aPos++; bPos++;
+      continue;
+    }
+    if (!current) current = { aStart: aPos, aEnd: aPos, bStart: bPos, bEnd: bPos, removed: [], added: [] };
+    if (op.type === 'delete') { current.removed.push(op.line); current.aEnd = ++aPos; }
+    else { current.added.push(op.line); current.bEnd = ++bPos; }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+};
+
+/**
+ * Applies the changes between `base` and `theirs` on top of `ours`.
+ * Hunks that touch lines the learner has edited are skipped (ours wins) and
+ * counted as conflicts, so learner work is never overwritten.
+ */
+export const mergeLines = (base: string, ours: string, theirs: string): { merged: string; conflicts: number } => {
+  const oursLines = splitLines(ours);
+
+  // Where each untouched base line ended up in ours
+  const baseToOurs = new Map<number, number>();
+  for (const op of diffLines(base, ours)) {
+    if (op.type === 'equal') baseToOurs.set(op.aIndex!, op.bIndex!);
+  }
+
+  let conflicts = 0;
+  const hunks = diffHunks(base, theirs);
+  // Apply bottom-up so earlier indexes in ours stay valid
+  for (let h = hunks.length - 1; h >= 0; h--) {
+    const hunk = hunks[h];
+    if (hunk.aEnd > hunk.aStart) {
+      const first = baseToOurs.get(hunk.aStart);
+      const last = baseToOurs.get(hunk.aEnd - 1);
+      const contiguous = first !== undefined && last !== undefined && last - first === hunk.aEnd - 1 - hunk.aStart;
+      if (!contiguous) { conflicts++; continue; }
+      oursLines.splice(first!, last! - first! + 1, ...hunk.added);
+    } else {
+      const before = hunk.aStart > 0 ? baseToOurs.get(hunk.aStart - 1) : -1;
+      const after = baseToOurs.get(hunk.aStart);
+      const at = before !== undefined ? before + 1 : after;
+      if (at === undefined) { conflicts++; continue; }
+      oursLines.splice(at, 0, ...hunk.added);
+    }
+  }
+
+  return { merged: oursLines.join('\n'), conflicts };
+};
+
+// Applies the chosen hunks of diffHunks(oldText, newText) to oldText; the rest keep the old lines
+export const applyHunks = (oldText: string, hunks: DiffHunk[], accepted: boolean[]): string => {
+  const lines = splitLines(oldText);
+  for (let h = hunks.length - 1; h >= 0; h--) {
+    if (accepted[h]) lines.splice(hunks[h].aStart, hunks[h].aEnd - hunks[h].aStart, ...hunks[h].added);
+  }
+  return lines.join('\n');
+};
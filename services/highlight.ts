@@ -0,0 +1,132 @@
+// Small syntax highlighter for the code blocks in lesson text and chat. It
+// only needs to colour HTML, CSS and JavaScript well enough to read; it never
+// produces markup, just tokens the caller renders as text.
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'keyword' | 'number' | 'tag' | 'attr' | 'property' | 'punctuation';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+type Rule = [TokenType, RegExp];
+
+const JS_KEYWORDS = 'const|let|var|function|return|if|else|for|while|do|switch|case|break|continue|new|class|extends|import|from|export|default|await|async|this|true|false|null|undefined|of|in|try|catch|finally|throw|typeof|instanceof';
+
+// Rules are tried in order at each position; the first that matches wins
+const RULES: Record<'js' | 'css', Rule[]> = {
+  js: [
+    ['comment', /\/\/[^\n]*|\/\*[\s\S]*?\*\//y],
+    ['string', /'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"|`(?:\\.|[^`\\])*`/y],
+    ['keyword', new RegExp(`\\b(?:${JS_KEYWORDS})\\b`, 'y')],
+    ['number', /\b\d+(?:\.\d+)?\b/y],
+    ['property', /[A-Za-z_$][\w$]*(?=\s*\()/y],
+    ['plain', /[A-Za-z_$][\w$]*|\s+/y],
+    ['punctuation', /=>|[{}()[\];,.:=+\-*/<>!&|?%]/y],
+  ],
+  css: [
+    ['comment', /\/\*[\s\S]*?\*\//y],
+    ['string', /'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"/y],
+    ['keyword', /@[\w-]+|!important/y],
+    ['property', /[\w-]+(?=\s*:[^{};]*(?:;|}|$))/y],
+    ['number', /#[0-9a-fA-F]{3,8}\b|-?\b\d+(?:\.\d+)?(?:px|em|rem|%|s|ms|vh|vw|deg|fr)?\b/y],
+    ['plain', /[\w-]+|\s+/y],
+    ['punctuation', /[{}();:,.>#*+~[\]=]/y],
+  ],
+};
+
+const push = (tokens: Token[], type: TokenType, text: string) => {
+  if (!text) return;
+  const last = tokens[tokens.length - 1];
+  if (last && last.type === type) last.text += text;
+  else tokens.push({ type, text });
+};
+
+const tokenizeWith = (code: string, rules: Rule[], tokens: Token[] = []): Token[] => {
+  let i = 0;
+  while (i < code.length) {
+    let matched = false;
+    for (const [type, pattern] of rules) {
+      pattern.lastIndex = i;
+      const match = pattern.exec(code);
+      if (match && match[0]) {
+        push(tokens, type, match[0]);
+        i += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) push(tokens, 'plain', code[i++]);
+  }
+  return tokens;
+};
+
+const TAG = /<(\/?)([a-zA-Z][\w-]*)/y;
+const ATTRIBUTES = /\s+|[^\s=>"'/]+|=|"[^"]*"|'[^']*'|\/|/y;
+
+// Markup with its <style> and <script> contents highlighted as CSS and JS
+const tokenizeHtml = (code: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < code.length) {
+    if (code.startsWith('<!--', i)) {
+      const end = code.indexOf('-->', i);
+      const stop = end === -1 ? code.length : end + 3;
+      push(tokens, 'comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+    TAG.lastIndex = i;
+    const tag = code[i] === '<' ? TAG.exec(code) : null;
+    if (!tag) {
+      const next = code.indexOf('<', i + 1);
+      const stop = next === -1 ? code.length : next;
+      push(tokens, 'plain', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+    push(tokens, 'tag', tag[0]);
+    i += tag[0].length;
+    // Attributes up to the closing ">"
+    let expectValue = false;
+    while (i < code.length && code[i] !== '>') {
+      ATTRIBUTES.lastIndex = i;
+      const part = ATTRIBUTES.exec(code)![0] || code[i];
+      if (/^\s+$/.test(part)) push(tokens, 'plain', part);
+      else if (part === '=') push(tokens, 'punctuation', part);
+      else if (expectValue || /^["']/.test(part)) push(tokens, 'string', part);
+      else push(tokens, part === '/' ? 'tag' : 'attr', part);
+      if (!/^\s+$/.test(part)) expectValue = part === '=';
+      i += part.length;
+    }
+    if (i < code.length) { push(tokens, 'tag', '>'); i++; }
+
+    const name = tag[2].toLowerCase();
+    if (!tag[1] && (name === 'script' || name === 'style')) {
+      const close = code.toLowerCase().indexOf(`</${name}`, i);
+      const stop = close === -1 ? code.length : close;
+      tokenizeWith(code.slice(i, stop), RULES[name === 'style' ? 'css' : 'js'], tokens);
+      i = stop;
+    }
+  }
+  return tokens;
+};
+
+const LANGUAGES: Record<string, (code: string) => Token[]> = {
+  html: tokenizeHtml,
+  xml: tokenizeHtml,
+  svg: tokenizeHtml,
+  css: code => tokenizeWith(code, RULES.css),
+  js: code => tokenizeWith(code, RULES.js),
+  javascript: code => tokenizeWith(code, RULES.js),
+  ts: code => tokenizeWith(code, RULES.js),
+  typescript: code => tokenizeWith(code, RULES.js),
+  json: code => tokenizeWith(code, RULES.js),
+  jsx: code => tokenizeWith(code, RULES.js),
+};
+
+/** Splits code into coloured tokens; unknown languages come back as one plain token. */
+export const highlightCode = (code: string, language: string): Token[] => {
+  const tokenize = LANGUAGES[language.toLowerCase()];
+  return tokenize ? tokenize(code) : [{ type: 'plain', text: code }];
+};
@@ -0,0 +1,70 @@
+import { CodeFile, Lesson } from '../types';
+import { buildProjectSteps, locateStep } from './learnerSteps';
+
+// The hint ladder: each level gives away a little more of the solution, all
+// worked out locally by comparing each of the learner's files with the same
+// file of the split-up solutionCode.
+
+export type HintLevel = 1 | 2 | 3 | 4;
+
+export const HINT_LEVELS: { level: HintLevel; label: string }[] = [
+  { level: 1, label: 'Nudge' },
+  { level: 2, label: 'Where it goes' },
+  { level: 3, label: 'Partial code' },
+  { level: 4, label: 'Solution' },
+];
+
+export interface Hint {
+  level: HintLevel;
+  text: string;
+  file?: string;
+  line?: number; // 1-based
+  code?: string; // Level 3: the missing line with its values blanked out
+}
+
+const BLANK = '___';
+
+// Keeps the shape of a line (tags, property names, brackets) and hides what goes in it
+export const maskLine = (line: string): string => {
+  const indent = line.match(/^\s*/)?.[0] ?? '';
+  const code = line.trim();
+  const masked = code
+    .replace(/(["'`])(?:\\.|(?!\1).)+\1/g, `$1${BLANK}$1`)
+    .replace(/>([^<>]*\S[^<>]*)</g, `>${BLANK}<`)
+    .replace(/^([^{}]+\{)([^{}]*:[^{}]*)(\}?)$/, (_, rule, body, close) => rule + body.replace(/([\w-]+\s*:\s*)[^;]+/g, `$1${BLANK}`) + close)
+    .replace(/^([\w-]+\s*:\s*)[^;{]+(;?)$/, `$1${BLANK}$2`)
+    .replace(/(=\s*)(?![\s"'`])[^;,)]+/, `$1${BLANK}`);
+  if (masked !== code || code.length <= 2) return indent + masked;
+  // Nothing to blank out, so show the first half
+  return indent + code.slice(0, Math.ceil(code.length / 2)) + BLANK;
+};
+
+// "Set `padding` to `16px`" names the property but not the value
+const withoutValues = (explanation: string) => {
+  let spans = 0;
+  return explanation.replace(/`[^`]*`/g, span => spans++ === 0 ? span : BLANK);
+};
+
+/**
+ * The hint at one level for the learner's current project. Below the full
+ * solution, returns null when every line of the solution is already there.
+ */
+export const buildHint = (level: HintLevel, lesson: Lesson, files: CodeFile[]): Hint | null => {
+  const missing = buildProjectSteps(lesson.solutionCode, files);
+  const next = missing[0];
+  if (level === 4) return { level, text: 'Compare your files with the solution and accept the changes you want.' };
+  if (!next) return null;
+  const remaining = `${missing.length} line${missing.length === 1 ? ' is' : 's are'} still missing.`;
+
+  switch (level) {
+    case 1:
+      return { level, text: `${remaining} Next, think about this: ${withoutValues(next.explanation)}` };
+    case 2: {
+      const point = locateStep(files, next, null);
+      if (!point) return { level, text: `${remaining} It goes in ${next.file}${next.context ? `, after \`${next.context.trim()}\`` : ', at the start'}.` };
+      return { level, ...point, text: `It goes in ${point.file} at line ${point.line}${next.context ? `, right after \`${next.context.trim()}\`` : ''}.` };
+    }
+    case 3:
+      return { level, code: maskLine(next.code), text: 'Fill in the blanks:' };
+  }
+};
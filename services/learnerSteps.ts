@@ -0,0 +1,392 @@
+import { CodeFile, LearnerStep } from '../types';
+import { diffLines } from './diff';
+import { findFile, splitIntoFiles } from './projectFiles';
+
+// Learner mode: building the typing steps for a lesson, and checking that a
+// step was typed where it belongs. Code is compared as a normalized character
+// stream (no comments, whitespace only where it separates two words, one quote
+// style) so formatting never matters, while every normalized character still
+// points back at the source for line/column feedback.
+
+interface Normalized {
+  text: string;
+  offsets: number[]; // Source offset of each character in `text`
+  markers: number[]; // Positions in `text` where a "Write code here" comment was...
+  markerOffsets: number[]; // ...and where it starts in the source
+}
+
+const WORD = /[\w$]/;
+const MARKER = /(<!--|\/\*|\/\/) Write code here/;
+
+// End of the comment starting at `i`, or -1. An unclosed comment runs to the end of the source.
+const commentEnd = (source: string, i: number): number => {
+  const close = (token: string, from: number) => {
+    const at = source.indexOf(token, from);
+    return at === -1 ? source.length : at + token.length;
+  };
+  if (source.startsWith('<!--', i)) return close('-->', i + 4);
+  if (source.startsWith('/*', i)) return close('*/', i + 2);
+  // "//" only starts a comment after whitespace or punctuation, so URLs like https://... survive
+  if (source.startsWith('//', i) && !/[\w:]/.test(source[i - 1] || '')) return close('\n', i) - (source.indexOf('\n', i) === -1 ? 0 : 1);
+  return -1;
+};
+
+export const normalizeCode = (source: string): Normalized => {
+  let text = '';
+  const offsets: number[] = [];
+  const markers: number[] = [];
+  const markerOffsets: number[] = [];
+  let pendingSpace = -1; // Source offset of skipped whitespace that may need to become one space
+
+  const emit = (char: string, offset: number) => {
+    if (pendingSpace !== -1 && WORD.test(char) && WORD.test(text[text.length - 1] || '')) { text += ' '; offsets.push(pendingSpace); }
+    pendingSpace = -1;
+    text += char;
+    offsets.push(offset);
+  };
+
+  for (let i = 0; i < source.length;) {
+    const end = commentEnd(source, i);
+    if (end !== -1) {
+      if (MARKER.test(source.slice(i, end))) { markers.push(text.length); markerOffsets.push(i); }
+      if (pendingSpace === -1) pendingSpace = i;
+      i = end;
+      continue;
+    }
+    const char = source[i];
+    if (/\s/.test(char)) {
+      if (pendingSpace === -1) pendingSpace = i;
+      i++;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const string = new RegExp(`^${char}(?:\\\\.|[^${char}\\\\\\n])*${char}`).exec(source.slice(i))?.[0];
+      if (string) {
+        // 'x' and "x" are the same string
+        const quote = string.slice(1, -1).includes('"') ? char : '"';
+        emit(quote, i);
+        for (let k = 1; k < string.length - 1; k++) { text += string[k]; offsets.push(i + k); }
+        text += quote;
+        offsets.push(i + string.length - 1);
+        i += string.length;
+        continue;
+      }
+    }
+    emit(char, i);
+    i++;
+  }
+  return { text, offsets, markers, markerOffsets };
+};
+
+const occurrences = (haystack: string, needle: string): number[] => {
+  const found: number[] = [];
+  for (let at = haystack.indexOf(needle); at !== -1 && needle; at = haystack.indexOf(needle, at + 1)) found.push(at);
+  return found;
+};
+
+const lineAndColumn = (source: string, offset: number) => {
+  const before = source.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+export interface StepPosition {
+  file: string;
+  offset: number; // Source offset just after the step's code
+}
+
+export interface StepCheck {
+  status: 'done' | 'typing' | 'mismatch' | 'waiting';
+  file?: string;
+  matched: number; // Source characters of step.code typed correctly so far
+  end?: StepPosition; // For 'done': where the next step should be looked for
+  expected?: string; // For 'mismatch': what the step needs next...
+  found?: string; // ...and what was typed instead
+  line?: number; // 1-based position of the mismatch in `file`
+  column?: number;
+}
+
+// Positions in `source.text` just after each occurrence of the context (or each marker)
+const anchorsIn = (source: Normalized, context: string) =>
+  context ? occurrences(source.text, context).map(at => at + context.length) : source.markers;
+
+// Source offset just after the normalized character before `at`
+const sourceEnd = (source: Normalized, at: number) => at > 0 ? source.offsets[at - 1] + 1 : 0;
+
+// Steps are typed in order, so the nearest spot after the previous step is the one that counts
+const nearestAnchor = (source: Normalized, anchors: number[], file: string, after?: StepPosition | null) => {
+  const following = after?.file === file ? anchors.findIndex(at => sourceEnd(source, at) >= after.offset) : -1;
+  return following === -1 ? 0 : following;
+};
+
+// The step's own file when it has one, else every file with the previous step's first
+const candidateFiles = (files: CodeFile[], step: LearnerStep, after?: StepPosition | null) => {
+  if (step.file) return files.filter(f => f.name === step.file);
+  return after ? [...files].sort((a, b) => (a.name === after.file ? -1 : b.name === after.file ? 1 : 0)) : files;
+};
+
+// Normalized position of the first character at or after a source offset
+const positionOf = (source: Normalized, offset: number) => {
+  const at = source.offsets.findIndex(o => o >= offset);
+  return at === -1 ? source.text.length : at;
+};
+
+interface Spot {
+  file: CodeFile;
+  source: Normalized;
+  at: number; // Where in `source.text` the step's code should start
+  before: string; // What followed the same spot when the step began
+}
+
+// Just after the context line (or the marker) nearest the previous step, in each file that has one
+const contextSpots = (files: CodeFile[], startFiles: CodeFile[], step: LearnerStep, context: string, after?: StepPosition | null): Spot[] =>
+  candidateFiles(files, step, after).flatMap(file => {
+    const source = normalizeCode(file.content);
+    const anchors = anchorsIn(source, context);
+    if (anchors.length === 0) return [];
+    const k = nearestAnchor(source, anchors, file.name, after);
+    const start = normalizeCode(findFile(startFiles, file.name)?.content ?? '');
+    const startAnchor = anchorsIn(start, context)[k];
+    return [{ file, source, at: anchors[k], before: startAnchor === undefined ? '' : start.text.slice(startAnchor) }];
+  });
+
+// With no context line or marker to go by, the step follows the previous one when that was in
+// the same file, or starts its own file. Without a file to put it in, there is no spot at all.
+const fallbackSpot = (files: CodeFile[], startFiles: CodeFile[], step: LearnerStep, after?: StepPosition | null): Spot | null => {
+  const file = findFile(files, step.file ?? after?.file ?? '');
+  if (!file) return null;
+  const source = normalizeCode(file.content);
+  const start = normalizeCode(findFile(startFiles, file.name)?.content ?? '');
+  const following = after?.file === file.name;
+  return { file, source, at: following ? positionOf(source, after.offset) : 0, before: start.text.slice(following ? positionOf(start, after.offset) : 0) };
+};
+
+const findSpots = (files: CodeFile[], startFiles: CodeFile[], step: LearnerStep, after?: StepPosition | null): Spot[] => {
+  const context = step.context?.trim() ? normalizeCode(step.context).text : '';
+  const spots = contextSpots(files, startFiles, step, context, after);
+  if (spots.length > 0) return spots;
+  const fallback = fallbackSpot(files, startFiles, step, after);
+  return fallback ? [fallback] : [];
+};
+
+const commonPrefix = (a: string, b: string) => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+};
+
+const commonSuffix = (a: string, b: string) => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+};
+
+const describeChar = (char: string | undefined) => char === undefined ? 'the end of the line' : char === ' ' ? 'a space' : char;
+
+/**
+ * Checks one learner step against the project. The step's code must follow
+ * its context line (or sit where the "Write code here" marker is), taking the
+ * first such spot after the previous step (`after`); the same line elsewhere
+ * does not count. When neither can be found, it must follow the previous step
+ * or start its file. What the learner typed there is found by comparing with
+ * the files as they were when the step began, so a wrong character is
+ * reported with its exact position.
+ */
+export const checkLearnerStep = (files: CodeFile[], startFiles: CodeFile[], step: LearnerStep, after?: StepPosition | null): StepCheck => {
+  const target = normalizeCode(step.code);
+  if (!target.text) return { status: 'done', matched: step.code.length, end: after ?? undefined };
+
+  let typing: { file: CodeFile; source: Normalized; at: number; typed: string } | null = null;
+  for (const { file, source, at, before } of findSpots(files, startFiles, step, after)) {
+    const rest = source.text.slice(at);
+    if (rest.startsWith(target.text)) {
+      return { status: 'done', file: file.name, matched: step.code.length, end: { file: file.name, offset: sourceEnd(source, at + target.text.length) } };
+    }
+    // New text at this spot: whatever comes before the code that was already there. An edit
+    // further along (past where it could still be the start of this step) is not typing here.
+    const typed = rest.slice(0, rest.length - commonSuffix(rest, before));
+    if (typed && !typing && commonPrefix(rest, before) <= commonPrefix(rest, target.text)) typing = { file, source, at, typed };
+  }
+  if (!typing) return { status: 'waiting', matched: 0 };
+
+  const { file, source, at, typed } = typing;
+  const length = commonPrefix(typed, target.text);
+  const matched = target.offsets[length] ?? step.code.length;
+  if (length === typed.length) return { status: 'typing', file: file.name, matched };
+  return {
+    status: 'mismatch',
+    file: file.name,
+    matched,
+    expected: describeChar(target.text[length]),
+    found: describeChar(typed[length]),
+    ...lineAndColumn(file.content, source.offsets[at + length]),
+  };
+};
+
+/** The file and 1-based line where the learner should type `step`, or null when nothing anchors it. */
+export const locateStep = (files: CodeFile[], step: LearnerStep, after?: StepPosition | null): { file: string; line: number } | null => {
+  const context = step.context?.trim() ? normalizeCode(step.context).text : '';
+  for (const file of candidateFiles(files, step, after)) {
+    const source = normalizeCode(file.content);
+    const anchors = anchorsIn(source, context);
+    if (anchors.length === 0) continue;
+    const k = nearestAnchor(source, anchors, file.name, after);
+    // On the line after the context, or on the marker's own line
+    return context
+      ? { file: file.name, line: lineAndColumn(file.content, sourceEnd(source, anchors[k])).line + 1 }
+      : { file: file.name, line: lineAndColumn(file.content, source.markerOffsets[k]).line };
+  }
+  // After the previous step, or at the top of the step's file
+  const fallback = fallbackSpot(files, files, step, after);
+  if (!fallback) return null;
+  const { file, source, at } = fallback;
+  return { file: file.name, line: at === 0 ? 1 : lineAndColumn(file.content, sourceEnd(source, at)).line + 1 };
+};
+
+// --- Building steps
+
+type StepLanguage = 'html' | 'css' | 'javascript';
+
+const TAG_PURPOSES: Record<string, string> = {
+  h1: 'the main heading', h2: 'a section heading', h3: 'a smaller heading', h4: 'a small heading',
+  p: 'a paragraph of text', a: 'a link', img: 'an image', button: 'a button', input: 'an input field',
+  label: 'a label for a form field', form: 'a form', textarea: 'a multi-line text box', select: 'a drop-down list', option: 'a choice in a drop-down list',
+  ul: 'a bulleted list', ol: 'a numbered list', li: 'a list item',
+  div: 'a container that groups elements', span: 'an inline piece of text you can style', section: 'a section of the page',
+  header: 'the header area', footer: 'the footer area', nav: 'a navigation area', main: 'the main content area', article: 'a self-contained article', aside: 'a side panel',
+  table: 'a table', tr: 'a table row', td: 'a table cell', th: 'a table heading cell',
+  strong: 'important (bold) text', em: 'emphasised (italic) text', br: 'a line break', hr: 'a dividing line',
+  canvas: 'a canvas to draw on', video: 'a video player', audio: 'an audio player',
+  style: 'a block of CSS', script: 'a block of JavaScript', link: 'a link to another file', meta: 'information about the page', title: 'the title shown in the browser tab',
+  html: 'the root of the page', head: 'the head, for information about the page', body: 'the body, which holds everything visible',
+};
+
+const PROPERTY_GROUPS: [RegExp, string][] = [
+  [/^(color|background|background-color|background-image|opacity)$/, 'changes its colours'],
+  [/^(margin|padding|gap)(-|$)/, 'controls the space around it'],
+  [/^(font|font-size|font-weight|font-family|font-style|line-height|text-align|text-decoration|text-transform|letter-spacing)$/, 'changes how its text looks'],
+  [/^(display|flex|flex-direction|justify-content|align-items|align-content|flex-wrap|grid|grid-template-columns|grid-template-rows|place-items)$/, 'controls the layout'],
+  [/^(width|height|max-width|min-width|max-height|min-height)$/, 'sets its size'],
+  [/^(border|border-radius|outline|box-shadow)(-|$)/, 'styles its edges'],
+  [/^(position|top|right|bottom|left|z-index)$/, 'positions it on the page'],
+  [/^(transition|animation|transform)(-|$)/, 'makes it move or change smoothly'],
+  [/^(cursor)$/, 'changes the mouse pointer over it'],
+];
+
+const describeSelector = (selector: string) => {
+  if (selector.startsWith('@media')) return 'Start a media query, so the rules inside only apply on matching screens.';
+  if (selector.startsWith('@keyframes')) return `Start the \`${selector.replace('@keyframes', '').trim()}\` animation keyframes.`;
+  const kind = /:(hover|focus|active)/.test(selector) ? 'while the element is hovered, focused or pressed'
+    : selector.startsWith('#') ? 'for the element with that id'
+    : selector.startsWith('.') ? 'for every element with that class'
+    : 'for those elements';
+  return `Start a CSS rule for \`${selector}\` ${kind}.`;
+};
+
+const explainCss = (line: string): string => {
+  const code = line.trim();
+  if (/^}/.test(code)) return 'Close the CSS rule.';
+  const rule = /^([^{]+)\{\s*(.*?)\}?$/.exec(code);
+  if (rule && !rule[2]) return describeSelector(rule[1].trim());
+  if (rule) return `${describeSelector(rule[1].trim()).slice(0, -1)} and set its styles in one line.`;
+  const declaration = /^([\w-]+)\s*:\s*(.+?);?$/.exec(code);
+  if (declaration) {
+    const effect = PROPERTY_GROUPS.find(([pattern]) => pattern.test(declaration[1]))?.[1] ?? 'styles the element';
+    return `Set \`${declaration[1]}\` to \`${declaration[2]}\`, which ${effect}.`;
+  }
+  return 'Type this CSS line.';
+};
+
+const explainJs = (line: string): string => {
+  const code = line.trim();
+  const event = /addEventListener\(\s*['"`](\w+)/.exec(code);
+  if (event) return `Listen for the \`${event[1]}\` event and run the code inside when it happens.`;
+  const variable = /^(const|let|var)\s+([\w$]+)/.exec(code);
+  if (variable && /querySelector|getElementById/.test(code)) return `Find the element on the page and keep it in \`${variable[2]}\`.`;
+  if (variable) return `Create ${variable[1] === 'const' ? 'a constant' : 'a variable'} called \`${variable[2]}\` to remember a value.`;
+  const fn = /^(?:async\s+)?function\s+([\w$]+)/.exec(code);
+  if (fn) return `Define a function called \`${fn[1]}\` you can run later.`;
+  if (/^if\s*\(/.test(code)) return 'Check a condition; the code inside only runs when it is true.';
+  if (/^}\s*else/.test(code)) return 'Add what happens when the condition is false.';
+  if (/^(for|while)\s*\(/.test(code)) return 'Start a loop that repeats the code inside.';
+  if (/^return\b/.test(code)) return 'Send a value back from the function.';
+  if (/console\.log/.test(code)) return 'Print a value to the console, to see what the code is doing.';
+  if (/\.(textContent|innerText|innerHTML)\s*=/.test(code)) return 'Change the text shown on the page.';
+  if (/\.classList\./.test(code)) return 'Add or remove a CSS class to change how the element looks.';
+  if (/\.style\./.test(code)) return 'Change one of the element\'s styles directly.';
+  if (/^[}\])]+[);,]*$/.test(code)) return 'Close the block you opened above.';
+  if (/^[\w$.]+\s*(\+\+|--|[+\-*/]?=)/.test(code)) return 'Update a value.';
+  if (/^[\w$.]+\(/.test(code)) return 'Call a function to make it run.';
+  return 'Type this JavaScript line.';
+};
+
+const explainHtml = (line: string): string => {
+  const code = line.trim();
+  const close = /^<\/([\w-]+)>$/.exec(code);
+  if (close) return `Close the <${close[1]}> element you opened above.`;
+  if (/^<!doctype/i.test(code)) return 'Tell the browser this is a modern HTML page.';
+  const open = /^<([\w-]+)([^>]*)>/.exec(code);
+  if (!open) return 'Add this text to the page.';
+  const tag = open[1].toLowerCase();
+  const purpose = TAG_PURPOSES[tag] ? `, ${TAG_PURPOSES[tag]}` : '';
+  const notes: string[] = [];
+  const id = /\bid=["']?([\w-]+)/.exec(open[2])?.[1];
+  if (id) notes.push(`The id "${id}" lets CSS and JavaScript find it.`);
+  if (/\bclass=/.test(open[2])) notes.push('The class lets CSS style it.');
+  if (/\b(href|src)=/.test(open[2])) notes.push(`The ${/\bhref=/.test(open[2]) ? 'href' : 'src'} says where it points.`);
+  return [`Add a <${tag}>${purpose}.`, ...notes].join(' ');
+};
+
+const EXPLAIN: Record<StepLanguage, (line: string) => string> = { html: explainHtml, css: explainCss, javascript: explainJs };
+
+const isCommentOnly = (line: string) => {
+  const code = line.trim();
+  return /^<!--.*-->$/.test(code) || /^\/\*.*\*\/$/.test(code) || code.startsWith('//');
+};
+
+// Which language each line is in; lines inside <style> and <script> are CSS and JavaScript
+const lineLanguages = (lines: string[], language: StepLanguage): StepLanguage[] => {
+  if (language !== 'html') return lines.map(() => language);
+  let mode: StepLanguage = 'html';
+  return lines.map(line => {
+    const current = /<\/(style|script)>/i.test(line) && mode !== 'html' ? 'html' : mode;
+    const opened = /<(style|script)\b[^>]*>(?![\s\S]*<\/\1>)/i.exec(line);
+    if (opened && !/\bsrc=/.test(line)) mode = opened[1].toLowerCase() === 'style' ? 'css' : 'javascript';
+    else if (/<\/(style|script)>/i.test(line)) mode = 'html';
+    return current;
+  });
+};
+
+/**
+ * Turns a lesson's solution into single-line typing steps without any AI.
+ * Only lines the solution adds to the starting code become steps; each gets
+ * the real preceding line as its context and an explanation built from what
+ * the line is (an element, a CSS property, an event listener...).
+ */
+export const buildLearnerSteps = (solutionCode: string, startingCode: string, language: StepLanguage = 'html'): LearnerStep[] => {
+  const lines = solutionCode.split('\n');
+  const languages = lineLanguages(lines, language);
+  const steps: LearnerStep[] = [];
+  let context: string | undefined;
+
+  for (const op of diffLines(startingCode, solutionCode)) {
+    if (op.type === 'delete') continue;
+    const line = op.line;
+    const meaningful = line.trim() !== '' && !isCommentOnly(line);
+    if (op.type === 'insert' && meaningful) {
+      steps.push({ code: line, explanation: EXPLAIN[languages[op.bIndex!]](line), context });
+    }
+    if (meaningful) context = line;
+  }
+  return steps;
+};
+
+/**
+ * Steps for a lesson in the multi-file workspace: the solution is split into
+ * files the way lessons are, and each file is compared with the learner's
+ * copy of it, so steps only ask for what that file is still missing.
+ */
+export const buildProjectSteps = (solutionCode: string, startFiles: CodeFile[]): LearnerStep[] =>
+  splitIntoFiles(solutionCode).flatMap(file =>
+    buildLearnerSteps(file.content, findFile(startFiles, file.name)?.content ?? '', file.language)
+      .map(step => ({ ...step, file: file.name }))
+  );
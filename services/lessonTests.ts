@@ -0,0 +1,150 @@
+import { AssertionResult, LessonAssertion } from '../types';
+
+const MESSAGE_SOURCE = 'zephyr-tests';
+const DEFAULT_TIMEOUT = 4000;
+
+// Runs before any learner script so console output is captured from the start
+const CONSOLE_CAPTURE = `<script>
+(function () {
+  var logs = window.__zephyrConsole = [];
+  ['log', 'info', 'warn', 'error'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      try { logs.push(Array.prototype.map.call(arguments, function (a) { return typeof a === 'string' ? a : JSON.stringify(a); }).join(' ')); } catch (e) {}
+      return original.apply(console, arguments);
+    };
+  });
+})();
+</script>`.replace(/\n\s*/g, ' '); // One line, so preview error line numbers are unaffected
+
+// Evaluated after the learner's page has loaded. Kept as plain ES5 so it runs
+// unchanged in whatever document the learner wrote.
+const RUNNER = `
+(function (assertions, runId) {
+  function wait(ms) { return new Promise(function (r) { setTimeout(r, ms); }); }
+  function matchesText(actual, expected) {
+    var re = /^\\/(.*)\\/([a-z]*)$/.exec(expected);
+    if (re) return new RegExp(re[1], re[2]).test(actual);
+    return actual.trim().toLowerCase().indexOf(expected.trim().toLowerCase()) !== -1;
+  }
+  function normalizeStyle(el, property, value) {
+    var probe = document.createElement(el.tagName);
+    probe.style.setProperty(property, value);
+    (el.parentNode || document.body).appendChild(probe);
+    var normalized = getComputedStyle(probe).getPropertyValue(property);
+    probe.remove();
+    return normalized;
+  }
+  function snapshot(el) {
+    return el ? [el.textContent, el.className, el.getAttribute('style'), el.value, el.childElementCount].join('|') : '';
+  }
+  function find(selector) {
+    try { return document.querySelector(selector); } catch (e) { return null; }
+  }
+  async function check(a) {
+    var el = a.selector ? find(a.selector) : null;
+    if (a.kind !== 'console' && !el) return [false, 'No element matches ' + a.selector];
+    if (a.kind === 'exists') return [true, 'Found ' + a.selector];
+    if (a.kind === 'text') {
+      var text = el.textContent || '';
+      return matchesText(text, a.expected || '') ? [true, 'Text matches'] : [false, 'Expected "' + a.expected + '" but found "' + text.trim().slice(0, 60) + '"'];
+    }
+    if (a.kind === 'style') {
+      var actual = getComputedStyle(el).getPropertyValue(a.property || '');
+      var expected = normalizeStyle(el, a.property || '', a.expected || '');
+      return actual === expected ? [true, a.property + ' is ' + a.expected] : [false, 'Expected ' + a.property + ' to be ' + a.expected + ' but it is ' + (actual || 'unset')];
+    }
+    if (a.kind === 'event') {
+      var watched = a.watchSelector ? find(a.watchSelector) : el;
+      if (!watched) return [false, 'No element matches ' + a.watchSelector];
+      var before = snapshot(watched);
+      if (a.event === 'click' && el.click) el.click();
+      else el.dispatchEvent(new Event(a.event || 'click', { bubbles: true }));
+      await wait(50);
+      if (a.expected) return matchesText(watched.textContent || '', a.expected) ? [true, 'Updated after ' + a.event] : [false, 'After ' + a.event + ', expected "' + a.expected + '"'];
+      return snapshot(watched) !== before ? [true, 'Page reacted to ' + a.event] : [false, 'Nothing changed after ' + a.event];
+    }
+    if (a.kind === 'console') {
+      var logs = window.__zephyrConsole || [];
+      return logs.some(function (line) { return matchesText(line, a.expected || ''); }) ? [true, 'Console printed "' + a.expected + '"'] : [false, 'Console never printed "' + a.expected + '"'];
+    }
+    return [false, 'Unknown check type ' + a.kind];
+  }
+  async function run() {
+    await wait(30);
+    var results = [];
+    for (var i = 0; i < assertions.length; i++) {
+      var a = assertions[i];
+      var outcome;
+      try { outcome = await check(a); } catch (e) { outcome = [false, 'Check crashed: ' + e.message]; }
+      results.push({ id: a.id, description: a.description, passed: outcome[0], message: outcome[1] });
+    }
+    parent.postMessage({ source: '${MESSAGE_SOURCE}', runId: runId, results: results }, '*');
+  }
+  if (document.readyState === 'complete') run(); else window.addEventListener('load', run);
+})`;
+
+// JSON is embedded in a <script>, so "<" must never close the tag early
+const toScriptLiteral = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const insertAfterOpeningTag = (code: string, tag: string, snippet: string): string | null => {
+  const match = new RegExp(`<${tag}[^>]*>`, 'i').exec(code);
+  if (!match) return null;
+  const at = match.index + match[0].length;
+  return code.slice(0, at) + snippet + code.slice(at);
+};
+
+/**
+ * Wraps learner code with the console capture and assertion runner. The
+ * returned document posts `{ source, runId, results }` to its parent when done.
+ */
+export const buildTestDocument = (code: string, assertions: LessonAssertion[], runId: string): string => {
+  const withCapture = insertAfterOpeningTag(code, 'head', CONSOLE_CAPTURE)
+    ?? insertAfterOpeningTag(code, 'html', CONSOLE_CAPTURE)
+    ?? CONSOLE_CAPTURE + code;
+  const runner = `<script>${RUNNER}(${toScriptLiteral(assertions)}, ${toScriptLiteral(runId)});</script>`;
+  const bodyClose = withCapture.search(/<\/body>(?![\s\S]*<\/body>)/i);
+  return bodyClose === -1 ? withCapture + runner : withCapture.slice(0, bodyClose) + runner + withCapture.slice(bodyClose);
+};
+
+const timedOutResults = (assertions: LessonAssertion[]): AssertionResult[] =>
+  assertions.map(a => ({ id: a.id, description: a.description, passed: false, message: 'The page did not finish loading in time.' }));
+
+// Resolves with the results posted by a document built with buildTestDocument,
+// taking them only from the iframe `getFrame` returns
+export const waitForTestResults = (runId: string, assertions: LessonAssertion[], getFrame: () => HTMLIFrameElement | null, timeoutMs = DEFAULT_TIMEOUT): Promise<AssertionResult[]> => {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      window.removeEventListener('message', handleMessage);
+      resolve(timedOutResults(assertions));
+    }, timeoutMs);
+
+    function handleMessage(event: MessageEvent) {
+      const data = event.data;
+      if (!data || data.source !== MESSAGE_SOURCE || data.runId !== runId) return;
+      if (event.source !== getFrame()?.contentWindow) return;
+      clearTimeout(timer);
+      window.removeEventListener('message', handleMessage);
+      resolve(data.results as AssertionResult[]);
+    }
+
+    window.addEventListener('message', handleMessage);
+  });
+};
+
+// Headless variant: runs the checks in a hidden sandboxed iframe
+export const runLessonTests = async (code: string, assertions: LessonAssertion[], timeoutMs = DEFAULT_TIMEOUT): Promise<AssertionResult[]> => {
+  if (assertions.length === 0) return [];
+  const runId = crypto.randomUUID();
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', 'allow-scripts');
+  iframe.style.cssText = 'position:absolute;width:1024px;height:768px;left:-10000px;top:0;visibility:hidden;';
+  const results = waitForTestResults(runId, assertions, () => iframe, timeoutMs);
+  iframe.srcdoc = buildTestDocument(code, assertions, runId);
+  document.body.appendChild(iframe);
+  try {
+    return await results;
+  } finally {
+    iframe.remove();
+  }
+};
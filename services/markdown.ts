@@ -0,0 +1,277 @@
+// Markdown for lesson text, concepts and mentor replies. Parses into a small
+// tree that components/Markdown.tsx renders as React elements, so nothing is
+// ever injected as HTML: raw tags in the source show up as text, and links
+// are limited to safe schemes.
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'break' };
+
+export type Align = 'left' | 'center' | 'right' | null;
+
+export type Block =
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { type: 'quote'; children: Block[] }
+  | { type: 'table'; align: Align[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'rule' };
+
+// --- Inline
+
+// Anything else (javascript:, data:, vbscript:) is dropped and the text kept
+export const safeHref = (href: string): string | null => {
+  const url = href.trim();
+  if (/^(https?:|mailto:)/i.test(url)) return url;
+  if (/^[#/.?]/.test(url) || !/^[a-z][a-z0-9+.-]*:/i.test(url)) return url;
+  return null;
+};
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>]/;
+
+const findClosing = (text: string, from: number, marker: string): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '`') {
+      // Markers inside code spans do not count
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) { i = end + run.length - 1; continue; }
+    }
+    if (text.startsWith(marker, i) && i > from) return i;
+  }
+  return -1;
+};
+
+// Finds the "]" matching the "[" at `open`, allowing nested brackets
+const closingBracket = (text: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '[') depth++;
+    else if (text[i] === ']' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): Inline[] => {
+  const out: Inline[] = [];
+  let buffer = '';
+  const flush = () => { if (buffer) { out.push({ type: 'text', text: buffer }); buffer = ''; } };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    const rest = text.slice(i);
+
+    if (c === '\\' && i + 1 < text.length) {
+      if (text[i + 1] === '\n') { flush(); out.push({ type: 'break' }); i++; continue; }
+      if (ESCAPABLE.test(text[i + 1])) { buffer += text[++i]; continue; }
+    }
+    if (c === '\n') {
+      if (/ {2,}$/.test(buffer)) { buffer = buffer.replace(/ +$/, ''); flush(); out.push({ type: 'break' }); }
+      else buffer += ' ';
+      continue;
+    }
+    if (c === '`') {
+      const run = /^`+/.exec(rest)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        flush();
+        const code = text.slice(i + run.length, end).replace(/\n/g, ' ');
+        out.push({ type: 'code', text: /^ .* $/.test(code) ? code.slice(1, -1) : code });
+        i = end + run.length - 1;
+        continue;
+      }
+      buffer += run;
+      i += run.length - 1;
+      continue;
+    }
+    if (c === '[') {
+      const close = closingBracket(text, i);
+      const target = close !== -1 ? /^\(\s*(<[^>]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+"[^"]*")?\s*\)/.exec(text.slice(close + 1)) : null;
+      if (target) {
+        flush();
+        const href = safeHref(target[1].replace(/^<|>$/g, ''));
+        const children = parseInline(text.slice(i + 1, close));
+        if (href !== null) out.push({ type: 'link', href, children });
+        else out.push(...children);
+        i = close + target[0].length;
+        continue;
+      }
+    }
+    if (c === '<') {
+      const auto = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i.exec(rest);
+      if (auto) {
+        flush();
+        out.push({ type: 'link', href: auto[1], children: [{ type: 'text', text: auto[1].replace(/^mailto:/i, '') }] });
+        i += auto[0].length - 1;
+        continue;
+      }
+    }
+    const emphasis = /^(\*\*|__|~~|\*|_)/.exec(rest)?.[1];
+    if (emphasis) {
+      // "_" only counts at word boundaries, so snake_case stays intact
+      const wordBefore = /\w/.test(text[i - 1] || '');
+      const opens = !/\s/.test(text[i + emphasis.length] || ' ') && !(emphasis[0] === '_' && wordBefore);
+      const end = opens ? findClosing(text, i + emphasis.length, emphasis) : -1;
+      const closesCleanly = end !== -1 && !/\s/.test(text[end - 1]) && !(emphasis[0] === '_' && /\w/.test(text[end + emphasis.length] || ''));
+      if (closesCleanly) {
+        flush();
+        const type = emphasis === '~~' ? 'del' : emphasis.length === 2 ? 'strong' : 'em';
+        out.push({ type, children: parseInline(text.slice(i + emphasis.length, end)) });
+        i = end + emphasis.length - 1;
+        continue;
+      }
+      buffer += emphasis;
+      i += emphasis.length - 1;
+      continue;
+    }
+    buffer += c;
+  }
+  flush();
+  return out;
+};
+
+// --- Blocks
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  const body = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '\\' && body[i + 1] === '|') { cell += '|'; i++; continue; }
+    if (body[i] === '|') { cells.push(cell.trim()); cell = ''; continue; }
+    cell += body[i];
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const startsBlock = (line: string, next?: string): boolean =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) ||
+  (line.includes('|') && !!next && TABLE_DIVIDER.test(next) && next.includes('-'));
+
+const parseLines = (lines: string[]): Block[] => {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const indent = line.length - line.trimStart().length;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i].trim().startsWith(fence[1]) && /^[`~]+$/.test(lines[i].trim()) && lines[i].trim().length >= fence[1].length)) {
+        body.push(lines[i].slice(Math.min(indent, lines[i].length - lines[i].trimStart().length)));
+        i++;
+      }
+      i++; // The closing fence (or the end of the text)
+      blocks.push({ type: 'code', language: fence[2].toLowerCase(), text: body.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] || '') });
+      i++;
+      continue;
+    }
+
+    // Before lists, since "---" and "* * *" look like list items too
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+        body.push(QUOTE.exec(lines[i])?.[1] ?? lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseLines(body) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const items: Block[][] = [];
+      while (i < lines.length) {
+        const current = LIST_ITEM.exec(lines[i]);
+        if (!current || /\d/.test(current[2]) !== ordered) break;
+        // Continuation lines are indented at least as far as the item's text
+        const contentIndent = current[1].length + current[2].length + Math.min(current[3].length || 1, 4);
+        const body = [current[4]];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          const indent = next.length - next.trimStart().length;
+          if (!next.trim()) {
+            const following = lines.slice(i + 1).find(l => l.trim());
+            if (following !== undefined && following.length - following.trimStart().length >= contentIndent) { body.push(''); i++; continue; }
+            break;
+          }
+          if (indent >= contentIndent) { body.push(next.slice(contentIndent)); i++; continue; }
+          if (LIST_ITEM.test(next) || startsBlock(next) || body[body.length - 1] === '') break;
+          body.push(next.trim()); // Lazy paragraph continuation
+          i++;
+        }
+        items.push(parseLines(body));
+        // A blank line between items keeps the list going
+        if (i < lines.length && !lines[i].trim()) {
+          const following = lines.slice(i).findIndex(l => l.trim());
+          const nextItem = following === -1 ? null : LIST_ITEM.exec(lines[i + following]);
+          if (nextItem && /\d/.test(nextItem[2]) === ordered && nextItem[1].length <= current[1].length + 1) { i += following; continue; }
+          break;
+        }
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, items });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitRow(line);
+      const align: Align[] = splitRow(lines[i + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, k) => parseInline(cells[k] || '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, k) => align[k] || null), header: header.map(h => parseInline(h)), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i], lines[i + 1]))) {
+      paragraph.push(lines[i].trimStart());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n').trimEnd()) });
+  }
+  return blocks;
+};
+
+export const parseMarkdown = (source: string): Block[] =>
+  parseLines(source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
@@ -0,0 +1,96 @@
+import { ConsoleEntry, ConsoleLevel } from '../types';
+import { ProjectBundle, resolveBundleLine } from './projectFiles';
+
+// Preview iframes are sandboxed without same-origin access, so console output
+// and uncaught errors are forwarded to the app with postMessage.
+
+const MESSAGE_SOURCE = 'zephyr-preview';
+
+// Kept on a single line and injected without newlines, so line numbers the
+// browser reports still match the document the learner's files were bundled into.
+const BRIDGE = `<script>(function () {
+  var post = function (data) { try { data.source = '${MESSAGE_SOURCE}'; parent.postMessage(data, '*'); } catch (e) {} };
+  var format = function (value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.name + ': ' + value.message;
+    try { return JSON.stringify(value); } catch (e) { return String(value); }
+  };
+  var callerLine = function () {
+    var frames = ((new Error().stack || '').match(/srcdoc:\\d+:\\d+/g) || []).map(function (f) { return f.split(':'); });
+    for (var i = 1; i < frames.length; i++) {
+      if (frames[i][1] !== frames[0][1]) return { line: Number(frames[i][1]), column: Number(frames[i][2]) };
+    }
+    return {};
+  };
+  ['log', 'info', 'warn', 'error'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var where = callerLine();
+      post({ kind: 'console', level: level, message: Array.prototype.map.call(arguments, format).join(' '), line: where.line, column: where.column });
+      return original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    post({ kind: 'error', message: event.message, line: event.lineno, column: event.colno, stack: event.error && event.error.stack });
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    var reason = event.reason;
+    post({ kind: 'error', message: 'Unhandled promise rejection: ' + format(reason), stack: reason && reason.stack });
+  });
+})();</script>`.replace(/\n\s*/g, ' ');
+
+interface PreviewMessage {
+  source: string;
+  kind: 'console' | 'error';
+  level?: ConsoleLevel;
+  message: string;
+  line?: number;
+  column?: number;
+  stack?: string;
+}
+
+// Adds the bridge right after <head> (or <html>) without shifting any lines
+export const withPreviewBridge = (doc: string): string => {
+  const match = /<head[^>]*>/i.exec(doc) || /<html[^>]*>/i.exec(doc);
+  if (!match) return BRIDGE + doc;
+  const at = match.index + match[0].length;
+  return doc.slice(0, at) + BRIDGE + doc.slice(at);
+};
+
+/**
+ * Listens for console output from one preview iframe. Locations are resolved
+ * to the learner's files when a bundle is given; lines that fall outside it
+ * (e.g. in injected harness code) are left without a location.
+ */
+export const listenToPreview = (
+  getFrame: () => HTMLIFrameElement | null,
+  getBundle: () => ProjectBundle | null,
+  onEntry: (entry: ConsoleEntry) => void
+): (() => void) => {
+  const handleMessage = (event: MessageEvent) => {
+    const data = event.data as PreviewMessage;
+    if (!data || data.source !== MESSAGE_SOURCE) return;
+    if (event.source !== getFrame()?.contentWindow) return;
+
+    const bundle = getBundle();
+    const resolved = bundle && data.line ? resolveBundleLine(bundle, data.line) : undefined;
+    onEntry({
+      id: crypto.randomUUID(),
+      level: data.kind === 'error' ? 'error' : data.level || 'log',
+      message: data.message,
+      isUncaught: data.kind === 'error',
+      stack: data.stack,
+      location: resolved && { ...resolved, column: data.column },
+    });
+  };
+  window.addEventListener('message', handleMessage);
+  return () => window.removeEventListener('message', handleMessage);
+};
+
+// The question sent to the mentor for an error, with the file it points at
+export const buildErrorQuestion = (entry: ConsoleEntry, files: { name: string; content: string }[]): string => {
+  const where = entry.location ? ` (${entry.location.file}, line ${entry.location.line})` : '';
+  const file = entry.location && files.find(f => f.name === entry.location!.file);
+  const code = files.map(f => `--- ${f.name}${file === f ? ' (error is here)' : ''} ---\n${f.content}`).join('\n\n');
+  return `My preview shows this error${where}:\n\n${entry.message}\n\nExplain what it means and how to fix it, without rewriting my whole project.\n\nMy code:\n${code}`;
+};
@@ -0,0 +1,147 @@
+import { CodeFile, SourceLocation } from '../types';
+
+// Projects are edited as separate files but previewed as one document: CSS and
+// JS files referenced from index.html are inlined before they reach srcDoc.
+
+export const HTML_ENTRY = 'index.html';
+export const DEFAULT_CSS = 'style.css';
+export const DEFAULT_JS = 'script.js';
+
+const EXTENSION_LANGUAGES: Record<string, CodeFile['language']> = {
+  html: 'html',
+  htm: 'html',
+  css: 'css',
+  js: 'javascript',
+};
+
+export const getLanguageForFile = (name: string): CodeFile['language'] | null => {
+  const ext = name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_LANGUAGES[ext] || null;
+};
+
+export const isValidFileName = (name: string): boolean =>
+  /^[\w-]+(\.[\w-]+)*\.(html?|css|js)$/i.test(name);
+
+const normalizePath = (path: string) => path.trim().replace(/^\.\//, '');
+
+export const findFile = (files: CodeFile[], name: string): CodeFile | undefined =>
+  files.find(f => f.name === normalizePath(name));
+
+export const getEntryFile = (files: CodeFile[]): CodeFile | undefined =>
+  findFile(files, HTML_ENTRY) ?? files.find(f => f.language === 'html');
+
+// Removes the indentation shared by every non-empty line
+const dedent = (text: string): string => {
+  const lines = text.replace(/^\n+|\s+$/g, '').split('\n');
+  const indents = lines.filter(l => l.trim()).map(l => l.match(/^[ \t]*/)![0].length);
+  const common = indents.length ? Math.min(...indents) : 0;
+  return lines.map(l => l.slice(common)).join('\n');
+};
+
+const insertBefore = (doc: string, closingTag: RegExp, snippet: string, fallback: 'start' | 'end'): string => {
+  const match = closingTag.exec(doc);
+  if (match) return doc.slice(0, match.index) + snippet + doc.slice(match.index);
+  return fallback === 'start' ? snippet + doc : doc + snippet;
+};
+
+/**
+ * Splits a single-document lesson (as generated) into index.html, style.css and
+ * script.js. Inline <style>/<script> blocks move into their files and are
+ * replaced by references; external CDN scripts stay in the HTML.
+ */
+export const splitIntoFiles = (code: string): CodeFile[] => {
+  const styles: string[] = [];
+  const scripts: string[] = [];
+
+  let html = code.replace(/[ \t]*<style[^>]*>([\s\S]*?)<\/style>[ \t]*\n?/gi, (_, css: string) => {
+    if (css.trim()) styles.push(dedent(css));
+    return '';
+  });
+  html = html.replace(/[ \t]*<script(?![^>]*\bsrc\s*=)[^>]*>([\s\S]*?)<\/script>[ \t]*\n?/gi, (_, js: string) => {
+    if (js.trim()) scripts.push(dedent(js));
+    return '';
+  });
+
+  if (/<\/head>/i.test(html)) html = insertBefore(html, /[ \t]*<\/head>/i, `  <link rel="stylesheet" href="${DEFAULT_CSS}">\n`, 'start');
+  if (/<\/body>/i.test(html)) html = insertBefore(html, /[ \t]*<\/body>(?![\s\S]*<\/body>)/i, `  <script src="${DEFAULT_JS}"></script>\n`, 'end');
+
+  return [
+    { name: HTML_ENTRY, language: 'html', content: html },
+    { name: DEFAULT_CSS, language: 'css', content: styles.join('\n\n') },
+    { name: DEFAULT_JS, language: 'javascript', content: scripts.join('\n\n') },
+  ];
+};
+
+export interface ProjectBundle {
+  code: string;
+  lineMap: SourceLocation[]; // lineMap[n] is where line n + 1 of `code` came from
+}
+
+/**
+ * Inlines the project's CSS and JS into the entry HTML so it can be used as
+ * an iframe srcDoc. Files that index.html never references are still included
+ * (CSS at the end of <head>, JS at the end of <body>) so new files just work.
+ * The line map lets errors reported by the preview point back at a file.
+ */
+export const bundleProject = (files: CodeFile[]): ProjectBundle => {
+  const entry = getEntryFile(files);
+  const entryName = entry?.name ?? HTML_ENTRY;
+  const used = new Set<string>();
+  const inlined: { file: CodeFile; tagLines: number; appended?: boolean }[] = [];
+  const token = (index: number) => `\u0000${index}\u0000`;
+
+  // Swap referenced tags for tokens first, then expand them while tracking lines
+  let doc = entry?.content ?? '';
+  doc = doc.replace(/<link\b[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>/gi, (tag: string, href: string) => {
+    const file = findFile(files, href);
+    if (!file || file.language !== 'css' || !/stylesheet/i.test(tag)) return tag;
+    used.add(file.name);
+    return token(inlined.push({ file, tagLines: tag.split('\n').length - 1 }) - 1);
+  });
+  doc = doc.replace(/<script\b[^>]*\bsrc\s*=\s*["']([^"']+)["'][^>]*>\s*<\/script>/gi, (tag: string, src: string) => {
+    const file = findFile(files, src);
+    if (!file || file.language !== 'javascript') return tag;
+    used.add(file.name);
+    return token(inlined.push({ file, tagLines: tag.split('\n').length - 1 }) - 1);
+  });
+
+  for (const file of files) {
+    if (used.has(file.name) || !file.content.trim()) continue;
+    if (file.language === 'css') doc = insertBefore(doc, /<\/head>/i, token(inlined.push({ file, tagLines: 0, appended: true }) - 1), 'start');
+    if (file.language === 'javascript') doc = insertBefore(doc, /<\/body>(?![\s\S]*<\/body>)/i, token(inlined.push({ file, tagLines: 0, appended: true }) - 1), 'end');
+  }
+
+  let code = '';
+  const lineMap: SourceLocation[] = [{ file: entryName, line: 1 }];
+  const emit = (text: string, file: string, line: number) => {
+    if (code === '' || code.endsWith('\n')) lineMap[lineMap.length - 1] = { file, line };
+    code += text;
+    const breaks = text.split('\n').length - 1;
+    for (let k = 1; k <= breaks; k++) lineMap.push({ file, line: line + k });
+  };
+
+  let entryLine = 1;
+  doc.split(/\u0000(\d+)\u0000/).forEach((part, i) => {
+    if (i % 2 === 0) {
+      emit(part, entryName, entryLine);
+      entryLine += part.split('\n').length - 1;
+      return;
+    }
+    const { file, tagLines, appended } = inlined[Number(part)];
+    const tag = file.language === 'css' ? 'style' : 'script';
+    emit(`<${tag}>\n`, entryName, entryLine);
+    emit(file.content, file.name, 1);
+    emit(`\n</${tag}>${appended ? '\n' : ''}`, entryName, entryLine);
+    entryLine += tagLines;
+  });
+  return { code, lineMap };
+};
+
+export const bundleFiles = (files: CodeFile[]): string => bundleProject(files).code;
+
+// Maps a 1-based line of the bundled document back to the file it came from
+export const resolveBundleLine = (bundle: ProjectBundle, line: number): SourceLocation | undefined =>
+  bundle.lineMap[line - 1];
+
+export const updateFileContent = (files: CodeFile[], name: string, content: string): CodeFile[] =>
+  files.map(f => f.name === name ? { ...f, content } : f);
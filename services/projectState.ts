@@ -0,0 +1,108 @@
+import { CodeFile, Course, Lesson, QuizResult } from '../types';
+import { mergeLines } from './diff';
+import { bundleFiles, splitIntoFiles } from './projectFiles';
+
+// A course builds one project: each lesson opens on the learner's files from the
+// lesson before it, with that lesson's own scaffolding merged in.
+
+const flattenLessons = (course: Course): Lesson[] => course.modules.flatMap(m => m.lessons);
+
+export const getPreviousLesson = (course: Course, lessonId: string): Lesson | null => {
+  const lessons = flattenLessons(course);
+  const index = lessons.findIndex(l => l.id === lessonId);
+  return index > 0 ? lessons[index - 1] : null;
+};
+
+// Saved work for a lesson as files (older saves only have the bundled userCode)
+export const getLessonUserFiles = (lesson: Lesson): CodeFile[] | undefined => {
+  if (lesson.userFiles && lesson.userFiles.length > 0) return lesson.userFiles;
+  return lesson.userCode ? splitIntoFiles(lesson.userCode) : undefined;
+};
+
+export const getLessonBaselineFiles = (lesson: Lesson): CodeFile[] => splitIntoFiles(lesson.initialCode);
+
+/**
+ * The files a lesson should open with when the learner has not worked on it yet.
+ * The generator assumed the learner finished the previous lesson with its
+ * solutionCode; whatever it changed between that and this lesson's initialCode
+ * is replayed, file by file, onto what the learner actually wrote.
+ */
+export const getLessonStartingFiles = (course: Course, lessonId: string): CodeFile[] => {
+  const lesson = flattenLessons(course).find(l => l.id === lessonId);
+  if (!lesson) return splitIntoFiles('');
+  const previous = getPreviousLesson(course, lessonId);
+  const ours = previous ? getLessonUserFiles(previous) : undefined;
+  if (!previous || !ours) return getLessonBaselineFiles(lesson);
+  if (!lesson.initialCode.trim()) return ours;
+
+  const base = splitIntoFiles(previous.solutionCode);
+  const theirs = getLessonBaselineFiles(lesson);
+  const merged = ours.map(file => {
+    const baseFile = base.find(f => f.name === file.name);
+    const theirFile = theirs.find(f => f.name === file.name);
+    if (!baseFile || !theirFile) return file; // Files the learner added are left alone
+    return { ...file, content: mergeLines(baseFile.content, file.content, theirFile.content).merged };
+  });
+  // Files the lesson introduces that the learner does not have yet
+  const added = theirs.filter(f => !ours.some(o => o.name === f.name));
+  return [...merged, ...added];
+};
+
+// The learner's latest files: the last lesson in course order they have saved work for
+export const getProjectFiles = (course: Course): CodeFile[] | undefined => {
+  const lessons = flattenLessons(course);
+  for (let i = lessons.length - 1; i >= 0; i--) {
+    const files = getLessonUserFiles(lessons[i]);
+    if (files) return files;
+  }
+  return undefined;
+};
+
+const withProject = (course: Course): Course => {
+  const projectFiles = getProjectFiles(course);
+  return { ...course, projectFiles, projectCode: projectFiles && bundleFiles(projectFiles) };
+};
+
+// Unfinished lessons before this one were skipped over to get here
+export const withCompletedLesson = (course: Course, lessonId: string, userFiles: CodeFile[]): Course => {
+  const index = flattenLessons(course).findIndex(l => l.id === lessonId);
+  let position = 0;
+  return withProject({
+    ...course,
+    modules: course.modules.map(m => ({
+      ...m,
+      lessons: m.lessons.map(l => {
+        const before = position++ < index;
+        if (l.id === lessonId) return { ...l, completed: true, outcome: 'completed' as const, userFiles, userCode: bundleFiles(userFiles) };
+        return before && !l.completed ? { ...l, outcome: 'skipped' as const } : l;
+      })
+    }))
+  });
+};
+
+// Passing a module's test-out completes every lesson in it the learner had not finished
+export const withTestedOutModule = (course: Course, moduleId: string, userFiles: CodeFile[]): Course => withProject({
+  ...course,
+  modules: course.modules.map(m => m.id !== moduleId ? m : {
+    ...m,
+    lessons: m.lessons.map(l => l.completed ? l : { ...l, completed: true, outcome: 'testedOut' as const, userFiles, userCode: bundleFiles(userFiles) })
+  })
+});
+
+export const withQuizResult = (course: Course, lessonId: string, quizResult: QuizResult): Course => ({
+  ...course,
+  modules: course.modules.map(m => ({ ...m, lessons: m.lessons.map(l => l.id === lessonId ? { ...l, quizResult } : l) }))
+});
+
+/**
+ * Lessons open in order: one unlocks once the lesson before it is completed
+ * or was skipped. With skipping allowed in settings, every lesson is open.
+ */
+export const isLessonLocked = (course: Course, lessonId: string, allowSkipping: boolean): boolean => {
+  if (allowSkipping) return false;
+  const lessons = flattenLessons(course);
+  const index = lessons.findIndex(l => l.id === lessonId);
+  if (index <= 0 || lessons[index].completed) return false;
+  const previous = lessons[index - 1];
+  return !previous.completed && previous.outcome !== 'skipped';
+};
@@ -0,0 +1,419 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { CourseOutline, CourseRequest, Lesson, Module } from '../../types';
+import { AiProvider, GenerationOptions } from '../aiProvider';
+import { requireConfig } from '../config';
+
+const lessonSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING },
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    concept: { type: Type.STRING },
+    instructions: { type: Type.STRING },
+    initialCode: { type: Type.STRING },
+    solutionCode: { type: Type.STRING },
+    assertions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          kind: { type: Type.STRING, enum: ['exists', 'text', 'style', 'event', 'console'] },
+          description: { type: Type.STRING, description: "Learner-facing goal this check verifies." },
+          selector: { type: Type.STRING, description: "CSS selector of the element under test." },
+          expected: { type: Type.STRING, description: "Expected text (or /regex/), CSS value, or console output." },
+          property: { type: Type.STRING, description: "CSS property name, for 'style' checks." },
+          event: { type: Type.STRING, description: "DOM event to dispatch, for 'event' checks." },
+          watchSelector: { type: Type.STRING, description: "Element that should change after the event." },
+        },
+        required: ['id', 'kind', 'description']
+      }
+    },
+    targetFile: { type: Type.STRING, enum: ['index.html', 'style.css', 'script.js'], description: "The file the learner mostly edits in this lesson." },
+    quiz: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          kind: { type: Type.STRING, enum: ['choice', 'blank'] },
+          prompt: { type: Type.STRING, description: "The question. For 'blank', ___ marks the gap." },
+          options: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Possible answers, for 'choice'." },
+          answers: { type: Type.ARRAY, items: { type: Type.STRING }, description: "'choice': the correct option, copied exactly. 'blank': every accepted answer." },
+          explanation: { type: Type.STRING, description: "Why the answer is right, shown after grading." },
+        },
+        required: ['id', 'kind', 'prompt', 'answers']
+      }
+    },
+  },
+  required: ['id', 'title', 'description', 'concept', 'instructions', 'initialCode', 'solutionCode', 'assertions', 'quiz']
+};
+
+const outlineSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    finalOutcomeDescription: { type: Type.STRING, description: "A vivid description of the final project." },
+    modules: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          title: { type: Type.STRING },
+          description: { type: Type.STRING },
+          lessons: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                title: { type: Type.STRING },
+                description: { type: Type.STRING, description: "One sentence on what the learner builds in this lesson." },
+              },
+              required: ['id', 'title', 'description']
+            }
+          }
+        },
+        required: ['id', 'title', 'description', 'lessons']
+      }
+    }
+  },
+  required: ['title', 'description', 'finalOutcomeDescription', 'modules']
+};
+
+const moduleSchema: Schema = {
+  type: Type.OBJECT,
+  properties: { lessons: { type: Type.ARRAY, items: lessonSchema } },
+  required: ['lessons']
+};
+
+const SYSTEM_INSTRUCTION = "You are Zephyr, an expert technical curriculum designer. You create engaging, hands-on coding courses.";
+
+// The learner's request as prompt text, shared by every generation stage
+const describeRequest = ({ prompt: userPrompt, difficultyLevel, lengthLevel, visualDescription, detailLevel, skillLevel }: CourseRequest): string => {
+    let difficultyDesc = "";
+    if (difficultyLevel < 30) difficultyDesc = "Novice (Absolute Beginner) - COMPLETE HAND HOLDING";
+    else if (difficultyLevel < 50) difficultyDesc = "Beginner (Guided)";
+    else if (difficultyLevel < 70) difficultyDesc = "Intermediate (Independent)";
+    else difficultyDesc = "Advanced/Expert";
+
+    const isComplexTopic = /neural|network|ai|machine learning|3d|three\.js|model|chart|graph|map/i.test(userPrompt);
+    const libraryInjection = isComplexTopic
+        ? `IMPORTANT: This topic requires external libraries. You MUST include the necessary CDN script tags (e.g., <script src="https://cdn.jsdelivr.net/npm/@tensorflow/tfjs"></script>) in the 'initialCode' of the very first lesson.`
+        : "";
+
+    const detailPrompt = detailLevel === 'verbose'
+        ? "INSTRUCTIONS STYLE: Extremely detailed, explain every single attribute and tag. Use analogies."
+        : detailLevel === 'concise'
+        ? "INSTRUCTIONS STYLE: Brief, direct, bullet points. Focus purely on code tasks."
+        : "INSTRUCTIONS STYLE: Balanced mix of concept and action.";
+
+    const backgroundPrompt = skillLevel
+        ? `LEARNER BACKGROUND: Self-described as "${skillLevel}". Don't re-teach what that level already knows; don't assume more.`
+        : "";
+
+    const difficultyPrompt = `
+      DIFFICULTY LEVEL: ${difficultyLevel}/100. (${difficultyDesc}).
+      ${backgroundPrompt}
+      ${detailPrompt}
+
+      CRITICAL INSTRUCTION RULES:
+      1. **ALWAYS** use Markdown code blocks.
+      2. If Level 0-50 (Novice/Beginner):
+         - PROVIDE THE EXACT CODE SOLUTION.
+         - Tell the user explicitly: "Copy the code below..."
+      3. If Level 51-100: Explain logic, provide signatures.
+    `;
+
+    let lessonCount = "3-5";
+    if (lengthLevel < 33) lessonCount = "3-5 lessons";
+    else if (lengthLevel < 66) lessonCount = "6-9 lessons";
+    else lessonCount = "10-15 lessons";
+
+    const visualContext = visualDescription
+        ? `VISUAL FIDELITY REQUIRED: The final code MUST produce an app that looks EXACTLY like this description: "${visualDescription}". Use the colors, layouts, and style described.`
+        : "";
+
+    return `Interactive coding course for: "${userPrompt}".
+
+      TECHNICAL CONSTRAINTS:
+      - HTML/CSS/JS (vanilla).
+      ${libraryInjection}
+      ${visualContext}
+
+      LENGTH: ${lessonCount}.
+      ${difficultyPrompt}`;
+};
+
+// Planned modules and lessons, so a single stage knows where it fits
+const describePlan = (outline: CourseOutline): string =>
+    outline.modules.map((m, i) => `${i + 1}. ${m.title}: ${m.lessons.map(l => l.title).join('; ')}`).join('\n');
+
+const describeStartingCode = (startingCode: string, what: string): string =>
+    startingCode
+        ? `\`\`\`html\n${startingCode}\n\`\`\``
+        : `None yet. The ${what} 'initialCode' must be a valid HTML boilerplate (containing <html>, <head>, <body>).`;
+
+const describeGuidance = ({ guidance }: GenerationOptions = {}): string =>
+    guidance?.trim() ? `GUIDANCE FROM THE LEARNER (follow it where it does not break the rules below):\n          ${guidance.trim()}` : "";
+
+// Streamed answers can be cut off mid-object; say so instead of a bare SyntaxError
+const parseJson = <T>(text: string): T => {
+    try {
+        return JSON.parse(text) as T;
+    } catch {
+        throw new Error("Gemini's answer was not valid JSON (it may have been cut off). Try again.");
+    }
+};
+
+const extractImage = (parts: { inlineData?: { data?: string } }[]): string => {
+    for (const part of parts) {
+        if (part.inlineData) {
+            return `data:image/png;base64,${part.inlineData.data}`;
+        }
+    }
+    return "";
+};
+
+export const createGeminiProvider = (): AiProvider => {
+  const { geminiApiKey } = requireConfig(['geminiApiKey']);
+  const ai = new GoogleGenAI({ apiKey: geminiApiKey });
+
+  // Streams a JSON answer so callers can show it arriving, and stops on abort
+  const streamJson = async (contents: string, responseSchema: Schema, options: GenerationOptions = {}): Promise<string> => {
+    const stream = await ai.models.generateContentStream({
+      model: 'gemini-3-pro-preview',
+      contents,
+      config: { responseMimeType: "application/json", responseSchema, systemInstruction: SYSTEM_INSTRUCTION, abortSignal: options.signal }
+    });
+    let text = '';
+    for await (const chunk of stream) {
+      options.signal?.throwIfAborted();
+      text += chunk.text || '';
+      options.onText?.(text.length);
+    }
+    if (!text) throw new Error("No response from Gemini");
+    return text;
+  };
+
+  return {
+    name: 'gemini',
+
+    async generateProjectPreview(prompt) {
+        // Generate Description First
+        const textResponse = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: `Describe the UI/UX of a modern web application for: "${prompt}".
+            Be specific about colors, layout, and atmosphere. Keep it under 50 words.`,
+        });
+        const description = textResponse.text || "A modern application interface.";
+
+        // Generate Image
+        const imageResponse = await ai.models.generateContent({
+            model: 'gemini-2.5-flash-image',
+            contents: {
+                parts: [{ text: `High fidelity UI design mockup, modern web app, screenshot: ${description}` }]
+            }
+        });
+
+        const image = extractImage(imageResponse.candidates?.[0]?.content?.parts || []);
+        return { image, description };
+    },
+
+    async refineProjectPreview(currentImageBase64, modificationPrompt) {
+        // Strip prefix if present
+        const base64Data = currentImageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
+
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash-image',
+            contents: {
+                parts: [
+                    {
+                        inlineData: {
+                            mimeType: 'image/png',
+                            data: base64Data
+                        }
+                    },
+                    { text: `Redesign this UI screenshot based on the feedback: ${modificationPrompt}. Make it look high quality.` }
+                ]
+            }
+        });
+
+        const image = extractImage(response.candidates?.[0]?.content?.parts || []);
+        return { image, description: `Updated design: ${modificationPrompt}` };
+    },
+
+    async generateOutline(request, options) {
+        const text = await streamJson(`Plan a comprehensive, interactive coding course. Only the outline: modules and lesson titles, no lesson content yet.
+
+          ${describeRequest(request)}
+
+          Give every module and lesson a short unique id. Order lessons so each one builds on the page the previous one left behind.
+          Ensure 'finalOutcomeDescription' describes the visual design target provided.`, outlineSchema, options);
+        return parseJson<CourseOutline>(text);
+    },
+
+    async generateModule(request, outline, moduleIndex, startingCode, options) {
+        const planned = outline.modules[moduleIndex];
+        const text = await streamJson(`Write the lessons of module ${moduleIndex + 1} ("${planned.title}") of the course "${outline.title}".
+
+          ${describeRequest(request)}
+
+          COURSE PLAN:
+          ${describePlan(outline)}
+
+          ${describeGuidance(options)}
+
+          LESSONS TO WRITE (keep these ids and titles, in this order):
+          ${planned.lessons.map(l => `- ${l.id}: ${l.title} - ${l.description}`).join('\n')}
+
+          STARTING CODE (the learner's page when this module begins):
+          ${describeStartingCode(startingCode, "first lesson's")}
+
+          STRUCTURE RULES:
+          - Each lesson's 'initialCode' is the previous lesson's 'solutionCode' (the first one continues from the starting code).
+          - 'instructions': USE MARKDOWN code blocks.
+          - 'solutionCode': Hidden solution for hinting.
+          - 'assertions': 2-5 machine-checkable checks run against the learner's page. 'solutionCode' MUST pass all of them and 'initialCode' should fail at least one.
+            Kinds: 'exists' (selector), 'text' (selector + expected), 'style' (selector + property + expected CSS value),
+            'event' (selector + event, optional watchSelector + expected text afterwards), 'console' (expected output).
+            Use selectors that appear in 'solutionCode'. Never check exact wording the learner is free to choose.
+          - 'targetFile': the editor splits each page into index.html, style.css and script.js (inline <style>/<script> blocks move into those files). Name the one this lesson's task is about.
+          - 'quiz': 2-3 short questions that check the lesson's concept, not its exact code. Mix 'choice' (3-4 options, one right) and
+            'blank' (one ___ gap with a single-word or short-code answer; list every spelling that should count).`, moduleSchema, options);
+        const { lessons } = parseJson<Pick<Module, 'lessons'>>(text);
+        return { id: planned.id, title: planned.title, description: planned.description, lessons };
+    },
+
+    async generateLesson(request, outline, moduleIndex, lessonIndex, startingCode, options) {
+        const planned = outline.modules[moduleIndex].lessons[lessonIndex];
+        const text = await streamJson(`Write lesson ${lessonIndex + 1} ("${planned.title}") of module ${moduleIndex + 1} ("${outline.modules[moduleIndex].title}") of the course "${outline.title}".
+
+          ${describeRequest(request)}
+
+          COURSE PLAN:
+          ${describePlan(outline)}
+
+          ${describeGuidance(options)}
+
+          LESSON TO WRITE: ${planned.id}: ${planned.title} - ${planned.description}
+
+          STARTING CODE (the learner's page when this lesson begins):
+          ${describeStartingCode(startingCode, "lesson's")}
+
+          STRUCTURE RULES:
+          - 'initialCode' is exactly the starting code above.
+          - 'instructions': USE MARKDOWN code blocks.
+          - 'solutionCode': Hidden solution for hinting.
+          - 'assertions': 2-5 machine-checkable checks run against the learner's page. 'solutionCode' MUST pass all of them and 'initialCode' should fail at least one.
+            Kinds: 'exists' (selector), 'text' (selector + expected), 'style' (selector + property + expected CSS value),
+            'event' (selector + event, optional watchSelector + expected text afterwards), 'console' (expected output).
+          - 'targetFile': index.html, style.css or script.js, whichever this lesson's task is about.
+          - 'quiz': 2-3 short questions that check the lesson's concept, not its exact code. Mix 'choice' (3-4 options, one right) and
+            'blank' (one ___ gap with a single-word or short-code answer; list every spelling that should count).`, lessonSchema, options);
+        return { ...parseJson<Lesson>(text), id: planned.id, completed: false };
+    },
+
+    async repairLesson(request, lesson, issues, options) {
+        const { completed, outcome, quizResult, userCode, userFiles, steps, ...content } = lesson;
+        const text = await streamJson(`A generated lesson failed automatic validation. Fix it.
+
+          ${describeRequest(request)}
+
+          LESSON (JSON):
+          ${JSON.stringify(content, null, 2)}
+
+          PROBLEMS:
+          ${issues.map(i => `- ${i.path}: ${i.message}`).join('\n')}
+
+          RULES:
+          - Return the complete lesson with the same 'id' and 'title'.
+          - Change only what is needed to fix the problems.
+          - 'initialCode' and 'solutionCode' must be well-formed HTML documents with every element closed.
+          - 'solutionCode' MUST pass every assertion. When a check fails, fix the solution if the check is right, otherwise fix the check.`, lessonSchema, options);
+        return { ...parseJson<Lesson>(text), id: lesson.id, completed: false };
+    },
+
+    async checkCode(currentCode, instructions, goal) {
+        const response = await ai.models.generateContent({
+          model: 'gemini-2.5-flash',
+          contents: `Evaluate user code against goal: "${goal}" and instructions: "${instructions}".
+          User Code:
+          \`\`\`html
+          ${currentCode}
+          \`\`\`
+          Return JSON: { "passed": boolean, "feedback": "Short constructive feedback." }`,
+          config: { responseMimeType: "application/json", responseSchema: { type: Type.OBJECT, properties: { passed: { type: Type.BOOLEAN }, feedback: { type: Type.STRING } } } }
+        });
+        return JSON.parse(response.text || '{"passed":false,"feedback":"Error"}');
+    },
+
+    async explainTestResults(currentCode, instructions, results) {
+        const report = results.map(r => `${r.passed ? 'PASS' : 'FAIL'}: ${r.description} (${r.message})`).join('\n');
+        const response = await ai.models.generateContent({
+          model: 'gemini-2.5-flash',
+          contents: `A student is working on: "${instructions}".
+          Automated checks on their page reported:
+          ${report}
+
+          Student Code:
+          \`\`\`html
+          ${currentCode}
+          \`\`\`
+          The check results are authoritative; do not contradict them. In 2-4 sentences, explain why the failing checks fail and what to change. Do not give the full solution.`,
+        });
+        return response.text || "";
+    },
+
+    async chatWithMentor(history, newMessage, context) {
+        const chat = ai.chats.create({
+            model: 'gemini-3-pro-preview',
+            history: history,
+            config: { systemInstruction: `You are Zephyr. Context: ${context}. Keep answers concise.`, tools: [{ googleSearch: {} }] }
+        });
+        const result = await chat.sendMessage({ message: newMessage });
+        return result.text || "I couldn't generate a response.";
+    },
+
+    async evaluateBadge(code) {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: `Analyze code: \n${code}\n Return JSON: { "awarded": boolean, "name": "Badge Name", "description": "Why", "icon": "Lucide Icon Name" }`,
+            config: { responseMimeType: "application/json", responseSchema: { type: Type.OBJECT, properties: { awarded: { type: Type.BOOLEAN }, name: { type: Type.STRING }, description: { type: Type.STRING }, icon: { type: Type.STRING } } } }
+        });
+        const data = JSON.parse(response.text || "{}");
+        if (!data.awarded) return null;
+        return { name: data.name, description: data.description, icon: data.icon };
+    },
+
+    async explainLearnerSteps(steps, code) {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: `A student is building this code one line at a time.
+
+            FULL CODE:
+            ${code}
+
+            STEPS:
+            ${steps.map((s, i) => `${i + 1}. ${s.code.trim()}  (current hint: ${s.explanation})`).join('\n')}
+
+            Return a JSON array with exactly ${steps.length} strings, one per step in the same order.
+            Each is a short, specific explanation in the form "Type [concept] to [reason]".`,
+            config: { responseMimeType: "application/json", responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } } }
+        });
+        return JSON.parse(response.text || "[]");
+    },
+
+    async applyAiEdit(currentCode, selection, userInstruction) {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: `Context: ${currentCode}\nSelection: ${selection}\nInstruction: ${userInstruction}\n${selection ? 'Only change the selected code unless the instruction cannot be done without touching other lines. ' : ''}newCode is the complete file with the edit applied; leave every other line exactly as it was.\nReturn JSON {newCode, explanation}`,
+            config: { responseMimeType: "application/json", responseSchema: { type: Type.OBJECT, properties: { newCode: { type: Type.STRING }, explanation: { type: Type.STRING } } } }
+        });
+        return JSON.parse(response.text || "{}");
+    },
+  };
+};
@@ -0,0 +1,342 @@
+import { CourseOutline, Lesson, LessonAssertion, ModuleOutline, QuizQuestion } from '../../types';
+import { AiProvider } from '../aiProvider';
+
+// Offline provider: every answer is derived from the inputs, so the same
+// request always yields the same course, verdict or reply.
+
+interface LessonTemplate {
+  title: string;
+  concept: string;
+  task: string;
+  body?: string[];
+  style?: string[];
+  script?: string[];
+  assertions: Omit<LessonAssertion, 'id'>[];
+  quiz: Omit<QuizQuestion, 'id'>[];
+}
+
+const LESSON_TEMPLATES: LessonTemplate[] = [
+  {
+    title: 'Page Skeleton',
+    concept: 'Every web page starts with a heading that tells visitors where they are.',
+    task: 'Add a main heading inside the app container.',
+    body: ['    <h1 id="title">{{topic}}</h1>'],
+    assertions: [
+      { kind: 'exists', description: 'The page has a heading with id "title"', selector: 'h1#title' },
+      { kind: 'text', description: 'The heading names the project', selector: '#title', expected: '{{topic}}' },
+    ],
+    quiz: [
+      { kind: 'choice', prompt: 'Which element is the main heading of a page?', options: ['<h1>', '<p>', '<head>', '<title>'], answers: ['<h1>'], explanation: '<h1> is the top-level heading; <head> holds information about the page.' },
+      { kind: 'blank', prompt: 'An id is written as the ___ attribute, e.g. <h1 id="title">.', answers: ['id'] },
+    ],
+  },
+  {
+    title: 'Describe the Project',
+    concept: 'Paragraphs hold the supporting text of a page.',
+    task: 'Add a short paragraph under the heading.',
+    body: ['    <p class="intro">Built step by step with Zephyr.</p>'],
+    assertions: [{ kind: 'exists', description: 'An intro paragraph follows the heading', selector: 'p.intro' }],
+    quiz: [
+      { kind: 'choice', prompt: 'Which element holds a paragraph of text?', options: ['<p>', '<span>', '<text>'], answers: ['<p>'] },
+      { kind: 'blank', prompt: 'To style several elements the same way, give them the same ___ attribute.', answers: ['class'], explanation: 'Many elements can share a class; an id is meant to be unique.' },
+    ],
+  },
+  {
+    title: 'First Styles',
+    concept: 'CSS rules select elements and change how they look.',
+    task: 'Give the page a dark background and light text.',
+    style: ['    body { background: #0f172a; color: #e2e8f0; font-family: sans-serif; }'],
+    assertions: [
+      { kind: 'style', description: 'The page background is dark', selector: 'body', property: 'background-color', expected: '#0f172a' },
+      { kind: 'style', description: 'The text is light', selector: 'body', property: 'color', expected: '#e2e8f0' },
+    ],
+    quiz: [
+      { kind: 'choice', prompt: 'Which CSS property sets the text color?', options: ['color', 'font-color', 'text-color', 'background'], answers: ['color'] },
+      { kind: 'blank', prompt: 'In a CSS rule, the part before the { is called the ___.', answers: ['selector'] },
+    ],
+  },
+  {
+    title: 'Add a Button',
+    concept: 'Buttons are the main way users trigger actions.',
+    task: 'Add a button the user can click.',
+    body: ['    <button id="action">Click me</button>'],
+    assertions: [{ kind: 'exists', description: 'There is a button with id "action"', selector: 'button#action' }],
+    quiz: [
+      { kind: 'choice', prompt: 'What is the main job of a button?', options: ['Let the user trigger an action', 'Show a heading', 'Link to a stylesheet'], answers: ['Let the user trigger an action'] },
+      { kind: 'blank', prompt: 'A button is written as <___>Click me</button>.', answers: ['button'] },
+    ],
+  },
+  {
+    title: 'Style the Button',
+    concept: 'Class and id selectors let you target one specific element.',
+    task: 'Make the button stand out with padding and a primary color.',
+    style: ['    #action { padding: 8px 16px; background: #6366f1; color: white; border: none; border-radius: 8px; }'],
+    assertions: [{ kind: 'style', description: 'The button uses the primary color', selector: '#action', property: 'background-color', expected: '#6366f1' }],
+    quiz: [
+      { kind: 'choice', prompt: 'Which selector targets the element with id "action"?', options: ['#action', '.action', 'action', '*action'], answers: ['#action'], explanation: '# selects by id, . selects by class.' },
+      { kind: 'blank', prompt: 'The property that adds space inside an element, between its content and its border, is ___.', answers: ['padding'] },
+    ],
+  },
+  {
+    title: 'Select Elements in JS',
+    concept: 'document.querySelector finds an element so your script can work with it.',
+    task: 'Grab the button and the heading from JavaScript.',
+    script: ["    const button = document.querySelector('#action');", "    const title = document.querySelector('#title');"],
+    assertions: [{ kind: 'exists', description: 'The button is still on the page', selector: '#action' }],
+    quiz: [
+      { kind: 'choice', prompt: "What does document.querySelector('#title') return?", options: ['The first element matching #title', 'Every element on the page', 'The text of the heading'], answers: ['The first element matching #title'] },
+      { kind: 'blank', prompt: 'Finish the call: document.___(\'#action\')', answers: ['querySelector', 'getElementById'], explanation: "getElementById also works if you pass 'action' without the #." },
+    ],
+  },
+  {
+    title: 'Respond to Clicks',
+    concept: 'Event listeners run code when something happens on the page.',
+    task: 'Change the heading text when the button is clicked.',
+    script: ["    button.addEventListener('click', () => {", "      title.textContent = 'You clicked it!';", '    });'],
+    assertions: [{ kind: 'event', description: 'Clicking the button changes the heading', selector: '#action', event: 'click', watchSelector: '#title', expected: 'You clicked it!' }],
+    quiz: [
+      { kind: 'choice', prompt: 'When does the function passed to addEventListener run?', options: ['Each time the event happens', 'Once, when the page loads', 'Never, until you call it yourself'], answers: ['Each time the event happens'] },
+      { kind: 'blank', prompt: "button.addEventListener('___', () => { ... }) runs when the button is clicked.", answers: ['click'] },
+    ],
+  },
+  {
+    title: 'Keep Some State',
+    concept: 'Variables remember values between events.',
+    task: 'Count how many times the button was clicked.',
+    body: ['    <p id="count">0 clicks</p>'],
+    script: ["    let clicks = 0;", "    button.addEventListener('click', () => {", "      clicks++;", "      document.querySelector('#count').textContent = `${clicks} clicks`;", '    });'],
+    assertions: [{ kind: 'event', description: 'Clicking the button updates the counter', selector: '#action', event: 'click', watchSelector: '#count', expected: '1 clicks' }],
+    quiz: [
+      { kind: 'choice', prompt: 'Why is clicks declared with let instead of const?', options: ['Its value changes after it is created', 'let is faster', 'const only works for text'], answers: ['Its value changes after it is created'] },
+      { kind: 'blank', prompt: 'clicks___ adds one to the counter.', answers: ['++', '+= 1'] },
+    ],
+  },
+  {
+    title: 'Lay Out the Page',
+    concept: 'Flexbox arranges elements in rows or columns.',
+    task: 'Center the app container on the page.',
+    style: ['    #app { display: flex; flex-direction: column; align-items: center; gap: 12px; }'],
+    assertions: [{ kind: 'style', description: 'The app container uses flexbox', selector: '#app', property: 'display', expected: 'flex' }],
+    quiz: [
+      { kind: 'choice', prompt: 'Which display value turns a container into a flexbox?', options: ['flex', 'block', 'grid', 'inline'], answers: ['flex'] },
+      { kind: 'blank', prompt: 'flex-direction: ___ stacks the children from top to bottom.', answers: ['column'] },
+    ],
+  },
+  {
+    title: 'Polish',
+    concept: 'Transitions make state changes feel smooth.',
+    task: 'Animate the button when it is hovered.',
+    style: ['    #action { transition: transform 0.2s; }', '    #action:hover { transform: scale(1.05); }'],
+    assertions: [{ kind: 'style', description: 'The button animates its transform', selector: '#action', property: 'transition-property', expected: 'transform' }],
+    quiz: [
+      { kind: 'choice', prompt: 'What does a CSS transition do?', options: ['Animates a property change smoothly', 'Moves the element to another page', 'Runs JavaScript on hover'], answers: ['Animates a property change smoothly'] },
+      { kind: 'blank', prompt: 'The pseudo-class that applies while the mouse is over an element is :___.', answers: ['hover'] },
+    ],
+  },
+];
+
+const renderProject = (topic: string, templates: LessonTemplate[]): string => {
+  const body = templates.flatMap(t => t.body || []).map(line => line.replace('{{topic}}', topic));
+  const style = templates.flatMap(t => t.style || []);
+  const script = templates.flatMap(t => t.script || []);
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '  <title>' + topic + '</title>',
+    '  <style>',
+    ...style,
+    '  </style>',
+    '</head>',
+    '<body>',
+    '  <div id="app">',
+    ...body,
+    '  </div>',
+    '  <script>',
+    ...script,
+    '  </script>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+};
+
+const lessonCountFor = (lengthLevel: number): number => {
+  if (lengthLevel < 33) return 3;
+  if (lengthLevel < 66) return 6;
+  return LESSON_TEMPLATES.length;
+};
+
+// Splits the course's lessons into modules of at most three
+const moduleSlices = (lengthLevel: number): { start: number; templates: LessonTemplate[] }[] => {
+  const templates = LESSON_TEMPLATES.slice(0, lessonCountFor(lengthLevel));
+  const lessonsPerModule = Math.ceil(templates.length / Math.ceil(templates.length / 3));
+  const slices: { start: number; templates: LessonTemplate[] }[] = [];
+  for (let start = 0; start < templates.length; start += lessonsPerModule) {
+    slices.push({ start, templates: templates.slice(start, start + lessonsPerModule) });
+  }
+  return slices;
+};
+
+// A lesson outside the templates (edited or inserted): add one note to the page
+const noteLesson = (topic: string, planned: ModuleOutline['lessons'][number], startingCode: string, guidance?: string): Lesson => {
+  const initialCode = startingCode || renderProject(topic, []);
+  const className = `note-${planned.id.replace(/[^\w-]/g, '') || 'lesson'}`;
+  const line = `    <p class="${className}">${planned.title.replace(/[<>&]/g, '')}</p>`;
+  const bodyEnd = initialCode.lastIndexOf('</body>');
+  const solutionCode = bodyEnd === -1 ? `${initialCode}\n${line}` : `${initialCode.slice(0, bodyEnd)}${line}\n${initialCode.slice(bodyEnd)}`;
+  return {
+    id: planned.id,
+    title: planned.title,
+    description: planned.description || planned.title,
+    concept: `${planned.title} adds one more piece to the page.`,
+    instructions: `${planned.description || planned.title}${guidance?.trim() ? `\n\n${guidance.trim()}` : ''}\n\n\`\`\`html\n${line.trim()}\n\`\`\``,
+    initialCode,
+    solutionCode,
+    assertions: [{ id: `chk-${planned.id}-0`, kind: 'exists', description: `The page has the "${planned.title}" note`, selector: `p.${className}` }],
+    quiz: [{ id: `quiz-${planned.id}-0`, kind: 'blank', prompt: 'The note added in this lesson uses the class ___.', answers: [className] }],
+    targetFile: 'index.html',
+    completed: false,
+  };
+};
+
+const titleCase = (text: string): string =>
+  text.trim().replace(/\s+/g, ' ').replace(/\b\w/g, c => c.toUpperCase()) || 'My Project';
+
+// Stable string hash so mock verdicts are repeatable
+const hashString = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const placeholderImage = (label: string): string => {
+  const hue = hashString(label) % 360;
+  const safeLabel = label.replace(/[<>&"]/g, '').slice(0, 40);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="450"><rect width="800" height="450" fill="hsl(${hue},45%,18%)"/><rect x="40" y="40" width="720" height="60" rx="12" fill="hsl(${hue},55%,35%)"/><rect x="40" y="130" width="340" height="280" rx="12" fill="hsl(${hue},40%,26%)"/><rect x="420" y="130" width="340" height="280" rx="12" fill="hsl(${hue},40%,26%)"/><text x="60" y="80" font-family="sans-serif" font-size="24" fill="white">${safeLabel}</text></svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+const normalize = (code: string) => code.replace(/\s+/g, '');
+
+export const createMockProvider = (): AiProvider => ({
+  name: 'mock',
+
+  async generateProjectPreview(prompt) {
+    const description = `A clean dark-themed interface for "${prompt}" with a bold header, two content panels and an indigo accent color.`;
+    return { image: placeholderImage(prompt), description };
+  },
+
+  async refineProjectPreview(_currentImageBase64, modificationPrompt) {
+    return { image: placeholderImage(modificationPrompt), description: `Updated design: ${modificationPrompt}` };
+  },
+
+  async generateOutline({ prompt, lengthLevel }, options) {
+    options?.signal?.throwIfAborted();
+    const topic = titleCase(prompt);
+    const outline: CourseOutline = {
+      title: `Build ${topic}`,
+      description: `A hands-on offline course that builds "${topic}" from an empty page.`,
+      finalOutcomeDescription: `A small interactive page for ${topic} with styling and click handling.`,
+      modules: moduleSlices(lengthLevel).map(({ start, templates }, mIndex) => ({
+        id: `mod-${mIndex}`,
+        title: `Part ${mIndex + 1}: ${templates[0].title}`,
+        description: `Lessons ${start + 1}-${start + templates.length} of ${topic}.`,
+        lessons: templates.map((t, offset) => ({ id: `les-${mIndex}-${offset}`, title: t.title, description: t.task })),
+      })),
+    };
+    return outline;
+  },
+
+  async generateModule({ prompt, lengthLevel }, outline, moduleIndex, startingCode, options) {
+    options?.signal?.throwIfAborted();
+    const topic = titleCase(prompt);
+    const all = LESSON_TEMPLATES.slice(0, lessonCountFor(lengthLevel));
+    const slice = moduleSlices(lengthLevel)[moduleIndex];
+    const planned = outline.modules[moduleIndex];
+    if (!slice || options?.guidance || slice.templates.length !== planned.lessons.length) {
+      // The course was edited since it was planned; chain notes from the starting code
+      const lessons: Lesson[] = [];
+      planned.lessons.forEach(l => lessons.push(noteLesson(topic, l, lessons[lessons.length - 1]?.solutionCode || startingCode, options?.guidance)));
+      const { lessons: _planned, ...module } = planned;
+      return { ...module, lessons };
+    }
+    const { start, templates } = slice;
+    const lessons: Lesson[] = templates.map((t, offset) => {
+      const index = start + offset;
+      return {
+        id: `les-${moduleIndex}-${offset}`,
+        title: t.title,
+        description: t.task,
+        concept: t.concept,
+        instructions: `${t.task}\n\n\`\`\`html\n${[...(t.body || []), ...(t.style || []), ...(t.script || [])].map(l => l.trim()).join('\n').replace('{{topic}}', topic)}\n\`\`\``,
+        initialCode: renderProject(topic, all.slice(0, index)),
+        solutionCode: renderProject(topic, all.slice(0, index + 1)),
+        assertions: t.assertions.map((a, k) => ({ ...a, id: `chk-${index}-${k}`, expected: a.expected?.replace('{{topic}}', topic) })),
+        quiz: t.quiz.map((q, k) => ({ ...q, id: `quiz-${index}-${k}` })),
+        targetFile: t.body ? 'index.html' : t.style ? 'style.css' : 'script.js',
+        completed: false,
+      };
+    });
+    const { lessons: _planned, ...module } = outline.modules[moduleIndex];
+    return { ...module, lessons };
+  },
+
+  async generateLesson({ prompt }, outline, moduleIndex, lessonIndex, startingCode, options) {
+    options?.signal?.throwIfAborted();
+    return noteLesson(titleCase(prompt), outline.modules[moduleIndex].lessons[lessonIndex], startingCode, options?.guidance);
+  },
+
+  async repairLesson(_request, lesson, issues, options) {
+    options?.signal?.throwIfAborted();
+    // No model to rewrite anything: drop the checks the solution fails and fill gaps
+    const failing = new Set(issues.map(i => i.assertionId).filter(Boolean));
+    return {
+      ...lesson,
+      description: lesson.description || lesson.title,
+      concept: lesson.concept || lesson.title,
+      instructions: lesson.instructions || lesson.description || lesson.title,
+      initialCode: lesson.initialCode ?? '',
+      assertions: (lesson.assertions || []).filter(a => !failing.has(a.id)),
+      quiz: issues.some(i => i.path.includes('.quiz')) ? undefined : lesson.quiz,
+    };
+  },
+
+  async checkCode(currentCode, instructions) {
+    const expected = [...instructions.matchAll(/```\w*\n([\s\S]*?)```/g)].flatMap(m => m[1].split('\n')).map(normalize).filter(Boolean);
+    const code = normalize(currentCode);
+    const missing = expected.filter(line => !code.includes(line));
+    if (missing.length === 0) return { passed: true, feedback: 'Everything from the instructions is in place. Nice work!' };
+    return { passed: false, feedback: `${missing.length} of ${expected.length} required lines are still missing.` };
+  },
+
+  async explainTestResults(_currentCode, _instructions, results) {
+    const failing = results.filter(r => !r.passed);
+    if (failing.length === 0) return 'Every check passes. Your page does what the lesson asks.';
+    return `Start with "${failing[0].description}": ${failing[0].message}. Fix that, run the checks again, then move on to the next failing item.`;
+  },
+
+  async chatWithMentor(_history, newMessage, context) {
+    return `(Offline mentor) You asked: "${newMessage.trim()}". Re-read the task for ${context.split('.')[0]} and try one small change at a time, running the preview after each.`;
+  },
+
+  async evaluateBadge(code) {
+    const lines = code.split('\n').filter(l => l.trim()).length;
+    if (lines < 20) return null;
+    const hasScript = /<script[\s>]/i.test(code);
+    return hasScript
+      ? { name: 'Interaction Designer', description: `Built an interactive page with ${lines} lines of code.`, icon: '⚡' }
+      : { name: 'Page Crafter', description: `Built a styled page with ${lines} lines of code.`, icon: '🎨' };
+  },
+
+  async explainLearnerSteps(steps) {
+    // The local templates are already the best explanation available offline
+    return steps.map(s => s.explanation);
+  },
+
+  async applyAiEdit(currentCode) {
+    // Without a model there is no edit to make; the review shows no changes
+    return { newCode: currentCode, explanation: 'Offline mode cannot edit code. Choose an AI provider in Setup to use Edit.' };
+  },
+});
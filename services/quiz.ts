@@ -0,0 +1,22 @@
+import { QuizQuestion, QuizResult } from '../types';
+
+// Quizzes are graded here, never by a model, so the same answers always get
+// the same score.
+
+// Case, extra spaces, wrapping quotes and a trailing semicolon do not make a blank wrong
+export const normalizeAnswer = (answer: string): string =>
+  answer.trim().replace(/^(["'`])(.*)\1$/, '$2').replace(/;$/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+export const isAnswerCorrect = (question: QuizQuestion, answer: string | undefined): boolean => {
+  if (!answer) return false;
+  if (question.kind === 'choice') return answer === question.answers[0];
+  const given = normalizeAnswer(answer);
+  return question.answers.some(a => normalizeAnswer(a) === given);
+};
+
+export const gradeQuiz = (questions: QuizQuestion[], answers: Record<string, string>): QuizResult => ({
+  answers,
+  correct: questions.filter(q => isAnswerCorrect(q, answers[q.id])).length,
+  total: questions.length,
+  takenAt: Date.now(),
+});
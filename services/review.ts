@@ -0,0 +1,124 @@
+import { Course, Lesson, QuizQuestion, ReviewCard, ReviewCardKind } from '../types';
+import { buildProjectSteps, normalizeCode } from './learnerSteps';
+import { getLessonBaselineFiles } from './projectState';
+import { isAnswerCorrect } from './quiz';
+import { dayKey } from './activity';
+
+// Spaced repetition of what completed lessons taught. Every completed lesson
+// gives a concept card, one card per quiz question and a kata (retype one
+// line of the solution from its description). Cards are scheduled with SM-2;
+// only the schedule is stored, the question is rebuilt from the course.
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_RATINGS: { rating: ReviewRating; label: string }[] = [
+  { rating: 'again', label: 'Again' },
+  { rating: 'hard', label: 'Hard' },
+  { rating: 'good', label: 'Good' },
+  { rating: 'easy', label: 'Easy' },
+];
+
+// SM-2 grades answers 0-5; below 3 the card starts over
+const QUALITY: Record<ReviewRating, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+// New cards introduced per day, so finishing a big course does not flood the queue
+export const NEW_CARDS_PER_DAY = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASINESS = 1.3;
+
+export interface ReviewKata {
+  code: string; // The line to write
+  explanation: string;
+  context?: string; // The line it follows
+}
+
+export interface ReviewItem {
+  id: string;
+  courseId: string;
+  lessonId: string;
+  kind: ReviewCardKind;
+  courseTitle: string;
+  lessonTitle: string;
+  concept?: string;
+  question?: QuizQuestion;
+  kata?: ReviewKata;
+  card?: ReviewCard; // Missing until the first review
+}
+
+export const reviewCardId = (courseId: string, lessonId: string, suffix: string) => `${courseId}/${lessonId}/${suffix}`;
+
+/** The next schedule of a card after one review. */
+export const scheduleReview = (item: Pick<ReviewItem, 'id' | 'courseId' | 'lessonId' | 'kind' | 'card'>, rating: ReviewRating, now = Date.now()): ReviewCard => {
+  const { card } = item;
+  const quality = QUALITY[rating];
+  const easiness = Math.max(MIN_EASINESS, (card?.easiness ?? 2.5) + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  const repetitions = quality < 3 ? 0 : (card?.repetitions ?? 0) + 1;
+  const interval = repetitions === 0 ? 1
+    : repetitions === 1 ? 1
+    : repetitions === 2 ? 6
+    : Math.round((card?.interval ?? 1) * easiness);
+  return {
+    id: item.id,
+    courseId: item.courseId,
+    lessonId: item.lessonId,
+    kind: item.kind,
+    easiness,
+    interval,
+    repetitions,
+    due: now + interval * DAY_MS,
+    createdAt: card?.createdAt ?? now,
+    updatedAt: now,
+  };
+};
+
+// Quiz questions and katas grade themselves; concepts are rated by the learner
+export const rateAnswer = (item: ReviewItem, answer: string): ReviewRating => {
+  if (item.question) return isAnswerCorrect(item.question, answer) ? 'good' : 'again';
+  if (item.kata) return normalizeCode(answer).text === normalizeCode(item.kata.code).text ? 'good' : 'again';
+  return 'good';
+};
+
+// The most substantial line the lesson added, so the kata is not a lone "}"
+const pickKata = (lesson: Lesson): ReviewKata | undefined => {
+  if (!lesson.solutionCode) return undefined;
+  const steps = buildProjectSteps(lesson.solutionCode, getLessonBaselineFiles(lesson));
+  const best = steps.reduce((a, b) => (b.code.trim().length > (a?.code.trim().length ?? 0) ? b : a), undefined);
+  if (!best || best.code.trim().length < 8) return undefined;
+  return { code: best.code.trim(), explanation: best.explanation, context: best.context?.trim() };
+};
+
+/** Everything the learner's completed lessons can be reviewed on, in course order. */
+export const buildReviewItems = (courses: Course[], cards: ReviewCard[]): ReviewItem[] => {
+  const byId = new Map(cards.map(c => [c.id, c]));
+  const items: ReviewItem[] = [];
+  for (const course of courses) {
+    for (const lesson of course.modules.flatMap(m => m.lessons)) {
+      if (!lesson.completed) continue;
+      const base = { courseId: course.id, lessonId: lesson.id, courseTitle: course.title, lessonTitle: lesson.title };
+      const add = (suffix: string, kind: ReviewCardKind, extra: Partial<ReviewItem>) => {
+        const id = reviewCardId(course.id, lesson.id, suffix);
+        items.push({ ...base, id, kind, card: byId.get(id), ...extra });
+      };
+      if (lesson.concept?.trim()) add('concept', 'concept', { concept: lesson.concept });
+      (lesson.quiz || []).forEach(question => add(`quiz/${question.id}`, 'quiz', { question }));
+      const kata = pickKata(lesson);
+      if (kata) add('kata', 'kata', { kata });
+    }
+  }
+  return items;
+};
+
+const localDay = (at: number) => dayKey(at, new Date(at).getTimezoneOffset());
+
+/**
+ * Today's queue: cards that are due, most overdue first, then new cards up to
+ * what is left of the day's allowance.
+ */
+export const getReviewQueue = (items: ReviewItem[], now = Date.now()): ReviewItem[] => {
+  const today = localDay(now);
+  const introducedToday = items.filter(i => i.card && localDay(i.card.createdAt) === today).length;
+  const due = items.filter(i => i.card && localDay(i.card.due) <= today).sort((a, b) => a.card.due - b.card.due);
+  const fresh = items.filter(i => !i.card).slice(0, Math.max(0, NEW_CARDS_PER_DAY - introducedToday));
+  return [...due, ...fresh];
+};
@@ -1,114 +1,366 @@
+import { Course, AppSettings, Badge, Certificate, LessonProgress, UserProfile, ActivityEvent, GenerationDraft, CourseRevision, ReviewCard } from '../types';
+import {
+  CourseRecord, ImageRecord, SettingRecord, StoreName, SyncRecord, TombstoneRecord,
+  SETTINGS_KEY, joinCourse, requestToPromise, splitCourse, withStores
+} from './db';
 
-import { Course, AppSettings, Badge } from '../types';
+// Repository over the IndexedDB stores in db.ts. Failures are reported to
+// subscribers (the UI shows them) and the caller gets a safe fallback value.
 
-const STORAGE_KEY = 'codespark_courses_v1';
-const SETTINGS_KEY = 'codespark_settings_v1';
-const BADGES_KEY = 'codespark_badges_v1';
+export class StorageError extends Error {
+  operation: string;
 
-export const saveCourseToStorage = (course: Course): void => {
-  try {
-    const existingData = localStorage.getItem(STORAGE_KEY);
-    let courses: Course[] = existingData ? JSON.parse(existingData) : [];
-    
-    // Check if course exists, update it, otherwise add it
-    const index = courses.findIndex(c => c.id === course.id);
-    if (index >= 0) {
-      courses[index] = { ...course, lastAccessed: Date.now() };
-    } else {
-      courses.push({ ...course, lastAccessed: Date.now(), createdAt: Date.now() });
-    }
-    
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(courses));
-  } catch (e) {
-    console.error("Failed to save course", e);
+  constructor(operation: string, cause: unknown) {
+    super(describeError(cause));
+    this.name = 'StorageError';
+    this.operation = operation;
   }
-};
+}
 
-export const getSavedCourses = (): Course[] => {
-  try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    if (!data) return [];
-    return JSON.parse(data).sort((a: Course, b: Course) => (b.lastAccessed || 0) - (a.lastAccessed || 0));
-  } catch (e) {
-    console.error("Failed to load courses", e);
-    return [];
+const describeError = (cause: unknown): string => {
+  if (cause instanceof DOMException && cause.name === 'QuotaExceededError') {
+    return "Your browser's storage is full. Delete a course you no longer need to keep saving progress.";
   }
+  return cause instanceof Error ? cause.message : String(cause);
 };
 
-export const deleteCourseFromStorage = (courseId: string): Course[] => {
-    try {
-        const existingData = localStorage.getItem(STORAGE_KEY);
-        if (!existingData) return [];
-        let courses: Course[] = JSON.parse(existingData);
-        courses = courses.filter(c => c.id !== courseId);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(courses));
-        return courses;
-    } catch (e) {
-        console.error("Failed to delete course", e);
-        return [];
-    }
-}
+type StorageErrorListener = (error: StorageError) => void;
+const listeners = new Set<StorageErrorListener>();
 
-export const saveSettingsToStorage = (settings: AppSettings): void => {
-  try {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-  } catch (e) {
-    console.error("Failed to save settings", e);
-  }
+export const subscribeStorageErrors = (listener: StorageErrorListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
 };
 
-export const getSettingsFromStorage = (): AppSettings => {
+const guarded = async <T>(operation: string, fallback: T, work: () => Promise<T>): Promise<T> => {
   try {
-    const data = localStorage.getItem(SETTINGS_KEY);
-    const defaults: AppSettings = { 
-        showTips: true, 
-        showInsertionHints: true, 
-        autoIndent: true,
-        theme: 'zephyr',
-        learnerMode: false,
-        detailLevel: 'balanced',
-        allowSkipping: false
-    };
-
-    if (!data) return defaults;
-    
-    const parsed = JSON.parse(data);
-    return {
-        ...defaults,
-        ...parsed
-    };
+    return await work();
   } catch (e) {
-    return { 
-        showTips: true, 
-        showInsertionHints: true, 
-        autoIndent: true,
-        theme: 'zephyr',
-        learnerMode: false,
-        detailLevel: 'balanced',
-        allowSkipping: false
-    };
+    const error = new StorageError(operation, e);
+    if (listeners.size === 0) console.error(error); // Nothing is showing errors yet (e.g. before the app mounts)
+    listeners.forEach(l => l(error));
+    return fallback;
   }
 };
 
-export const saveBadgeToStorage = (badge: Badge): Badge[] => {
-  try {
-    const existingData = localStorage.getItem(BADGES_KEY);
-    let badges: Badge[] = existingData ? JSON.parse(existingData) : [];
-    badges.push(badge);
-    localStorage.setItem(BADGES_KEY, JSON.stringify(badges));
-    return badges;
-  } catch (e) {
-    console.error("Failed to save badge", e);
-    return [];
-  }
+// 'local' for the app's own writes, 'sync' for changes pulled from the cloud
+export type StorageChangeSource = 'local' | 'sync';
+type StorageChangeListener = (source: StorageChangeSource) => void;
+const changeListeners = new Set<StorageChangeListener>();
+
+export const subscribeStorageChanges = (listener: StorageChangeListener): (() => void) => {
+  changeListeners.add(listener);
+  return () => { changeListeners.delete(listener); };
 };
 
-export const getSavedBadges = (): Badge[] => {
-  try {
-    const data = localStorage.getItem(BADGES_KEY);
-    if (!data) return [];
-    return JSON.parse(data).sort((a: Badge, b: Badge) => b.awardedAt - a.awardedAt);
-  } catch (e) {
-    return [];
-  }
+const notifyChange = (source: StorageChangeSource) => changeListeners.forEach(l => l(source));
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  showTips: true,
+  showInsertionHints: true,
+  autoIndent: true,
+  theme: 'zephyr',
+  learnerMode: false,
+  detailLevel: 'balanced',
+  allowSkipping: false
+};
+
+const PROFILE_KEY = 'profile';
+// Settings keys that follow the user between devices
+const SYNCED_SETTINGS = [SETTINGS_KEY, PROFILE_KEY];
+const SYNC_STATE_KEY = 'sync';
+
+const ALL_STORES: StoreName[] = ['courses', 'progress', 'images', 'badges', 'certificates', 'settings', 'tombstones', 'activity', 'drafts', 'revisions', 'reviews'];
+
+const progressId = (courseId: string, lessonId: string) => `${courseId}/${lessonId}`;
+
+// A deletion must beat the copy it deletes even if this device's clock is behind
+const deletedAt = (updatedAt = 0) => Math.max(Date.now(), updatedAt + 1);
+
+// Content comparison that ignores bookkeeping timestamps
+const sameContent = (a: object, b: object) =>
+  JSON.stringify({ ...a, lastAccessed: 0, updatedAt: 0 }) === JSON.stringify({ ...b, lastAccessed: 0, updatedAt: 0 });
+
+export const saveCourseToStorage = async (course: Course): Promise<void> => {
+  await guarded('Saving the course', undefined, () => withStores(['courses', 'progress', 'images', 'tombstones'], 'readwrite', async tx => {
+    const [existing, existingProgress] = await Promise.all([
+      requestToPromise(tx.objectStore('courses').get(course.id) as IDBRequest<CourseRecord | undefined>),
+      requestToPromise(tx.objectStore('progress').index('courseId').getAll(course.id) as IDBRequest<LessonProgress[]>),
+    ]);
+    const now = Date.now();
+    const { record, progress, image } = splitCourse({ ...course, lastAccessed: now, createdAt: existing?.createdAt || course.createdAt || now });
+
+    // Only records that really changed get a new timestamp, so sync does not
+    // overwrite another device's newer work with an unchanged copy
+    const courseChanged = !existing || !sameContent(existing, record);
+    tx.objectStore('courses').put({ ...record, updatedAt: courseChanged ? now : existing.updatedAt ?? now });
+    tx.objectStore('tombstones').delete(['courses', course.id]);
+    progress.forEach(p => {
+      const old = existingProgress.find(o => o.lessonId === p.lessonId);
+      tx.objectStore('progress').put({ ...p, updatedAt: old && sameContent(old, p) ? old.updatedAt : now });
+      tx.objectStore('tombstones').delete(['progress', progressId(p.courseId, p.lessonId)]);
+    });
+    // Progress of lessons an edit, regeneration or restore removed goes too, on every device
+    const lessonIds = new Set(course.modules.flatMap(m => m.lessons.map(l => l.id)));
+    existingProgress.filter(o => !lessonIds.has(o.lessonId)).forEach(o => {
+      tx.objectStore('progress').delete([o.courseId, o.lessonId]);
+      tx.objectStore('tombstones').put({ table: 'progress', id: progressId(o.courseId, o.lessonId), updatedAt: deletedAt(o.updatedAt) } as TombstoneRecord);
+    });
+    if (image) tx.objectStore('images').put(image);
+  }));
+  notifyChange('local');
+};
+
+export const getSavedCourses = (): Promise<Course[]> =>
+  guarded('Loading your courses', [], () => withStores(['courses', 'progress', 'images'], 'readonly', async tx => {
+    const [records, progress, images] = await Promise.all([
+      requestToPromise(tx.objectStore('courses').getAll() as IDBRequest<CourseRecord[]>),
+      requestToPromise(tx.objectStore('progress').getAll() as IDBRequest<LessonProgress[]>),
+      requestToPromise(tx.objectStore('images').getAll() as IDBRequest<ImageRecord[]>),
+    ]);
+    return records
+      .map(r => joinCourse(r, progress.filter(p => p.courseId === r.id), images.find(i => i.courseId === r.id)))
+      .sort((a, b) => (b.lastAccessed || 0) - (a.lastAccessed || 0));
+  }));
+
+export const deleteCourseFromStorage = async (courseId: string): Promise<Course[]> => {
+  await guarded('Deleting the course', undefined, () => withStores(['courses', 'progress', 'images', 'tombstones', 'revisions', 'reviews'], 'readwrite', async tx => {
+    const [course, progress, revisionIds, reviews] = await Promise.all([
+      requestToPromise(tx.objectStore('courses').get(courseId) as IDBRequest<CourseRecord | undefined>),
+      requestToPromise(tx.objectStore('progress').index('courseId').getAll(courseId) as IDBRequest<LessonProgress[]>),
+      requestToPromise(tx.objectStore('revisions').index('courseId').getAllKeys(courseId)),
+      requestToPromise(tx.objectStore('reviews').index('courseId').getAll(courseId) as IDBRequest<ReviewCard[]>),
+    ]);
+    revisionIds.forEach(id => tx.objectStore('revisions').delete(id));
+    tx.objectStore('courses').delete(courseId);
+    tx.objectStore('images').delete(courseId);
+    tx.objectStore('tombstones').put({ table: 'courses', id: courseId, updatedAt: deletedAt(course?.updatedAt) } as TombstoneRecord);
+    progress.forEach(p => {
+      tx.objectStore('progress').delete([p.courseId, p.lessonId]);
+      tx.objectStore('tombstones').put({ table: 'progress', id: progressId(p.courseId, p.lessonId), updatedAt: deletedAt(p.updatedAt) } as TombstoneRecord);
+    });
+    reviews.forEach(r => {
+      tx.objectStore('reviews').delete(r.id);
+      tx.objectStore('tombstones').put({ table: 'reviews', id: r.id, updatedAt: deletedAt(r.updatedAt) } as TombstoneRecord);
+    });
+  }));
+  notifyChange('local');
+  return getSavedCourses();
+};
+
+export const saveSettingsToStorage = async (settings: AppSettings): Promise<void> => {
+  await guarded('Saving settings', undefined, () => withStores(['settings'], 'readwrite', async tx => {
+    tx.objectStore('settings').put({ key: SETTINGS_KEY, value: settings, updatedAt: Date.now() } as SettingRecord<AppSettings>);
+  }));
+  notifyChange('local');
+};
+
+export const getSettingsFromStorage = (): Promise<AppSettings> =>
+  guarded('Loading settings', DEFAULT_SETTINGS, () => withStores(['settings'], 'readonly', async tx => {
+    const saved = await requestToPromise(tx.objectStore('settings').get(SETTINGS_KEY) as IDBRequest<SettingRecord<Partial<AppSettings>> | undefined>);
+    return { ...DEFAULT_SETTINGS, ...saved?.value };
+  }));
+
+export const saveBadgeToStorage = async (badge: Badge): Promise<Badge[]> => {
+  await guarded('Saving the badge', undefined, () => withStores(['badges'], 'readwrite', async tx => {
+    tx.objectStore('badges').put(badge);
+  }));
+  notifyChange('local');
+  return getSavedBadges();
+};
+
+export const getSavedBadges = (): Promise<Badge[]> =>
+  guarded('Loading badges', [], () => withStores(['badges'], 'readonly', async tx => {
+    const badges = await requestToPromise(tx.objectStore('badges').getAll() as IDBRequest<Badge[]>);
+    return badges.sort((a, b) => b.awardedAt - a.awardedAt);
+  }));
+
+export const saveCertificateToStorage = async (certificate: Certificate): Promise<Certificate[]> => {
+  await guarded('Saving the certificate', undefined, () => withStores(['certificates'], 'readwrite', async tx => {
+    tx.objectStore('certificates').put(certificate);
+  }));
+  notifyChange('local');
+  return getSavedCertificates();
+};
+
+export const getSavedCertificates = (): Promise<Certificate[]> =>
+  guarded('Loading certificates', [], () => withStores(['certificates'], 'readonly', async tx => {
+    const certificates = await requestToPromise(tx.objectStore('certificates').getAll() as IDBRequest<Certificate[]>);
+    return certificates.sort((a, b) => b.completedAt - a.completedAt);
+  }));
+
+// Half-generated courses stay on this device; they are not synced
+export const saveGenerationDraft = (draft: GenerationDraft): Promise<void> =>
+  guarded('Saving the course in progress', undefined, () => withStores(['drafts'], 'readwrite', async tx => {
+    tx.objectStore('drafts').put(draft);
+  }));
+
+export const getGenerationDrafts = (): Promise<GenerationDraft[]> =>
+  guarded('Loading unfinished courses', [], () => withStores(['drafts'], 'readonly', async tx => {
+    const drafts = await requestToPromise(tx.objectStore('drafts').getAll() as IDBRequest<GenerationDraft[]>);
+    return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+  }));
+
+export const deleteGenerationDraft = (id: string): Promise<void> =>
+  guarded('Discarding the unfinished course', undefined, () => withStores(['drafts'], 'readwrite', async tx => {
+    tx.objectStore('drafts').delete(id);
+  }));
+
+// Edit history stays on this device too; only the newest revisions are kept
+const MAX_REVISIONS_PER_COURSE = 20;
+
+export const saveCourseRevision = (revision: CourseRevision): Promise<void> =>
+  guarded('Saving the edit history', undefined, () => withStores(['revisions'], 'readwrite', async tx => {
+    const store = tx.objectStore('revisions');
+    store.put(revision);
+    const existing = await requestToPromise(store.index('courseId').getAll(revision.courseId) as IDBRequest<CourseRevision[]>);
+    existing
+      .filter(r => r.id !== revision.id)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(MAX_REVISIONS_PER_COURSE - 1)
+      .forEach(r => store.delete(r.id));
+  }));
+
+export const getCourseRevisions = (courseId: string): Promise<CourseRevision[]> =>
+  guarded('Loading the edit history', [], () => withStores(['revisions'], 'readonly', async tx => {
+    const revisions = await requestToPromise(tx.objectStore('revisions').index('courseId').getAll(courseId) as IDBRequest<CourseRevision[]>);
+    return revisions.sort((a, b) => b.createdAt - a.createdAt);
+  }));
+
+export const deleteCourseRevision = (id: string): Promise<void> =>
+  guarded('Updating the edit history', undefined, () => withStores(['revisions'], 'readwrite', async tx => {
+    tx.objectStore('revisions').delete(id);
+  }));
+
+export const saveProfileToStorage = async (profile: UserProfile): Promise<void> => {
+  await guarded('Saving your profile', undefined, () => withStores(['settings'], 'readwrite', async tx => {
+    tx.objectStore('settings').put({ key: PROFILE_KEY, value: profile, updatedAt: Date.now() } as SettingRecord<UserProfile>);
+  }));
+  notifyChange('local');
+};
+
+export const getProfileFromStorage = (): Promise<UserProfile | undefined> =>
+  guarded('Loading your profile', undefined, () => withStores(['settings'], 'readonly', async tx => {
+    const saved = await requestToPromise(tx.objectStore('settings').get(PROFILE_KEY) as IDBRequest<SettingRecord<UserProfile> | undefined>);
+    return saved?.value;
+  }));
+
+export const recordActivityInStorage = async (event: ActivityEvent): Promise<void> => {
+  await guarded('Recording activity', undefined, () => withStores(['activity'], 'readwrite', async tx => {
+    tx.objectStore('activity').put(event);
+  }));
+  notifyChange('local');
+};
+
+export const getActivityFromStorage = (courseId?: string): Promise<ActivityEvent[]> =>
+  guarded('Loading activity', [], () => withStores(['activity'], 'readonly', async tx => {
+    const request = courseId ? tx.objectStore('activity').index('courseId').getAll(courseId) : tx.objectStore('activity').getAll();
+    const events = await requestToPromise(request as IDBRequest<ActivityEvent[]>);
+    return events.sort((a, b) => a.at - b.at);
+  }));
+
+export const saveReviewCardToStorage = async (card: ReviewCard): Promise<void> => {
+  await guarded('Saving your review', undefined, () => withStores(['reviews', 'tombstones'], 'readwrite', async tx => {
+    tx.objectStore('reviews').put(card);
+    tx.objectStore('tombstones').delete(['reviews', card.id]);
+  }));
+  notifyChange('local');
+};
+
+export const getReviewCardsFromStorage = (): Promise<ReviewCard[]> =>
+  guarded('Loading your reviews', [], () => withStores(['reviews'], 'readonly', async tx =>
+    requestToPromise(tx.objectStore('reviews').getAll() as IDBRequest<ReviewCard[]>)
+  ));
+
+// --- Sync support (used by services/sync.ts). These throw instead of reporting,
+// the sync layer shows its own status.
+
+export interface SyncState {
+  userId: string;
+  lastSyncedAt: number; // This device's clock when the last successful sync started
+  cursor?: string; // Where the next pull of remote changes starts, see SyncRemote
+}
+
+export const getSyncState = (): Promise<SyncState | undefined> =>
+  withStores(['settings'], 'readonly', async tx => {
+    const saved = await requestToPromise(tx.objectStore('settings').get(SYNC_STATE_KEY) as IDBRequest<SettingRecord<SyncState> | undefined>);
+    return saved?.value;
+  });
+
+export const setSyncState = (state: SyncState): Promise<void> =>
+  withStores(['settings'], 'readwrite', async tx => {
+    tx.objectStore('settings').put({ key: SYNC_STATE_KEY, value: state } as SettingRecord<SyncState>);
+  });
+
+// Every syncable row on this device, deletions included
+export const listSyncRecords = (): Promise<SyncRecord[]> =>
+  withStores(ALL_STORES, 'readonly', async tx => {
+    const [courses, progress, images, badges, certificates, settings, tombstones, activity, reviews] = await Promise.all([
+      requestToPromise(tx.objectStore('courses').getAll() as IDBRequest<CourseRecord[]>),
+      requestToPromise(tx.objectStore('progress').getAll() as IDBRequest<LessonProgress[]>),
+      requestToPromise(tx.objectStore('images').getAll() as IDBRequest<ImageRecord[]>),
+      requestToPromise(tx.objectStore('badges').getAll() as IDBRequest<Badge[]>),
+      requestToPromise(tx.objectStore('certificates').getAll() as IDBRequest<Certificate[]>),
+      requestToPromise(tx.objectStore('settings').getAll() as IDBRequest<SettingRecord[]>),
+      requestToPromise(tx.objectStore('tombstones').getAll() as IDBRequest<TombstoneRecord[]>),
+      requestToPromise(tx.objectStore('activity').getAll() as IDBRequest<ActivityEvent[]>),
+      requestToPromise(tx.objectStore('reviews').getAll() as IDBRequest<ReviewCard[]>),
+    ]);
+    return [
+      ...courses.map((c): SyncRecord => ({
+        table: 'courses', id: c.id, updatedAt: c.updatedAt || c.lastAccessed || c.createdAt,
+        data: { ...c, previewImage: images.find(i => i.courseId === c.id)?.dataUrl },
+      })),
+      ...progress.map((p): SyncRecord => ({ table: 'progress', id: progressId(p.courseId, p.lessonId), updatedAt: p.updatedAt, data: p })),
+      ...badges.map((b): SyncRecord => ({ table: 'badges', id: b.id, updatedAt: b.awardedAt, data: b })),
+      ...certificates.map((c): SyncRecord => ({ table: 'certificates', id: c.id, updatedAt: c.completedAt, data: c })),
+      ...settings.filter(s => SYNCED_SETTINGS.includes(s.key)).map((s): SyncRecord => ({ table: 'settings', id: s.key, updatedAt: s.updatedAt || 0, data: s.value })),
+      ...activity.map((a): SyncRecord => ({ table: 'activity', id: a.id, updatedAt: a.at, data: a })),
+      ...reviews.map((r): SyncRecord => ({ table: 'reviews', id: r.id, updatedAt: r.updatedAt, data: r })),
+      ...tombstones.map((t): SyncRecord => ({ ...t, deleted: true })),
+    ];
+  });
+
+// Writes rows that won against the local copy
+export const applySyncRecords = async (records: SyncRecord[]): Promise<void> => {
+  if (records.length === 0) return;
+  await withStores(ALL_STORES, 'readwrite', async tx => {
+    for (const r of records) {
+      if (r.deleted) {
+        if (r.table === 'courses') { tx.objectStore('courses').delete(r.id); tx.objectStore('images').delete(r.id); }
+        if (r.table === 'progress') {
+          const split = r.id.indexOf('/');
+          tx.objectStore('progress').delete([r.id.slice(0, split), r.id.slice(split + 1)]);
+        }
+        if (r.table === 'badges') tx.objectStore('badges').delete(r.id);
+        if (r.table === 'certificates') tx.objectStore('certificates').delete(r.id);
+        if (r.table === 'settings') tx.objectStore('settings').delete(r.id);
+        if (r.table === 'activity') tx.objectStore('activity').delete(r.id);
+        if (r.table === 'reviews') tx.objectStore('reviews').delete(r.id);
+        tx.objectStore('tombstones').put({ table: r.table, id: r.id, updatedAt: r.updatedAt } as TombstoneRecord);
+        continue;
+      }
+      tx.objectStore('tombstones').delete([r.table, r.id]);
+      if (r.table === 'courses') {
+        const { previewImage, ...record } = r.data as Course;
+        tx.objectStore('courses').put({ ...record, updatedAt: r.updatedAt } as CourseRecord);
+        if (previewImage) tx.objectStore('images').put({ courseId: r.id, dataUrl: previewImage } as ImageRecord);
+      }
+      if (r.table === 'progress') tx.objectStore('progress').put({ ...(r.data as LessonProgress), updatedAt: r.updatedAt });
+      if (r.table === 'badges') tx.objectStore('badges').put(r.data);
+      if (r.table === 'certificates') tx.objectStore('certificates').put(r.data);
+      if (r.table === 'settings') tx.objectStore('settings').put({ key: r.id, value: r.data, updatedAt: r.updatedAt } as SettingRecord);
+      if (r.table === 'activity') tx.objectStore('activity').put(r.data);
+      if (r.table === 'reviews') tx.objectStore('reviews').put({ ...(r.data as ReviewCard), updatedAt: r.updatedAt });
+    }
+  });
+  notifyChange('sync');
+};
+
+// Drops everything on this device, e.g. when a different account signs in
+export const clearLocalData = async (): Promise<void> => {
+  await withStores(ALL_STORES, 'readwrite', async tx => {
+    ALL_STORES.forEach(name => tx.objectStore(name).clear());
+  });
+  notifyChange('sync');
 };
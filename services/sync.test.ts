@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { SyncRecord } from './db';
+import { createMemoryRemote, reconcile, syncOnce, SyncLocal, SyncRemote } from './sync';
+
+const USER = 'user-1';
+
+// A device's IndexedDB reduced to its sync records, with the clock passed in by each test
+const createDevice = (remote: SyncRemote) => {
+  const records = new Map<string, SyncRecord>();
+  const local: SyncLocal = {
+    list: async () => [...records.values()],
+    apply: async applied => applied.forEach(r => records.set(`${r.table}:${r.id}`, r)),
+  };
+  let state: { lastSyncedAt: number; cursor?: string } | undefined;
+  return {
+    write: (record: SyncRecord) => records.set(`${record.table}:${record.id}`, record),
+    get: (table: string, id: string) => records.get(`${table}:${id}`),
+    sync: async (now: number) => {
+      const result = await syncOnce(USER, local, remote, state);
+      state = { lastSyncedAt: now, cursor: result.cursor };
+      return result;
+    },
+  };
+};
+
+const course = (updatedAt: number, title: string): SyncRecord => ({ table: 'courses', id: 'c1', updatedAt, data: { id: 'c1', title } });
+
+describe('reconcile', () => {
+  it('keeps the newer copy on either side and leaves ties alone', () => {
+    const { toApply, toPush } = reconcile([course(200, 'mine'), { ...course(100, 'tie'), id: 'c2' }], [course(100, 'theirs'), { ...course(100, 'tie'), id: 'c2' }]);
+    expect(toPush.map(r => r.data)).toEqual([{ id: 'c1', title: 'mine' }]);
+    expect(toApply).toEqual([]);
+  });
+
+  it('does not push records already synced when only remote changes came back', () => {
+    const { toPush } = reconcile([course(100, 'old'), { ...course(300, 'new'), id: 'c2' }], [], 200);
+    expect(toPush.map(r => r.id)).toEqual(['c2']);
+  });
+});
+
+describe('syncOnce with the in-memory remote', () => {
+  it('settles a conflicting edit on the newer copy on every device', async () => {
+    const remote = createMemoryRemote();
+    const a = createDevice(remote);
+    const b = createDevice(remote);
+    a.write(course(100, 'from A'));
+    b.write(course(200, 'from B'));
+    await b.sync(250);
+    await a.sync(260); // A's older edit loses to the copy already on the server
+    await b.sync(270);
+    expect(a.get('courses', 'c1')?.data).toEqual({ id: 'c1', title: 'from B' });
+    expect(b.get('courses', 'c1')?.data).toEqual({ id: 'c1', title: 'from B' });
+    expect(remote.rows(USER)).toHaveLength(1);
+  });
+
+  it('passes deletions on and never brings back an older copy', async () => {
+    const remote = createMemoryRemote();
+    const a = createDevice(remote);
+    const b = createDevice(remote);
+    a.write(course(100, 'draft'));
+    await a.sync(110);
+    await b.sync(120);
+    expect(b.get('courses', 'c1')?.deleted).toBeFalsy();
+
+    a.write({ table: 'courses', id: 'c1', updatedAt: 300, deleted: true });
+    b.write(course(250, 'edited before the delete'));
+    await a.sync(310);
+    await b.sync(320);
+    await a.sync(330);
+    expect(b.get('courses', 'c1')).toMatchObject({ deleted: true, updatedAt: 300 });
+    expect(a.get('courses', 'c1')).toMatchObject({ deleted: true, updatedAt: 300 });
+    expect(remote.rows(USER)[0]).toMatchObject({ deleted: true, data: undefined });
+  });
+
+  it('only exchanges what changed after the first sync', async () => {
+    const remote = createMemoryRemote();
+    const a = createDevice(remote);
+    const b = createDevice(remote);
+    for (let i = 0; i < 5; i++) a.write({ table: 'activity', id: `e${i}`, updatedAt: 100 + i, data: { id: `e${i}` } });
+    expect(await a.sync(200)).toMatchObject({ pushed: 5, applied: 0 });
+    expect(await b.sync(210)).toMatchObject({ pushed: 0, applied: 5 });
+
+    a.write({ table: 'activity', id: 'e5', updatedAt: 300, data: { id: 'e5' } });
+    expect(await a.sync(310)).toMatchObject({ pushed: 1, applied: 0 });
+    expect(await b.sync(320)).toMatchObject({ pushed: 0, applied: 1 });
+    expect(await b.sync(330)).toMatchObject({ pushed: 0, applied: 0 });
+  });
+});
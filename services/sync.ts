@@ -0,0 +1,248 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SyncRecord, SyncTable } from './db';
+import { applySyncRecords, clearLocalData, getSyncState, listSyncRecords, setSyncState, subscribeStorageChanges, SyncState } from './storage';
+import { getSupabase } from './supabaseClient';
+
+// Offline-first sync: the app only ever reads and writes IndexedDB, and this
+// module reconciles it with the signed-in user's rows in Supabase. Each row
+// carries its last-modified time and the newer copy wins. After the first
+// sync only what changed since the last one travels in either direction.
+
+export interface SyncLocal {
+  list(): Promise<SyncRecord[]>;
+  apply(records: SyncRecord[]): Promise<void>;
+}
+
+export interface SyncRemote {
+  // Rows changed after `cursor` (all rows without one), and the cursor to pass next time
+  pull(userId: string, cursor?: string): Promise<{ records: SyncRecord[]; cursor?: string }>;
+  // Must keep the newer copy when a row is already there
+  push(userId: string, records: SyncRecord[]): Promise<void>;
+}
+
+export type SyncStatus =
+  | { state: 'idle' }
+  | { state: 'syncing' }
+  | { state: 'synced'; at: number }
+  | { state: 'offline' }
+  | { state: 'error'; message: string };
+
+// Table names match supabase/migrations
+const REMOTE_TABLES: Record<SyncTable, string> = {
+  courses: 'courses',
+  progress: 'lesson_progress',
+  badges: 'badges',
+  certificates: 'certificates',
+  settings: 'user_settings',
+  activity: 'activity_events',
+  reviews: 'review_cards',
+};
+
+interface SyncRow {
+  user_id: string;
+  id: string;
+  data: unknown;
+  updated_at: number;
+  deleted: boolean;
+  synced_at?: string; // Set by the server on every accepted write
+}
+
+// PostgREST's default cap on rows per request
+const PAGE_SIZE = 1000;
+// Writes still committing when a pull runs can land just before its cursor, so
+// each pull goes back this far; rows seen twice are no-ops in reconcile
+const CURSOR_OVERLAP_MS = 60 * 1000;
+
+export const createSupabaseRemote = (client: SupabaseClient): SyncRemote => ({
+  async pull(userId, cursor) {
+    const tables = Object.keys(REMOTE_TABLES) as SyncTable[];
+    const after = cursor ? new Date(Date.parse(cursor) - CURSOR_OVERLAP_MS).toISOString() : undefined;
+    const results = await Promise.all(tables.map(async table => {
+      const rows: SyncRow[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        let query = client.from(REMOTE_TABLES[table]).select('id, data, updated_at, deleted, synced_at').eq('user_id', userId);
+        if (after) query = query.gt('synced_at', after);
+        const { data, error } = await query.order('synced_at').order('id').range(from, from + PAGE_SIZE - 1);
+        if (error) throw new Error(`Could not read ${REMOTE_TABLES[table]}: ${error.message}`);
+        rows.push(...(data as SyncRow[]));
+        if (data.length < PAGE_SIZE) break;
+      }
+      return rows;
+    }));
+    const rows = results.flatMap((rows, i) => rows.map(row => ({ table: tables[i], row })));
+    const newest = rows.reduce<string | undefined>((max, { row }) => row.synced_at && (!max || Date.parse(row.synced_at) > Date.parse(max)) ? row.synced_at : max, cursor);
+    return {
+      records: rows.map(({ table, row }): SyncRecord => ({ table, id: row.id, updatedAt: Number(row.updated_at), deleted: row.deleted, data: row.data ?? undefined })),
+      cursor: newest,
+    };
+  },
+
+  async push(userId, records) {
+    const tables = Object.keys(REMOTE_TABLES) as SyncTable[];
+    await Promise.all(tables.map(async table => {
+      const rows: SyncRow[] = records.filter(r => r.table === table).map(r => ({
+        user_id: userId, id: r.id, data: r.deleted ? null : r.data, updated_at: r.updatedAt, deleted: !!r.deleted,
+      }));
+      if (rows.length === 0) return;
+      const { error } = await client.from(REMOTE_TABLES[table]).upsert(rows, { onConflict: 'user_id,id' });
+      if (error) throw new Error(`Could not save ${REMOTE_TABLES[table]}: ${error.message}`);
+    }));
+  },
+});
+
+const localStore: SyncLocal = { list: listSyncRecords, apply: applySyncRecords };
+
+/**
+ * In-memory stand-in for Supabase with the same rules as the migrations: the
+ * newer copy of a row wins and every accepted write moves the pull cursor.
+ * For trying sync without a project, and for tests.
+ */
+export const createMemoryRemote = (): SyncRemote & { rows(userId: string): SyncRecord[] } => {
+  const users = new Map<string, Map<string, { record: SyncRecord; seq: number }>>();
+  let seq = 0;
+  const rowsOf = (userId: string) => {
+    if (!users.has(userId)) users.set(userId, new Map());
+    return users.get(userId);
+  };
+  return {
+    async pull(userId, cursor) {
+      const after = Number(cursor ?? 0);
+      const changed = [...rowsOf(userId).values()].filter(row => row.seq > after);
+      return { records: changed.map(row => row.record), cursor: String(Math.max(after, ...changed.map(row => row.seq))) };
+    },
+    async push(userId, records) {
+      const rows = rowsOf(userId);
+      for (const record of records) {
+        const key = `${record.table}:${record.id}`;
+        const existing = rows.get(key);
+        if (existing && record.updatedAt < existing.record.updatedAt) continue; // keep_newest_row
+        if (existing && record.updatedAt === existing.record.updatedAt && !!record.deleted === !!existing.record.deleted
+          && JSON.stringify(record.deleted ? undefined : record.data) === JSON.stringify(existing.record.data)) continue;
+        rows.set(key, { record: record.deleted ? { ...record, data: undefined } : record, seq: ++seq });
+      }
+    },
+    rows: userId => [...rowsOf(userId).values()].map(row => row.record),
+  };
+};
+
+/**
+ * Last-writer-wins merge. `local` is everything on this device; `remote` is
+ * every row, or after a previous sync only the rows changed since then. In
+ * that case local records not changed since `since` are already on the server
+ * and are not pushed again. Ties keep both sides as they are, so running it
+ * twice in a row changes nothing.
+ */
+export const reconcile = (local: SyncRecord[], remote: SyncRecord[], since?: number): { toApply: SyncRecord[]; toPush: SyncRecord[] } => {
+  const key = (r: SyncRecord) => `${r.table}:${r.id}`;
+  const remoteByKey = new Map(remote.map(r => [key(r), r]));
+  const localKeys = new Set(local.map(key));
+  const toApply: SyncRecord[] = [];
+  const toPush: SyncRecord[] = [];
+
+  for (const mine of local) {
+    const theirs = remoteByKey.get(key(mine));
+    if (theirs ? mine.updatedAt > theirs.updatedAt : since === undefined || mine.updatedAt > since) toPush.push(mine);
+    else if (theirs && theirs.updatedAt > mine.updatedAt) toApply.push(theirs);
+  }
+  for (const theirs of remote) {
+    if (!localKeys.has(key(theirs))) toApply.push(theirs);
+  }
+  return { toApply, toPush };
+};
+
+/**
+ * One round of sync. Pass the state of the previous successful sync to only
+ * exchange what changed since; the result holds the cursor to save with it.
+ */
+export const syncOnce = async (userId: string, local: SyncLocal, remote: SyncRemote, previous?: Pick<SyncState, 'lastSyncedAt' | 'cursor'>): Promise<{ applied: number; pushed: number; cursor?: string }> => {
+  const [mine, theirs] = await Promise.all([local.list(), remote.pull(userId, previous?.cursor)]);
+  // Without a cursor every remote row came back, so everything local is compared against it
+  const { toApply, toPush } = reconcile(mine, theirs.records, previous?.cursor ? previous.lastSyncedAt : undefined);
+  // Push first: if it fails nothing local has changed and the next run retries
+  await remote.push(userId, toPush);
+  await local.apply(toApply);
+  return { applied: toApply.length, pushed: toPush.length, cursor: theirs.cursor };
+};
+
+// --- Background sync for the signed-in user
+
+const SYNC_DELAY_MS = 2000;
+
+let status: SyncStatus = { state: 'idle' };
+const statusListeners = new Set<(status: SyncStatus) => void>();
+
+const setStatus = (next: SyncStatus) => {
+  status = next;
+  statusListeners.forEach(l => l(status));
+};
+
+export const subscribeSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  statusListeners.add(listener);
+  listener(status);
+  return () => { statusListeners.delete(listener); };
+};
+
+let activeRun: (() => Promise<void>) | null = null;
+
+/**
+ * Syncs now and again after every local change (debounced) and whenever the
+ * browser comes back online. Returns a function that stops it.
+ */
+export const startSync = (userId: string, remote: SyncRemote = createSupabaseRemote(getSupabase())): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> | null = null;
+  let rerun = false;
+  let stopped = false;
+
+  const run = async (): Promise<void> => {
+    if (running) { rerun = true; return running; }
+    if (!navigator.onLine) { setStatus({ state: 'offline' }); return; }
+    running = (async () => {
+      setStatus({ state: 'syncing' });
+      try {
+        // This device's data belongs to another account: start clean rather than merge it in
+        const state = await getSyncState();
+        const sameUser = state?.userId === userId;
+        if (state && !sameUser) await clearLocalData();
+        // Taken before listing, so changes made while this run is under way count for the next one
+        const startedAt = Date.now();
+        const { cursor } = await syncOnce(userId, localStore, remote, sameUser ? state : undefined);
+        await setSyncState({ userId, lastSyncedAt: startedAt, cursor });
+        setStatus({ state: 'synced', at: Date.now() });
+      } catch (e) {
+        setStatus(navigator.onLine ? { state: 'error', message: e instanceof Error ? e.message : String(e) } : { state: 'offline' });
+      }
+    })();
+    await running;
+    running = null;
+    if (rerun && !stopped) { rerun = false; await run(); }
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(run, SYNC_DELAY_MS);
+  };
+
+  const unsubscribe = subscribeStorageChanges(source => { if (source === 'local') schedule(); });
+  const handleOnline = () => { run(); };
+  const handleOffline = () => setStatus({ state: 'offline' });
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  activeRun = run;
+  run();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    unsubscribe();
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    if (activeRun === run) activeRun = null;
+    setStatus({ state: 'idle' });
+  };
+};
+
+// Flushes pending changes, e.g. right before signing out
+export const syncNow = async (): Promise<void> => {
+  if (activeRun) await activeRun();
+};
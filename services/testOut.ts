@@ -0,0 +1,45 @@
+import { Lesson, LessonAssertion, Module } from '../types';
+
+// A module's test-out is a lesson made up on the spot: start where the module
+// starts, meet every goal its lessons check for, and the whole module counts
+// as done. It has no solution, so there are no hints or learner steps.
+
+const TEST_OUT_PREFIX = 'testout-';
+
+export const getTestOutModuleId = (lessonId: string): string | null =>
+  lessonId.startsWith(TEST_OUT_PREFIX) ? lessonId.slice(TEST_OUT_PREFIX.length) : null;
+
+// Later lessons can change what an earlier one checked, so the last check of the same thing wins
+const checkKey = (a: LessonAssertion) => [a.kind, a.selector, a.property, a.event].join('|');
+
+const collectAssertions = (module: Module): LessonAssertion[] => {
+  const byKey = new Map<string, LessonAssertion>();
+  for (const lesson of module.lessons) {
+    for (const a of lesson.assertions || []) {
+      const key = checkKey(a);
+      byKey.delete(key); // Keep the order of the lesson that checks it last
+      byKey.set(key, { ...a, id: `${lesson.id}-${a.id}` });
+    }
+  }
+  return [...byKey.values()];
+};
+
+// Only checks can prove the learner already knows a module; without any there is nothing to pass
+export const canTestOut = (module: Module): boolean => collectAssertions(module).length > 0;
+
+export const buildTestOutLesson = (module: Module): Lesson => {
+  const first = module.lessons[0];
+  const goals = module.lessons.map(l => `- **${l.title}**: ${l.description}`).join('\n');
+  return {
+    id: `${TEST_OUT_PREFIX}${module.id}`,
+    title: `Test out: ${module.title}`,
+    description: `Skip the ${module.lessons.length} lessons of this module by showing you can already do them.`,
+    concept: module.description,
+    instructions: `Build everything this module teaches in one go. Pass every check and all of its lessons are marked as tested out.\n\n${goals}`,
+    initialCode: first?.initialCode ?? '',
+    solutionCode: '',
+    targetFile: first?.targetFile,
+    completed: false,
+    assertions: collectAssertions(module),
+  };
+};
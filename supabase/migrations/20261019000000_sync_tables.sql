@@ -0,0 +1,42 @@
+-- Cloud copies of the data the app keeps in IndexedDB (see services/sync.ts).
+-- Every table has the same shape: one JSON document per row, owned by a user,
+-- with the client's last-modified time in milliseconds and a deletion flag.
+
+create or replace function public.keep_newest_row()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Two devices can push at once; never let an older copy replace a newer one
+  if new.updated_at < old.updated_at then
+    return null;
+  end if;
+  return new;
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['courses', 'lesson_progress', 'badges', 'user_settings'] loop
+    execute format($f$
+      create table if not exists public.%1$I (
+        user_id uuid not null references auth.users (id) on delete cascade,
+        id text not null,
+        data jsonb,
+        updated_at bigint not null,
+        deleted boolean not null default false,
+        primary key (user_id, id)
+      );
+      alter table public.%1$I enable row level security;
+      drop policy if exists "Users manage their own rows" on public.%1$I;
+      create policy "Users manage their own rows" on public.%1$I
+        for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+      drop trigger if exists keep_newest_row on public.%1$I;
+      create trigger keep_newest_row before update on public.%1$I
+        for each row execute function public.keep_newest_row();
+    $f$, t);
+  end loop;
+end;
+$$;
@@ -0,0 +1,21 @@
+-- Learner activity (lesson starts, check attempts, completions, time on task)
+-- used for streaks and XP. Same row shape as the other synced tables.
+
+create table if not exists public.activity_events (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  id text not null,
+  data jsonb,
+  updated_at bigint not null,
+  deleted boolean not null default false,
+  primary key (user_id, id)
+);
+
+alter table public.activity_events enable row level security;
+
+drop policy if exists "Users manage their own rows" on public.activity_events;
+create policy "Users manage their own rows" on public.activity_events
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop trigger if exists keep_newest_row on public.activity_events;
+create trigger keep_newest_row before update on public.activity_events
+  for each row execute function public.keep_newest_row();
@@ -0,0 +1,20 @@
+-- Certificates of completion, synced like badges.
+
+create table if not exists public.certificates (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  id text not null,
+  data jsonb,
+  updated_at bigint not null,
+  deleted boolean not null default false,
+  primary key (user_id, id)
+);
+
+alter table public.certificates enable row level security;
+
+drop policy if exists "Users manage their own rows" on public.certificates;
+create policy "Users manage their own rows" on public.certificates
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop trigger if exists keep_newest_row on public.certificates;
+create trigger keep_newest_row before update on public.certificates
+  for each row execute function public.keep_newest_row();
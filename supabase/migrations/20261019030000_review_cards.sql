@@ -0,0 +1,21 @@
+-- Spaced-repetition review cards: the schedule of each concept, quiz question
+-- and kata the learner reviews. Same row shape as the other synced tables.
+
+create table if not exists public.review_cards (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  id text not null,
+  data jsonb,
+  updated_at bigint not null,
+  deleted boolean not null default false,
+  primary key (user_id, id)
+);
+
+alter table public.review_cards enable row level security;
+
+drop policy if exists "Users manage their own rows" on public.review_cards;
+create policy "Users manage their own rows" on public.review_cards
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop trigger if exists keep_newest_row on public.review_cards;
+create trigger keep_newest_row before update on public.review_cards
+  for each row execute function public.keep_newest_row();
@@ -0,0 +1,35 @@
+-- One definition of a synced table: the shared row shape, its row-level
+-- security policy and the keep_newest_row trigger. Tables added from here on
+-- are created with it, and the existing ones are brought back in line so the
+-- rules cannot drift between tables.
+
+create or replace function public.create_synced_table(t text)
+returns void
+language plpgsql
+as $$
+begin
+  execute format($f$
+    create table if not exists public.%1$I (
+      user_id uuid not null references auth.users (id) on delete cascade,
+      id text not null,
+      data jsonb,
+      updated_at bigint not null,
+      deleted boolean not null default false,
+      primary key (user_id, id)
+    );
+    alter table public.%1$I enable row level security;
+    drop policy if exists "Users manage their own rows" on public.%1$I;
+    create policy "Users manage their own rows" on public.%1$I
+      for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+    drop trigger if exists keep_newest_row on public.%1$I;
+    create trigger keep_newest_row before update on public.%1$I
+      for each row execute function public.keep_newest_row();
+  $f$, t);
+end;
+$$;
+
+-- Migrations only: keep it out of reach of clients calling functions over the API
+revoke execute on function public.create_synced_table(text) from public, anon, authenticated;
+
+select public.create_synced_table(t)
+from unnest(array['courses', 'lesson_progress', 'badges', 'user_settings', 'activity_events', 'certificates', 'review_cards']) as t;
@@ -0,0 +1,69 @@
+-- Incremental pulls: every synced row records when the server last accepted a
+-- write to it. Clients page through rows changed after the newest synced_at
+-- they have seen, so the server's clock orders them, not the devices'.
+
+-- An identical copy pushed again is not a change either, so it is not pulled
+-- again. It happens when a device receives a row stamped ahead of its own clock
+-- and, on its next sync, still counts it as changed since then.
+create or replace function public.keep_newest_row()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.updated_at < old.updated_at then
+    return null;
+  end if;
+  if new.updated_at = old.updated_at and new.deleted = old.deleted and new.data is not distinct from old.data then
+    return null;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.touch_synced_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.synced_at := now();
+  return new;
+end;
+$$;
+
+-- Same as before, plus the synced_at column, its index and trigger. Runs after
+-- keep_newest_row (triggers fire in name order), so a rejected older copy does
+-- not count as a change.
+create or replace function public.create_synced_table(t text)
+returns void
+language plpgsql
+as $$
+begin
+  execute format($f$
+    create table if not exists public.%1$I (
+      user_id uuid not null references auth.users (id) on delete cascade,
+      id text not null,
+      data jsonb,
+      updated_at bigint not null,
+      deleted boolean not null default false,
+      primary key (user_id, id)
+    );
+    alter table public.%1$I add column if not exists synced_at timestamptz not null default now();
+    create index if not exists %2$I on public.%1$I (user_id, synced_at);
+    alter table public.%1$I enable row level security;
+    drop policy if exists "Users manage their own rows" on public.%1$I;
+    create policy "Users manage their own rows" on public.%1$I
+      for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+    drop trigger if exists keep_newest_row on public.%1$I;
+    create trigger keep_newest_row before update on public.%1$I
+      for each row execute function public.keep_newest_row();
+    drop trigger if exists touch_synced_at on public.%1$I;
+    create trigger touch_synced_at before insert or update on public.%1$I
+      for each row execute function public.touch_synced_at();
+  $f$, t, t || '_synced_at');
+end;
+$$;
+
+revoke execute on function public.create_synced_table(text) from public, anon, authenticated;
+
+select public.create_synced_table(t)
+from unnest(array['courses', 'lesson_progress', 'badges', 'user_settings', 'activity_events', 'certificates', 'review_cards']) as t;
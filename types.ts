@@ -8,15 +8,62 @@ export interface Lesson {
   instructions: string;
   initialCode: string;
   solutionCode: string; // Used for AI reference/hinting
-  userCode?: string; // The code the user has written so far
+  userCode?: string; // The code the user has written so far (bundled into one document)
+  userFiles?: CodeFile[]; // The same work, file by file
+  targetFile?: string; // File this lesson mostly edits, e.g. "style.css"
   completed: boolean;
+  outcome?: LessonOutcome; // How the lesson was left; skipped lessons are not completed
   steps?: LearnerStep[]; // For Learner Mode
+  assertions?: LessonAssertion[]; // Machine-checkable goals run against the preview
+  quiz?: QuizQuestion[]; // Concept check taken alongside the coding task
+  quizResult?: QuizResult; // The learner's latest attempt
+}
+
+export type LessonOutcome = 'completed' | 'skipped' | 'testedOut';
+
+export type QuizKind = 'choice' | 'blank';
+
+export interface QuizQuestion {
+  id: string;
+  kind: QuizKind;
+  prompt: string; // For 'blank', "___" marks the gap
+  options?: string[]; // 'choice' only
+  answers: string[]; // 'choice': the one correct option; 'blank': every accepted answer
+  explanation?: string; // Shown once the quiz is graded
+}
+
+export interface QuizResult {
+  answers: Record<string, string>; // What the learner gave, by question id
+  correct: number;
+  total: number;
+  takenAt: number;
+}
+
+export type AssertionKind = 'exists' | 'text' | 'style' | 'event' | 'console';
+
+export interface LessonAssertion {
+  id: string;
+  kind: AssertionKind;
+  description: string; // Learner-facing goal, e.g. "The page has a main heading"
+  selector?: string; // Element under test (exists/text/style/event)
+  expected?: string; // Text (or /regex/), CSS value, or console output to look for
+  property?: string; // CSS property for 'style'
+  event?: string; // DOM event to dispatch for 'event', e.g. "click"
+  watchSelector?: string; // Element expected to change after the event (defaults to selector)
+}
+
+export interface AssertionResult {
+  id: string;
+  description: string;
+  passed: boolean;
+  message: string;
 }
 
 export interface LearnerStep {
   code: string;
   explanation: string;
   context?: string; // The line of code coming immediately before this step
+  file?: string; // The file it is typed in; any file when missing
 }
 
 export interface Module {
@@ -33,11 +80,114 @@ export interface Course {
   finalOutcomeDescription: string; // Preview of what will be made
   visualDescription?: string; // Specific visual design details
   previewImage?: string; // Generated snapshot of the final project
+  projectCode?: string; // The learner's evolving project, carried from lesson to lesson
+  projectFiles?: CodeFile[];
+  request?: CourseRequest; // What it was generated from; older courses do not have it
   modules: Module[];
   lastAccessed?: number;
   createdAt: number;
 }
 
+// What the learner asked for when generating a course
+export interface CourseRequest {
+  prompt: string;
+  difficultyLevel: number;
+  lengthLevel: number;
+  visualDescription?: string;
+  detailLevel: DetailLevel;
+  skillLevel?: Difficulty; // What the learner said about themselves during onboarding
+}
+
+// First generation stage: the course plan without any lesson content
+export interface CourseOutline {
+  title: string;
+  description: string;
+  finalOutcomeDescription: string;
+  modules: ModuleOutline[];
+}
+
+export interface ModuleOutline {
+  id: string;
+  title: string;
+  description: string;
+  lessons: Pick<Lesson, 'id' | 'title' | 'description'>[];
+}
+
+// A problem found when validating course content
+export interface CourseIssue {
+  path: string; // Where it is, e.g. "modules[1].lessons[0].solutionCode"
+  message: string;
+  lessonId?: string;
+  assertionId?: string; // Set when a lesson's solution fails this check
+}
+
+// A course part-way through generation, saved after every stage so a failed
+// or cancelled run can continue where it stopped
+export interface GenerationDraft {
+  id: string;
+  request: CourseRequest;
+  previewImage?: string;
+  outline?: CourseOutline;
+  modules: (Module | null)[]; // Filled in order; null until that module is generated
+  error?: string; // Why the last run stopped
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A snapshot of a course's content taken before an edit, so the edit can be undone.
+// Learner progress is not part of it; restoring keeps the progress of lessons that still exist.
+export interface CourseRevision {
+  id: string;
+  courseId: string;
+  label: string; // What the edit after it was, e.g. "Regenerated lesson \"Add a Button\""
+  createdAt: number;
+  content: Pick<Course, 'title' | 'description' | 'finalOutcomeDescription' | 'modules'>;
+}
+
+// A learner's work on one lesson, stored apart from the generated course content
+export interface LessonProgress {
+  courseId: string;
+  lessonId: string;
+  completed: boolean;
+  outcome?: LessonOutcome;
+  quizResult?: QuizResult;
+  userCode?: string;
+  userFiles?: CodeFile[];
+  updatedAt: number;
+}
+
+export type ActivityKind = 'lesson_start' | 'check_attempt' | 'lesson_complete' | 'time_on_task' | 'hint_used';
+
+export type ReviewCardKind = 'concept' | 'quiz' | 'kata';
+
+// The review schedule of one thing a completed lesson taught. What the card
+// asks is rebuilt from the lesson each time, so edits to the course show up.
+export interface ReviewCard {
+  id: string; // "courseId/lessonId/concept", ".../quiz/<questionId>" or ".../kata"
+  courseId: string;
+  lessonId: string;
+  kind: ReviewCardKind;
+  easiness: number; // SM-2 easiness factor, 1.3 and up
+  interval: number; // Days until the next review
+  repetitions: number; // Correct reviews in a row
+  due: number; // ms since epoch
+  createdAt: number; // First review
+  updatedAt: number;
+}
+
+// One thing the learner did; streaks and XP are computed from these
+export interface ActivityEvent {
+  id: string;
+  kind: ActivityKind;
+  courseId: string;
+  lessonId: string;
+  at: number; // ms since epoch
+  tzOffset: number; // Date#getTimezoneOffset() when it happened, so days roll over at the learner's midnight
+  passed?: boolean; // check_attempt
+  durationMs?: number; // time_on_task
+  hintLevel?: number; // hint_used: 1 nudge, 2 where it goes, 3 partial code, 4 solution
+}
+
 export interface Badge {
   id: string;
   name: string;
@@ -46,6 +196,16 @@ export interface Badge {
   awardedAt: number;
 }
 
+export interface Certificate {
+  id: string;
+  courseId: string;
+  courseTitle: string;
+  recipientName: string;
+  lessonCount: number;
+  completedAt: number;
+  hash: string; // SHA-256 over the fields above plus the course's lessons and their completion
+}
+
 export type Theme = 'zephyr' | 'sunset' | 'ocean' | 'forest' | 'crimson';
 export type DetailLevel = 'concise' | 'balanced' | 'verbose';
 
@@ -59,7 +219,7 @@ export interface AppSettings {
   allowSkipping: boolean;
 }
 
-export type ViewState = 'auth' | 'onboarding' | 'landing' | 'generating' | 'map' | 'workspace' | 'playground';
+export type ViewState = 'setup' | 'loading' | 'auth' | 'onboarding' | 'landing' | 'generating' | 'map' | 'editor' | 'workspace' | 'playground';
 export type Difficulty = 'novice' | 'beginner' | 'intermediate' | 'advanced';
 export type CourseLength = 'short' | 'medium' | 'long';
 
@@ -70,6 +230,24 @@ export interface ChatMessage {
   isError?: boolean;
 }
 
+// A position in one of the learner's files (1-based line)
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column?: number;
+}
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error';
+
+export interface ConsoleEntry {
+  id: string;
+  level: ConsoleLevel;
+  message: string;
+  isUncaught?: boolean; // Thrown errors and unhandled rejections, not console.error calls
+  stack?: string;
+  location?: SourceLocation;
+}
+
 export interface CodeFile {
   name: string;
   language: 'html' | 'css' | 'javascript';
@@ -83,3 +261,6 @@ export interface User {
   skillLevel?: Difficulty;
   isOnboarded: boolean;
 }
+
+// The parts of a User the app stores (and syncs) itself
+export type UserProfile = Pick<User, 'username' | 'skillLevel' | 'isOnboarded'>;
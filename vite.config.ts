@@ -9,6 +9,8 @@ const __dirname = dirname(__filename);
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // GEMINI_/SUPABASE_ keys are public client credentials read by services/config.ts
+  envPrefix: ['VITE_', 'GEMINI_', 'SUPABASE_'],
   resolve: {
     alias: {
       '@': resolve(__dirname, './'),